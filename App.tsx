@@ -4,31 +4,57 @@ import { HashRouter, Routes, Route, Navigate } from 'react-router-dom';
 import { AuthProvider } from './contexts/AuthContext';
 import { DashboardProvider } from './contexts/DashboardContext';
 import { Layout } from './components/ui/Layout';
+import { ProtectedRoute } from './components/ui/ProtectedRoute';
+import { SetupGate } from './components/ui/SetupGate';
+import { Login } from './components/pages/Login';
 import { Dashboard } from './components/pages/Dashboard';
 import { InputPlan } from './components/pages/InputPlan';
 import { InputActual } from './components/pages/InputActual';
 import { ProductionLog } from './components/pages/ProductionLog';
 import { ActivityLog } from './components/pages/ActivityLog';
 import { UserManagement } from './components/pages/UserManagement';
+import { StorageSettings } from './components/pages/StorageSettings';
 import { ProcessAnalytics } from './components/pages/ProcessAnalytics';
 import { SystemOverview } from './components/pages/SystemOverview';
+import { DataHealth } from './components/pages/DataHealth';
+import { Trash } from './components/pages/Trash';
+import { Snapshots } from './components/pages/Snapshots';
+import { MasterData } from './components/pages/MasterData';
+import { Products } from './components/pages/Products';
+import { WorkOrders } from './components/pages/WorkOrders';
+import { ROUTE_PERMISSIONS } from './constants';
+
+// Every page; anything outside ROUTE_PERMISSIONS is open to all signed-in users
+export const AppRoutes: React.FC = () => (
+  <Routes>
+    <Route path="/login" element={<Login />} />
+    <Route path="/" element={<Layout><Dashboard /></Layout>} />
+    <Route path="/plan" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/plan']}><InputPlan /></ProtectedRoute></Layout>} />
+    <Route path="/actual" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/actual']}><InputActual /></ProtectedRoute></Layout>} />
+    <Route path="/reports" element={<Layout><ProductionLog /></Layout>} />
+    <Route path="/process-analytics" element={<Layout><ProcessAnalytics /></Layout>} />
+    <Route path="/work-orders" element={<Layout><WorkOrders /></Layout>} />
+    <Route path="/logs" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/logs']}><ActivityLog /></ProtectedRoute></Layout>} />
+    <Route path="/users" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/users']}><UserManagement /></ProtectedRoute></Layout>} />
+    <Route path="/settings" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/settings']}><StorageSettings /></ProtectedRoute></Layout>} />
+    <Route path="/data-health" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/data-health']}><DataHealth /></ProtectedRoute></Layout>} />
+    <Route path="/trash" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/trash']}><Trash /></ProtectedRoute></Layout>} />
+    <Route path="/snapshots" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/snapshots']}><Snapshots /></ProtectedRoute></Layout>} />
+    <Route path="/master-data" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/master-data']}><MasterData /></ProtectedRoute></Layout>} />
+    <Route path="/products" element={<Layout><ProtectedRoute permission={ROUTE_PERMISSIONS['/products']}><Products /></ProtectedRoute></Layout>} />
+    <Route path="/overview" element={<Layout><SystemOverview /></Layout>} />
+    <Route path="*" element={<Navigate to="/" replace />} />
+  </Routes>
+);
 
 const App: React.FC = () => {
   return (
     <HashRouter>
       <AuthProvider>
         <DashboardProvider>
-          <Routes>
-            <Route path="/" element={<Layout><Dashboard /></Layout>} />
-            <Route path="/plan" element={<Layout><InputPlan /></Layout>} />
-            <Route path="/actual" element={<Layout><InputActual /></Layout>} />
-            <Route path="/reports" element={<Layout><ProductionLog /></Layout>} />
-            <Route path="/process-analytics" element={<Layout><ProcessAnalytics /></Layout>} />
-            <Route path="/logs" element={<Layout><ActivityLog /></Layout>} />
-            <Route path="/users" element={<Layout><UserManagement /></Layout>} />
-            <Route path="/overview" element={<Layout><SystemOverview /></Layout>} />
-            <Route path="*" element={<Navigate to="/" replace />} />
-          </Routes>
+          <SetupGate>
+          <AppRoutes />
+          </SetupGate>
         </DashboardProvider>
       </AuthProvider>
     </HashRouter>
@@ -6,20 +6,18 @@ import { DEFAULT_AVATARS } from '../../constants';
 import { X, User as UserIcon, Camera, Upload, Check } from 'lucide-react';
 
 export const AvatarModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
-  const { user, login } = useAuth();
+  const { user, refreshUser } = useAuth();
   const [selected, setSelected] = useState<string>(user?.avatar || '');
 
   const handleSave = () => {
     if (!user) return;
     const users = StorageService.getUsers();
-    const updatedUser = { ...user, avatar: selected };
-    const updatedList = users.map(u => u.id === user.id ? updatedUser : u);
+    const updatedList = users.map(u => u.id === user.id ? { ...u, avatar: selected } : u);
     
     StorageService.saveUsers(updatedList);
-    StorageService.setSession(updatedUser);
-    
-    // Refresh the auth context by effectively "re-logging" or triggering state update
-    window.location.reload(); // Simplest way to propagate the session change across all components
+    // The session only references the user id, so re-reading it picks up the new avatar
+    refreshUser();
+    onClose();
   };
 
   const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
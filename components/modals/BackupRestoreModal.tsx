@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { BackupService, ParsedBackup } from '../../services/backupService';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { RestoredCollection, RestoreMode, RestorePreviewRow } from '../../types';
+import { X, ArchiveRestore, Upload, AlertCircle, AlertTriangle, Loader2 } from 'lucide-react';
+
+const COLLECTION_LABELS: Record<RestoredCollection, string> = {
+  users: 'Users',
+  production: 'Production Records',
+  offDays: 'Public Holidays',
+  logs: 'Activity Logs',
+  workOrders: 'Work Orders',
+  downtime: 'Downtime',
+  products: 'Products',
+  shifts: 'Shifts'
+};
+
+/**
+ * Restores a backup archive: the file is checked first, then the changes are
+ * previewed per collection before anything is written. A backup of this
+ * device is downloaded automatically right before the restore.
+ */
+export const BackupRestoreModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { user, refreshUser } = useAuth();
+  const { triggerRefresh } = useDashboard();
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedBackup | null>(null);
+  const [error, setError] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [preview, setPreview] = useState<RestorePreviewRow[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!parsed) return;
+    let cancelled = false;
+    BackupService.preview(parsed, mode)
+      .then(rows => { if (!cancelled) setPreview(rows); })
+      .catch(err => { if (!cancelled) setError(err?.message || 'Could not compare the backup with this device'); });
+    return () => { cancelled = true; };
+  }, [parsed, mode]);
+
+  const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setParsed(null);
+    setPreview([]);
+    setError('');
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      try {
+        setParsed(BackupService.parse(String(reader.result || '')));
+      } catch (err: any) {
+        setError(err?.message || 'The file could not be read');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const invalidCount = parsed
+    ? Object.values(parsed.rejected).reduce((sum, list) => sum + (list?.length || 0), 0)
+    : 0;
+  // Replacing with an archive that does not contain the signed-in admin would lock them out
+  const locksOut = !!parsed && mode === 'replace' && !parsed.archive.data.users.some(u => String(u.id) === String(user!.id));
+
+  const handleRestore = async () => {
+    if (!parsed || locksOut) return;
+    const message = mode === 'replace'
+      ? 'Replace ALL data on this device with the backup? Records that are not in the backup will be removed.'
+      : 'Merge the backup into the data on this device?';
+    if (!window.confirm(`${message} A backup of the current data will be downloaded first.`)) return;
+    setIsRestoring(true);
+    try {
+      const safety = await BackupService.restore(parsed, mode, user!);
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: 'BACKUP_RESTORE',
+        details: `${mode === 'replace' ? 'Replaced data with' : 'Merged'} backup of ${parsed.archive.createdAt || 'unknown date'} by @${parsed.archive.createdBy || 'unknown'} (${fileName})` +
+          `; pre-restore backup taken at ${safety.createdAt}` +
+          (invalidCount > 0 ? `; ${invalidCount} invalid record${invalidCount === 1 ? '' : 's'} quarantined` : '')
+      });
+      triggerRefresh();
+      refreshUser();
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: 'BACKUP RESTORED - PRE-RESTORE COPY DOWNLOADED', type: 'success' }
+      }));
+      onClose();
+    } catch (err: any) {
+      setError(err?.message || 'Restore failed');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[100] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-[2.5rem] w-full max-w-xl shadow-2xl p-10 relative animate-in fade-in zoom-in duration-300 border border-white dark:border-slate-700 max-h-[90vh] overflow-y-auto custom-scrollbar">
+        <button onClick={onClose} className="absolute top-8 right-8 text-slate-300 hover:text-slate-500 transition-colors p-1">
+          <X className="w-6 h-6" />
+        </button>
+
+        <div className="mb-8 flex flex-col items-center text-center">
+          <div className="p-3.5 bg-indigo-50 dark:bg-indigo-900/40 rounded-2xl mb-4">
+            <ArchiveRestore className="w-8 h-8 text-indigo-500" />
+          </div>
+          <h3 className="text-2xl font-black text-slate-800 dark:text-white">Restore Backup</h3>
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">A backup of this device is downloaded first</p>
+        </div>
+
+        <label className="flex items-center justify-center gap-2 p-4 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-2xl cursor-pointer hover:border-indigo-400 transition text-xs font-black uppercase tracking-widest text-slate-500">
+          <Upload className="w-4 h-4" /> {fileName || 'Choose Backup File'}
+          <input type="file" accept="application/json,.json" className="hidden" onChange={onFileChange} />
+        </label>
+
+        {error && (
+          <div className="mt-4 p-3 rounded-xl bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 flex items-center gap-2 text-xs font-bold text-rose-600 dark:text-rose-400">
+            <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+          </div>
+        )}
+
+        {parsed && (
+          <div className="mt-6 space-y-5">
+            <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400 text-center">
+              Created {parsed.archive.createdAt || 'at an unknown time'} by @{parsed.archive.createdBy || 'unknown'}
+            </p>
+
+            <div className="grid grid-cols-2 gap-3">
+              {(['merge', 'replace'] as RestoreMode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={`text-left p-4 rounded-2xl border transition ${
+                    mode === m ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20' : 'border-slate-200 dark:border-slate-700 hover:border-indigo-300'
+                  }`}
+                >
+                  <p className="text-xs font-black text-slate-700 dark:text-white">{m === 'merge' ? 'Merge' : 'Replace'}</p>
+                  <p className="text-[10px] text-slate-400 font-medium mt-1">
+                    {m === 'merge'
+                      ? 'Adds missing records and newer production entries. Settings stay as they are.'
+                      : 'Makes the backup the whole data set, settings included.'}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-right">
+                  <th className="text-left py-2">Collection</th>
+                  <th>Backup</th>
+                  <th>Device</th>
+                  <th>Added</th>
+                  <th>Updated</th>
+                  <th>Removed</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+                {preview.map(row => (
+                  <tr key={row.collection} className="text-right font-bold text-slate-600 dark:text-slate-300">
+                    <td className="text-left py-2 font-black text-slate-800 dark:text-white">{COLLECTION_LABELS[row.collection]}</td>
+                    <td>{row.inArchive}</td>
+                    <td>{row.onDevice}</td>
+                    <td className="text-emerald-600">{row.added}</td>
+                    <td className="text-indigo-600">{row.updated}</td>
+                    <td className="text-rose-600">{row.removed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {invalidCount > 0 && (
+              <div className="p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 flex items-center gap-2 text-xs font-bold text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                {invalidCount} invalid record{invalidCount === 1 ? '' : 's'} will be skipped and listed in Data Health.
+              </div>
+            )}
+            <p className="text-[10px] text-slate-400 font-medium italic">
+              Backups carry no passwords. Restored users that do not exist on this device need a new password from an admin.
+            </p>
+            {locksOut && (
+              <div className="p-3 rounded-xl bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 flex items-center gap-2 text-xs font-bold text-rose-600 dark:text-rose-400">
+                <AlertCircle className="w-4 h-4 shrink-0" /> Your account is not in this backup. Replacing would sign you out for good; use Merge instead.
+              </div>
+            )}
+
+            <button onClick={handleRestore} disabled={isRestoring || locksOut} className="w-full bg-indigo-600 text-white py-4 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition flex items-center justify-center gap-2 disabled:opacity-50">
+              {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <ArchiveRestore className="w-4 h-4" />}
+              {isRestoring ? 'Restoring...' : mode === 'replace' ? 'Back Up & Replace' : 'Back Up & Merge'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { StorageService } from '../../services/storageService';
+import { PasswordService } from '../../services/passwordService';
 import { X, Key, ShieldCheck, AlertCircle } from 'lucide-react';
 
 export const ChangePasswordModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
@@ -14,7 +15,7 @@ export const ChangePasswordModal: React.FC<{ onClose: () => void }> = ({ onClose
   const labelClasses = "block text-[10px] font-extrabold uppercase text-slate-400 tracking-[0.15em] mb-2 ml-1";
   const inputClasses = "w-full p-4 border border-slate-100 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-900 dark:text-white font-medium rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500/10 focus:border-indigo-200 shadow-sm transition-all placeholder:text-slate-300";
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
       setError('');
 
@@ -25,7 +26,9 @@ export const ChangePasswordModal: React.FC<{ onClose: () => void }> = ({ onClose
           return;
       }
 
-      if(user.password !== currPass) {
+      const users = StorageService.getUsers();
+      const storedUser = users.find(u => u.id === user.id);
+      if (!storedUser || !(await PasswordService.verifyUser(storedUser, currPass)).valid) {
           setError("Incorrect current password");
           return;
       }
@@ -36,12 +39,11 @@ export const ChangePasswordModal: React.FC<{ onClose: () => void }> = ({ onClose
       }
 
       try {
-          const users = StorageService.getUsers();
-          const updatedUser = { ...user, password: newPass };
+          const { password: _legacy, ...rest } = storedUser;
+          const updatedUser = { ...rest, passwordHash: await PasswordService.hash(newPass) };
           const updated = users.map(u => u.id === user.id ? updatedUser : u);
           
           StorageService.saveUsers(updated);
-          StorageService.setSession(updatedUser);
           
           StorageService.addLog({
             userId: user.id,
@@ -3,10 +3,13 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useDashboard } from '../../contexts/DashboardContext';
 import { StorageService } from '../../services/storageService';
-import { CATEGORIES, PROCESSES, UNITS } from '../../constants';
 import { ProductionEntry, Category, ProcessType, UnitType } from '../../types';
 import { X, Loader2, AlertTriangle, Palmtree } from 'lucide-react';
 import { getTodayISO, getDbTimestamp } from '../../utils/dateUtils';
+import { generateId } from '../../utils/idUtils';
+import { ActualRecordList } from '../ui/ActualRecordList';
+import { DowntimeLog } from '../ui/DowntimeLog';
+import { LossEditor, LossDraft, fromLossDrafts, lossSummary } from '../ui/LossEditor';
 
 interface InputModalProps {
   onClose: () => void;
@@ -14,24 +17,47 @@ interface InputModalProps {
 }
 
 export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) => {
-  const { user, hasPermission } = useAuth();
-  const { triggerRefresh } = useDashboard();
+  const { user, can } = useAuth();
+  const { refreshKey, triggerRefresh } = useDashboard();
   const [tab, setTab] = useState<'Plan' | 'Actual'>('Plan');
   const [isSubmitting, setIsSubmitting] = useState(false);
   
-  const [date, setDate] = useState(getTodayISO());
-  const [category, setCategory] = useState<Category>(CATEGORIES[0]);
-  const [process, setProcess] = useState<ProcessType>(PROCESSES[0]);
+  // Overnight shifts keep counting toward the day they started on
+  const currentShift = useMemo(() => StorageService.getCurrentShift(), []);
+  const [date, setDate] = useState(currentShift?.productionDate ?? getTodayISO());
+  const [shift, setShift] = useState('');
+  const [category, setCategory] = useState<Category>(() => StorageService.getMasterDataOptions('categories')[0] || '');
+  const [process, setProcess] = useState<ProcessType>(() => StorageService.getMasterDataOptions('processes')[0] || '');
   const [productName, setProductName] = useState('');
   const [quantity, setQuantity] = useState('');
-  const [unit, setUnit] = useState<UnitType>('KG');
+  const [unit, setUnit] = useState<UnitType>(() => StorageService.getMasterDataOptions('units')[0] || '');
   const [manpower, setManpower] = useState('0');
   const [batchNo, setBatchNo] = useState('');
+  const [losses, setLosses] = useState<LossDraft[]>([]);
   
   const [plans, setPlans] = useState<ProductionEntry[]>([]);
   const [selectedPlanId, setSelectedPlanId] = useState<string>('');
 
   const offDays = useMemo(() => StorageService.getOffDays(), []);
+  // An entry being edited keeps its archived category, process or unit selectable
+  const categories = useMemo(() => StorageService.getMasterDataOptions('categories', editEntry?.category), [editEntry]);
+  const processes = useMemo(() => StorageService.getMasterDataOptions('processes', editEntry?.process), [editEntry]);
+  const units = useMemo(() => StorageService.getMasterDataOptions('units', editEntry?.unit), [editEntry]);
+  const shifts = useMemo(() => StorageService.getShiftOptions(editEntry?.shift), [editEntry]);
+  const lossReasons = useMemo(() => StorageService.getMasterDataOptions('lossReasons'), []);
+  const products = useMemo(() => StorageService.getProductOptions(), []);
+  const matchedProduct = useMemo(() => StorageService.findProduct(productName), [productName]);
+
+  // Picking a catalogue product fills in its category, unit and first process
+  const handleProductChange = (value: string) => {
+    const product = StorageService.findProduct(value);
+    if (product && product.id !== matchedProduct?.id) {
+      setCategory(product.category);
+      setUnit(product.defaultUnit);
+      if (!product.route.includes(process)) setProcess(product.route[0]);
+    }
+    setProductName(value);
+  };
   const currentOffDay = useMemo(() => {
     const inputDate = (date || '').trim().split(' ')[0];
     return offDays.find(od => (od.date || '').trim().split(' ')[0] === inputDate);
@@ -53,28 +79,38 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
       setCategory(editEntry.category);
       setProcess(editEntry.process);
       setProductName(editEntry.productName);
-      setUnit(editEntry.unit || 'KG');
-      const isActualMode = editEntry.actualQuantity > 0;
-      setQuantity(isActualMode ? (editEntry.actualQuantity || 0).toString() : (editEntry.planQuantity || 0).toString());
-      setManpower(editEntry.manpower?.toString() || '0');
+      setUnit(editEntry.unit || StorageService.getMasterDataOptions('units')[0] || '');
+      // Actual output is corrected report by report below the form
+      setQuantity((editEntry.planQuantity || 0).toString());
       setBatchNo(editEntry.batchNo || '');
-      setTab(isActualMode ? 'Actual' : 'Plan'); 
+      setShift(editEntry.shift || '');
+      setTab('Plan');
     } else {
-      if (user?.role === 'operator') setTab('Actual');
-      else if (user?.role === 'planner') setTab('Plan');
+      if (!can('plan.create') && can('actual.record')) setTab('Actual');
+      else if (can('plan.create')) setTab('Plan');
     }
   }, [editEntry, user]);
 
   useEffect(() => {
     if (tab === 'Actual' && !editEntry) {
-        const all = StorageService.getProductionData();
         const normalizedInputDate = (date || '').trim().split(' ')[0];
-        const relevant = all.filter(p => (p.date || '').trim().split(' ')[0] === normalizedInputDate);
-        setPlans(relevant);
+        let cancelled = false;
+        StorageService.queryProduction({ from: normalizedInputDate, to: normalizedInputDate })
+          .then(relevant => { if (!cancelled) setPlans(relevant); })
+          .catch(err => console.error('Failed to load plans:', err));
         setSelectedPlanId('');
+        return () => { cancelled = true; };
     }
   }, [date, tab, editEntry]);
 
+  // Reports default to the plan's shift, or for a whole-day plan to the shift running now
+  const selectedPlan = plans.find(p => p.id === selectedPlanId);
+  useEffect(() => {
+    if (!selectedPlan) return;
+    const normalizedInputDate = (date || '').trim().split(' ')[0];
+    setShift(selectedPlan.shift || (currentShift?.productionDate === normalizedInputDate ? currentShift.shift.id : ''));
+  }, [selectedPlanId]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
@@ -89,49 +125,40 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
         return;
     }
 
-    const currentData = StorageService.getProductionData();
-
     try {
         if (editEntry) {
             const changes: string[] = [];
             const newQty = parseInt(quantity || '0');
-            const newManpower = parseInt(manpower || '0');
 
             if (editEntry.date !== normalizedDate) changes.push(`Date (${editEntry.date} → ${normalizedDate})`);
-            if (editEntry.productName !== productName) changes.push(`Product (${editEntry.productName} → ${productName})`);
+            if ((editEntry.shift || '') !== shift) changes.push(`Shift (${StorageService.getShiftLabel(editEntry.shift)} → ${StorageService.getShiftLabel(shift)})`);
+            // Reports may have been corrected since the form opened; the saved list is kept as it is
+            const latest = await StorageService.getProductionEntry(editEntry.id);
+            if (!latest) throw new Error('Production entry not found');
+            const { productId: _linked, shift: _shift, ...unlinked } = latest;
+            const name = matchedProduct?.name ?? productName.trim();
+            if (editEntry.productName !== name) changes.push(`Product (${editEntry.productName} → ${name})`);
             if (editEntry.category !== category) changes.push(`Category (${editEntry.category} → ${category})`);
             if (editEntry.process !== process) changes.push(`Process (${editEntry.process} → ${process})`);
             if (editEntry.unit !== unit) changes.push(`Unit (${editEntry.unit} → ${unit})`);
             
-            if (tab === 'Plan') {
-              if (editEntry.planQuantity !== newQty) changes.push(`Plan Qty (${editEntry.planQuantity} → ${newQty})`);
-            } else {
-              if (editEntry.actualQuantity !== newQty) changes.push(`Actual Qty (${editEntry.actualQuantity} → ${newQty})`);
-            }
-
-            if ((editEntry.manpower || 0) !== newManpower) changes.push(`Manpower (${editEntry.manpower || 0} → ${newManpower})`);
+            if (editEntry.planQuantity !== newQty) changes.push(`Plan Qty (${editEntry.planQuantity} → ${newQty})`);
             if ((editEntry.batchNo || '') !== batchNo) changes.push(`Batch (${editEntry.batchNo || 'None'} → ${batchNo || 'None'})`);
 
-            const updated = currentData.map(p => {
-                if (p.id === editEntry.id) {
-                    return { 
-                        ...p, 
-                        date: normalizedDate, 
-                        category, process, productName, unit,
-                        planQuantity: tab === 'Plan' ? newQty : p.planQuantity,
-                        actualQuantity: tab === 'Actual' ? newQty : p.actualQuantity,
-                        batchNo, manpower: newManpower,
-                        lastUpdatedBy: user!.id, updatedAt: getDbTimestamp()
-                    };
-                }
-                return p;
-            });
-
-            StorageService.saveProductionData(updated);
+            await StorageService.upsertProduction([{ 
+                ...unlinked, 
+                ...(matchedProduct ? { productId: matchedProduct.id } : {}),
+                ...(shift ? { shift } : {}),
+                date: normalizedDate, 
+                category, process, productName: name, unit,
+                planQuantity: newQty,
+                batchNo,
+                lastUpdatedBy: user!.id, updatedAt: getDbTimestamp()
+            }]);
             
             const logDetails = changes.length > 0 
-              ? `Edited ${productName} (${editEntry.process}) on ${editEntry.date}: ${changes.join(', ')}`
-              : `Updated record for ${productName} (${editEntry.process}) on ${editEntry.date} (No values changed)`;
+              ? `Edited ${name} (${editEntry.process}) on ${editEntry.date}: ${changes.join(', ')}`
+              : `Updated record for ${name} (${editEntry.process}) on ${editEntry.date} (No values changed)`;
 
             StorageService.addLog({
               userId: user!.id,
@@ -142,38 +169,34 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
         } else {
             if (tab === 'Plan') {
                 const newEntry: ProductionEntry = {
-                    id: Date.now().toString(),
+                    id: generateId(),
                     date: normalizedDate, 
-                    category, process, productName, unit,
+                    category, process, unit,
+                    productName: matchedProduct?.name ?? productName.trim(),
+                    ...(matchedProduct ? { productId: matchedProduct.id } : {}),
+                    ...(shift ? { shift } : {}),
                     planQuantity: parseInt(quantity || '0'), actualQuantity: 0,
                     lastUpdatedBy: user!.id, updatedAt: getDbTimestamp()
                 };
-                StorageService.saveProductionData([...currentData, newEntry]);
+                await StorageService.upsertProduction([newEntry]);
                 StorageService.addLog({
                   userId: user!.id,
                   userName: user!.name,
                   action: 'CREATE_PLAN',
-                  details: `Planned ${newEntry.planQuantity} ${newEntry.unit} for ${newEntry.productName} (${normalizedDate})`
+                  details: `Planned ${newEntry.planQuantity} ${newEntry.unit} for ${newEntry.productName} (${normalizedDate}${shift ? `, ${StorageService.getShiftLabel(shift)}` : ''})`
                 });
             } else {
                 if (!selectedPlanId) throw new Error("Please select a plan");
-                const targetPlan = currentData.find(p => p.id === selectedPlanId);
-                const updated = currentData.map(p => {
-                    if (p.id === selectedPlanId) {
-                        return { 
-                            ...p, 
-                            actualQuantity: parseInt(quantity || '0'), batchNo, manpower: parseInt(manpower || '0'),
-                            lastUpdatedBy: user!.id, updatedAt: getDbTimestamp()
-                        };
-                    }
-                    return p;
-                });
-                StorageService.saveProductionData(updated);
+                const targetPlan = plans.find(p => p.id === selectedPlanId);
+                const record = await StorageService.recordActual(selectedPlanId, {
+                    quantity: parseInt(quantity || '0'), batchNo, manpower: parseInt(manpower || '0'),
+                    shift: shift || undefined, losses: fromLossDrafts(losses)
+                }, user!.id);
                 StorageService.addLog({
                   userId: user!.id,
                   userName: user!.name,
                   action: 'RECORD_ACTUAL',
-                  details: `Recorded actual output of ${quantity} ${targetPlan?.unit || 'KG'} for ${targetPlan?.productName || 'product'}`
+                  details: `Recorded actual output of ${quantity} ${targetPlan?.unit || 'KG'} for ${targetPlan?.productName || 'product'}${shift ? ` (${StorageService.getShiftLabel(shift)})` : ''}${record.losses ? `; ${lossSummary(record.losses)}` : ''}`
                 });
             }
         }
@@ -206,13 +229,13 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
         <div className="flex border-b border-gray-200 dark:border-slate-700">
             {!editEntry ? (
               <>
-                {hasPermission(['admin', 'manager', 'planner']) && (
+                {can('plan.create') && (
                     <button onClick={() => setTab('Plan')} 
                         className={`flex-1 py-4 font-black text-[11px] uppercase tracking-widest text-center transition border-b-2 ${tab === 'Plan' ? 'border-indigo-600 text-indigo-600' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>
                         Production Plan
                     </button>
                 )}
-                {hasPermission(['admin', 'manager', 'operator']) && (
+                {can('actual.record') && (
                     <button onClick={() => setTab('Actual')} 
                         className={`flex-1 py-4 font-black text-[11px] uppercase tracking-widest text-center transition border-b-2 ${tab === 'Actual' ? 'border-emerald-500 text-emerald-600' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>
                         Production Actual
@@ -233,6 +256,9 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
                 <div>
                     <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Production Date</label>
                     <input type="date" required value={date} onChange={e => setDate(e.target.value)} className={inputClasses} />
+                    {currentShift && !editEntry && (
+                      <p className="mt-1 text-[10px] font-bold uppercase tracking-widest text-slate-400">Now: {currentShift.shift.name} shift, counted toward {currentShift.productionDate}</p>
+                    )}
                     
                     {currentOffDay && (
                       <div className="mt-3 p-3 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 rounded-xl flex items-center gap-3 animate-pulse shadow-sm">
@@ -248,52 +274,66 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
                     )}
                 </div>
 
+                {(tab === 'Plan' || editEntry || selectedPlanId) && (
+                    <div>
+                        <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Shift</label>
+                        <select value={shift} onChange={e => setShift(e.target.value)} className={inputClasses}>
+                            <option value="">Whole day</option>
+                            {shifts.map(s => <option key={s.id} value={s.id}>{s.name} ({s.start} - {s.end})</option>)}
+                        </select>
+                    </div>
+                )}
+
                 {tab === 'Plan' || editEntry ? (
                     <>
                         <div className="grid grid-cols-2 gap-4">
                             <div>
                                 <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Category</label>
                                 <select value={category} onChange={e => setCategory(e.target.value as Category)} className={inputClasses}>
-                                    {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                                    {categories.map(c => <option key={c} value={c}>{c}</option>)}
                                 </select>
                             </div>
                             <div>
                                 <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Process</label>
                                 <select value={process} onChange={e => setProcess(e.target.value as ProcessType)} className={inputClasses}>
-                                    {PROCESSES.map(p => <option key={p} value={p}>{p}</option>)}
+                                    {processes.map(p => <option key={p} value={p}>{p}</option>)}
                                 </select>
                             </div>
                         </div>
                         <div>
                             <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Product Name</label>
-                            <input type="text" required value={productName} onChange={e => setProductName(e.target.value)} className={inputClasses} placeholder="Enter name..." />
+                            <input type="text" required list="catalogue-products" value={productName} onChange={e => handleProductChange(e.target.value)} className={inputClasses} placeholder="Enter name or SKU..." />
+                            <datalist id="catalogue-products">
+                                {products.map(p => <option key={p.id} value={p.name}>{p.sku}{p.packSize ? ` · ${p.packSize}` : ''}</option>)}
+                            </datalist>
+                            {matchedProduct ? (
+                                <p className="mt-1 text-[10px] font-bold uppercase tracking-widest text-indigo-500">
+                                    {matchedProduct.sku} · Route: {matchedProduct.route.join(' → ')}
+                                </p>
+                            ) : productName.trim() !== '' && (
+                                <p className="mt-1 text-[10px] font-bold uppercase tracking-widest text-amber-500">Not in the product catalogue</p>
+                            )}
                         </div>
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                           <div className="flex gap-2">
                               <div className="flex-1">
-                                  <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Quantity</label>
+                                  <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">{editEntry ? 'Plan Qty' : 'Quantity'}</label>
                                   <input type="number" required min="1" value={quantity} onChange={e => setQuantity(e.target.value)} className={inputClasses} />
                               </div>
                               <div className="w-24">
                                   <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Unit</label>
                                   <select value={unit} onChange={e => setUnit(e.target.value as UnitType)} className={inputClasses}>
-                                      {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                                      {units.map(u => <option key={u} value={u}>{u}</option>)}
                                   </select>
                               </div>
                           </div>
                           {editEntry && (
                             <div>
-                                <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Manpower</label>
-                                <input type="number" required min="0" value={manpower} onChange={e => setManpower(e.target.value)} className={inputClasses} />
+                                <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Batch Number</label>
+                                <input type="text" value={batchNo} onChange={e => setBatchNo(e.target.value)} className={inputClasses} />
                             </div>
                           )}
                         </div>
-                        {editEntry && (
-                          <div>
-                              <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Batch Number</label>
-                              <input type="text" value={batchNo} onChange={e => setBatchNo(e.target.value)} className={inputClasses} />
-                          </div>
-                        )}
                     </>
                 ) : (
                     <>
@@ -305,7 +345,7 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
                                          <div key={p.id} onClick={() => setSelectedPlanId(p.id)}
                                             className={`p-3 rounded-lg cursor-pointer transition ${selectedPlanId === p.id ? 'bg-indigo-600 text-white shadow-md' : 'text-slate-600 dark:text-slate-300 hover:bg-white dark:hover:bg-slate-800'}`}>
                                             <div className="font-black text-sm">{p.productName}</div>
-                                            <div className={`text-[10px] font-bold uppercase ${selectedPlanId === p.id ? 'text-indigo-100' : 'text-slate-400'}`}>{p.process} • Plan: {p.planQuantity} {p.unit || 'KG'}</div>
+                                            <div className={`text-[10px] font-bold uppercase ${selectedPlanId === p.id ? 'text-indigo-100' : 'text-slate-400'}`}>{p.process}{p.shift ? ` • ${StorageService.getShiftLabel(p.shift)}` : ''} • Plan: {p.planQuantity} {p.unit || 'KG'}{p.actualQuantity > 0 ? ` • Reported: ${p.actualQuantity}` : ''}</div>
                                          </div>
                                      ))}
                                  </div>
@@ -315,7 +355,7 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
                             <>
                                 <div className="grid grid-cols-2 gap-4">
                                     <div>
-                                        <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Actual Qty</label>
+                                        <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Good Qty</label>
                                         <input type="number" required value={quantity} onChange={e => setQuantity(e.target.value)} className={inputClasses} />
                                     </div>
                                     <div>
@@ -327,6 +367,10 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
                                     <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Batch Number</label>
                                     <input type="text" required value={batchNo} onChange={e => setBatchNo(e.target.value)} className={inputClasses} placeholder="Enter batch ID..." />
                                 </div>
+                                <div>
+                                    <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Rejects, Rework & Scrap</label>
+                                    <LossEditor losses={losses} reasons={lossReasons} onChange={setLosses} inputClassName={inputClasses} />
+                                </div>
                             </>
                         )}
                     </>
@@ -344,6 +388,30 @@ export const InputModal: React.FC<InputModalProps> = ({ onClose, editEntry }) =>
                     {isSubmitting ? 'Syncing...' : (!!currentOffDay && !editEntry ? 'Holiday Entry Locked' : 'Update System')}
                 </button>
             </form>
+
+            {/* Outside the form: Enter in a report's edit row must not save the plan */}
+            {editEntry && (
+              <div className="mt-6">
+                  <label className="block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1">Actual Reports</label>
+                  <div className="max-h-60 overflow-y-auto custom-scrollbar">
+                      <ActualRecordList entryId={editEntry.id} onChanged={triggerRefresh} />
+                  </div>
+              </div>
+            )}
+
+            {/* Downtime has its own form, so it sits below the actual one */}
+            {tab === 'Actual' && !editEntry && selectedPlan && (
+              <div className="mt-6 pt-6 border-t border-slate-100 dark:border-slate-700">
+                <DowntimeLog
+                  date={(date || '').trim().split(' ')[0]}
+                  category={selectedPlan.category}
+                  process={selectedPlan.process}
+                  entryId={selectedPlan.id}
+                  refreshKey={refreshKey}
+                  onChanged={triggerRefresh}
+                />
+              </div>
+            )}
         </div>
       </div>
     </div>
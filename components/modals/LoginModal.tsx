@@ -1,23 +1,28 @@
 
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { LoginGuardService } from '../../services/loginGuardService';
+import { RecoveryModal } from './RecoveryModal';
 import { X, Lock, User as UserIcon } from 'lucide-react';
 
 export const LoginModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
   const { login } = useAuth();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [remember, setRemember] = useState(false);
   const [error, setError] = useState('');
+  const [showRecovery, setShowRecovery] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (login(username, password)) {
+    const result = await login(username, password, remember);
+    if (result.ok) {
       window.dispatchEvent(new CustomEvent('app-notification', { 
         detail: { message: `Login successful! Welcome ${username}.`, type: 'success' } 
       }));
       onClose();
     } else {
-      setError('Invalid username or password');
+      setError(LoginGuardService.describeFailure(result));
     }
   };
 
@@ -58,11 +63,20 @@ export const LoginModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
             />
           </div>
 
+          <label className="flex items-center gap-2 px-1 text-xs font-bold text-slate-500 cursor-pointer select-none">
+            <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} className="rounded accent-indigo-600" />
+            Remember me on this device
+          </label>
+
           <button type="submit" className="w-full bg-slate-900 dark:bg-indigo-600 text-white py-3.5 rounded-xl font-black hover:opacity-90 transition shadow-xl shadow-indigo-500/10 uppercase tracking-widest text-xs">
             Log In to Dashboard
           </button>
+          <button type="button" onClick={() => setShowRecovery(true)} className="w-full text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-indigo-500 transition">
+            Forgot administrator password?
+          </button>
         </form>
       </div>
+      {showRecovery && <RecoveryModal onClose={() => setShowRecovery(false)} />}
     </div>
   );
 };
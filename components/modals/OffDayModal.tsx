@@ -5,6 +5,7 @@ import { OffDay } from '../../types';
 import { X, Trash2, CalendarX } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useDashboard } from '../../contexts/DashboardContext';
+import { generateId } from '../../utils/idUtils';
 
 export const OffDayModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
   const { user } = useAuth();
@@ -18,7 +19,7 @@ export const OffDayModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
   const handleAdd = () => {
       if(!date) return;
       if(offDays.some(od => od.date === date)) return alert('Already off day');
-      const newOd: OffDay = { id: Date.now().toString(), date, description: desc || 'Holiday', createdBy: user!.id };
+      const newOd: OffDay = { id: generateId(), date, description: desc || 'Holiday', createdBy: user!.id };
       const updated = [...offDays, newOd].sort((a,b) => (a.date || '').localeCompare(b.date || ''));
       StorageService.saveOffDays(updated);
       
@@ -40,21 +41,20 @@ export const OffDayModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
   };
 
   const handleRemove = (id: string) => {
-      const target = offDays.find(od => od.id === id);
+      const target = StorageService.deleteOffDay(id, user!.id);
       const updated = offDays.filter(od => od.id !== id);
-      StorageService.saveOffDays(updated);
       
       StorageService.addLog({
         userId: user!.id,
         userName: user!.name,
         action: 'DELETE_HOLIDAY',
-        details: `Removed holiday: ${target?.description} (${target?.date})`
+        details: `Moved holiday to trash: ${target?.description} (${target?.date})`
       });
 
       setOffDays(updated);
       triggerRefresh();
       window.dispatchEvent(new CustomEvent('app-notification', { 
-          detail: { message: 'HOLIDAY REMOVED FROM SYSTEM', type: 'info' } 
+          detail: { message: 'HOLIDAY MOVED TO TRASH', type: 'info' } 
       }));
   };
 
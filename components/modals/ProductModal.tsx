@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { Product } from '../../types';
+import { generateId } from '../../utils/idUtils';
+import { RouteEditor } from '../ui/RouteEditor';
+import { X, Package, AlertCircle } from 'lucide-react';
+
+/**
+ * Adds a catalogue product or edits one, including its ordered process route.
+ */
+export const ProductModal: React.FC<{ product?: Product | null; onClose: (saved?: Product) => void }> = ({ product, onClose }) => {
+  const { user } = useAuth();
+  const categories = useMemo(() => StorageService.getMasterDataOptions('categories', product?.category), [product]);
+  const units = useMemo(() => StorageService.getMasterDataOptions('units', product?.defaultUnit), [product]);
+  const processes = useMemo(() => StorageService.getMasterDataOptions('processes'), []);
+  const [draft, setDraft] = useState<Product>(product || {
+    id: generateId(),
+    sku: '',
+    name: '',
+    category: categories[0] || '',
+    defaultUnit: units[0] || '',
+    route: [],
+    updatedAt: ''
+  });
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const labelClasses = "block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1";
+  const inputClasses = "w-full p-2.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-900 dark:text-white font-bold focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSaving(true);
+    try {
+      const saved = await StorageService.saveProduct(draft, user!.id);
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: product ? 'EDIT_PRODUCT' : 'CREATE_PRODUCT',
+        details: product && product.name !== saved.name
+          ? `Updated product ${saved.sku}: renamed "${product.name}" to "${saved.name}"`
+          : `${product ? 'Updated' : 'Added'} product ${saved.sku} "${saved.name}" (${saved.route.join(' → ')})`
+      });
+      onClose(saved);
+    } catch (err: any) {
+      setError(err?.message || 'Could not save the product');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl w-full max-w-lg shadow-2xl flex flex-col max-h-[90vh] animate-in fade-in zoom-in duration-200">
+        <div className="p-5 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Package className="w-5 h-5 text-indigo-500" />
+            <h3 className="font-black text-lg text-slate-800 dark:text-white">{product ? 'Edit Product' : 'New Product'}</h3>
+          </div>
+          <button onClick={() => onClose()}><X className="text-gray-400 hover:text-gray-600" /></button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4 overflow-y-auto custom-scrollbar">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClasses}>SKU</label>
+              <input type="text" required value={draft.sku} onChange={e => setDraft({ ...draft, sku: e.target.value })} className={inputClasses} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClasses}>Name</label>
+              <input type="text" required value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} className={inputClasses} />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClasses}>Category</label>
+              <select value={draft.category} onChange={e => setDraft({ ...draft, category: e.target.value })} className={inputClasses}>
+                {categories.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClasses}>Default Unit</label>
+              <select value={draft.defaultUnit} onChange={e => setDraft({ ...draft, defaultUnit: e.target.value })} className={inputClasses}>
+                {units.map(u => <option key={u} value={u}>{u}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClasses}>Pack Size</label>
+              <input type="text" value={draft.packSize || ''} onChange={e => setDraft({ ...draft, packSize: e.target.value })} className={inputClasses} placeholder="e.g. 50 g" />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClasses}>Process Route</label>
+            <RouteEditor route={draft.route} processes={processes} onChange={route => setDraft({ ...draft, route })} inputClassName={inputClasses} />
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-xl bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 flex items-center gap-2 text-xs font-bold text-rose-600 dark:text-rose-400">
+              <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+            </div>
+          )}
+
+          <button type="submit" disabled={isSaving} className="w-full bg-indigo-600 text-white py-3 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition disabled:opacity-50">
+            {isSaving ? 'Saving...' : 'Save Product'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { ActualRecord, FieldChange, ProductionEntry, ProductionRevision } from '../../types';
+import { X, History, RotateCcw, Loader2 } from 'lucide-react';
+
+const FIELD_LABELS: Record<string, string> = {
+  date: 'Date',
+  category: 'Category',
+  process: 'Process',
+  productName: 'Product',
+  productId: 'Catalogue Product',
+  workOrderId: 'Work Order',
+  shift: 'Shift',
+  actuals: 'Actual Reports',
+  planQuantity: 'Plan Qty',
+  actualQuantity: 'Actual Qty',
+  unit: 'Unit',
+  batchNo: 'Batch',
+  manpower: 'Manpower'
+};
+
+const show = (value: any) => {
+  if (value === undefined || value === null || value === '') return '—';
+  // Actual reports: the ones that count
+  if (Array.isArray(value)) {
+    const active = value.filter(r => !r?.voidedAt);
+    return `${active.length} report${active.length === 1 ? '' : 's'} (${active.reduce((sum, r) => sum + (Number(r?.quantity) || 0), 0)})`;
+  }
+  return String(value);
+};
+
+// Revisions keep only the actual reports a save touched
+const showReports = (change: FieldChange) => {
+  const from: ActualRecord[] = change.from;
+  const to: ActualRecord[] = change.to;
+  const before = new Set(from.map(r => r.id));
+  const after = new Set(to.map(r => r.id));
+  const counts: [number, string][] = [
+    [to.filter(r => !before.has(r.id)).length, 'added'],
+    [to.filter(r => before.has(r.id)).length, 'edited'],
+    [from.filter(r => !after.has(r.id)).length, 'removed']
+  ];
+  return counts.filter(([n]) => n > 0).map(([n, what]) => `${n} report${n === 1 ? '' : 's'} ${what}`).join(', ');
+};
+
+const describeChange = (change: FieldChange) =>
+  change.byId ? showReports(change) : `${show(change.from)} → ${show(change.to)}`;
+
+/**
+ * Slide-in panel listing every saved revision of a production entry, newest
+ * first, with the option to go back to any earlier one.
+ */
+export const ProductionHistoryDrawer: React.FC<{ entryId: string; onClose: () => void }> = ({ entryId, onClose }) => {
+  const { user, can } = useAuth();
+  const { triggerRefresh } = useDashboard();
+  const [entry, setEntry] = useState<ProductionEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    StorageService.getProductionEntry(entryId)
+      .then(found => { if (!cancelled) setEntry(found); })
+      .catch(err => console.error('Failed to load entry history:', err))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [entryId]);
+
+  const userNames = useMemo(() => new Map(StorageService.getUsers().map(u => [String(u.id), u.name])), []);
+  const revisions = [...(entry?.revisions || [])].reverse();
+
+  const handleRevert = async (revision: ProductionRevision) => {
+    if (!entry || !window.confirm(`Revert ${entry.productName} to the version saved ${revision.at}?`)) return;
+    setBusyId(revision.id);
+    try {
+      const updated = await StorageService.revertProductionEntry(entry.id, revision.id, user!.id);
+      const reverted = updated.revisions?.[updated.revisions.length - 1];
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: 'REVERT_RECORD',
+        details: `Reverted ${updated.productName} (${updated.process}) on ${updated.date} to revision of ${revision.at}` +
+          (reverted?.revertOf === revision.id ? `: ${reverted.changes.map(c => `${FIELD_LABELS[c.field] || c.field} (${describeChange(c)})`).join(', ')}` : ' (No values changed)')
+      });
+      setEntry(updated);
+      triggerRefresh();
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: `RECORD REVERTED TO ${revision.at}`, type: 'success' }
+      }));
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: (err?.message || 'Revert failed').toUpperCase(), type: 'info' }
+      }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex justify-end" onClick={onClose}>
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-200" onClick={e => e.stopPropagation()}>
+        <div className="p-5 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <History className="w-5 h-5 text-indigo-500" />
+            <div>
+              <h3 className="font-black text-lg text-slate-800 dark:text-white leading-none">Revision History</h3>
+              {entry && (
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">
+                  {entry.productName} · {entry.process} · {entry.date}
+                </p>
+              )}
+            </div>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400 hover:text-gray-600" /></button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto custom-scrollbar flex-1">
+          {loading && <Loader2 className="w-6 h-6 animate-spin text-indigo-500 mx-auto mt-10" />}
+          {!loading && !entry && (
+            <p className="text-center text-xs font-bold uppercase tracking-widest text-slate-400 py-10">Entry not found</p>
+          )}
+          {!loading && entry && revisions.length === 0 && (
+            <p className="text-center text-xs font-bold uppercase tracking-widest text-slate-400 py-10">No revisions recorded yet</p>
+          )}
+          {revisions.map((revision, i) => (
+            <div key={revision.id} className="border border-gray-100 dark:border-slate-700 rounded-xl p-4">
+              <div className="flex items-start justify-between gap-3 mb-3">
+                <div>
+                  <p className="text-xs font-black text-slate-800 dark:text-white">{revision.at}</p>
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {userNames.get(String(revision.by)) || revision.by || 'Unknown'}
+                    {i === revisions.length - 1 && !revision.changes.some(c => c.from !== undefined) && ' · Created'}
+                    {revision.revertOf && ' · Revert'}
+                    {i === 0 && ' · Current'}
+                  </p>
+                </div>
+                {i > 0 && can('production.edit') && (
+                  <button onClick={() => handleRevert(revision)} disabled={busyId !== null} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-50 text-indigo-600 border border-indigo-200 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition disabled:opacity-50">
+                    <RotateCcw className="w-3 h-3" /> Revert
+                  </button>
+                )}
+              </div>
+              <ul className="space-y-1">
+                {revision.changes.map(c => (
+                  <li key={c.field} className="text-xs text-slate-600 dark:text-slate-300">
+                    <span className="text-slate-400">{FIELD_LABELS[c.field] || c.field}:</span>{' '}
+                    {c.byId ? (
+                      <span className="font-black">{showReports(c)}</span>
+                    ) : (
+                      <>
+                        <span className="line-through text-rose-400">{show(c.from)}</span>{' '}→{' '}
+                        <span className="font-black">{show(c.to)}</span>
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { RecoveryService, RecoveryFile } from '../../services/recoveryService';
+import { X, LifeBuoy, Upload, Download, AlertCircle } from 'lucide-react';
+
+/**
+ * Resets the administrator password using the recovery code from the export
+ * file issued at setup. Redeeming it issues a replacement file straight away.
+ */
+export const RecoveryModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const [code, setCode] = useState('');
+  const [newPass, setNewPass] = useState('');
+  const [confirmPass, setConfirmPass] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [replacement, setReplacement] = useState<RecoveryFile | null>(null);
+
+  const labelClasses = "block text-[10px] font-extrabold uppercase text-slate-400 tracking-[0.15em] mb-2 ml-1";
+  const inputClasses = "w-full p-3 border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-900 dark:text-white font-bold rounded-xl outline-none focus:ring-2 focus:ring-indigo-500/20 transition";
+
+  const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => setCode(RecoveryService.parseCode(String(reader.result || '')));
+    reader.readAsText(file);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (newPass !== confirmPass) {
+      setError('New passwords do not match');
+      return;
+    }
+    if (newPass.length < 8) {
+      setError('Administrator password must be at least 8 characters');
+      return;
+    }
+    setIsSubmitting(true);
+    const result = await RecoveryService.redeem(RecoveryService.parseCode(code), newPass);
+    setIsSubmitting(false);
+    if (!result) {
+      setError('Recovery code is not valid on this device');
+      return;
+    }
+    setReplacement(result.file);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-md z-[100] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-[2.5rem] w-full max-w-sm shadow-2xl p-10 relative animate-in fade-in zoom-in duration-300 border border-white dark:border-slate-700">
+        <button onClick={onClose} className="absolute top-8 right-8 text-slate-300 hover:text-slate-500 transition-colors p-1">
+          <X className="w-6 h-6" />
+        </button>
+
+        <div className="mb-8 flex flex-col items-center text-center">
+          <div className="p-3.5 bg-indigo-50 dark:bg-indigo-900/40 rounded-2xl mb-4">
+            <LifeBuoy className="w-8 h-8 text-indigo-500" />
+          </div>
+          <h3 className="text-2xl font-black text-slate-800 dark:text-white">Admin Recovery</h3>
+          <p className="text-[11px] font-black text-slate-300 uppercase tracking-[0.2em] mt-1">Reset with your recovery file</p>
+        </div>
+
+        {replacement ? (
+          <div className="space-y-4 text-center">
+            <p className="text-xs font-bold text-slate-500">
+              Password reset for <span className="text-indigo-600">@{replacement.username}</span>. Your old recovery file no longer works — save the new one.
+            </p>
+            <div className="p-3 bg-slate-50 dark:bg-slate-900 rounded-xl font-mono font-black text-indigo-600 dark:text-indigo-400 break-all">{replacement.code}</div>
+            <button onClick={() => RecoveryService.download(replacement)} className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white py-3.5 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition">
+              <Download className="w-4 h-4" /> Download New Recovery File
+            </button>
+            <button onClick={onClose} className="w-full bg-slate-900 text-white py-3.5 rounded-xl font-black text-xs uppercase tracking-widest hover:opacity-90 transition">
+              Back to Login
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="p-3 bg-rose-50 dark:bg-rose-900/20 border border-rose-100 dark:border-rose-800 rounded-xl flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 text-rose-500 shrink-0" />
+                <p className="text-xs font-bold text-rose-600 dark:text-rose-400">{error}</p>
+              </div>
+            )}
+            <div>
+              <label className={labelClasses}>Recovery Code</label>
+              <input type="text" required value={code} onChange={e => setCode(e.target.value)} className={`${inputClasses} font-mono`} placeholder="XXXXX-XXXXX-XXXXX-XXXXX" />
+              <label className="mt-2 flex items-center justify-center gap-2 w-full py-2.5 border-2 border-dashed border-slate-200 dark:border-slate-700 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 cursor-pointer hover:border-indigo-300 transition">
+                <Upload className="w-3.5 h-3.5" /> Load Recovery File
+                <input type="file" accept="application/json,.json" className="hidden" onChange={onFileChange} />
+              </label>
+            </div>
+            <div>
+              <label className={labelClasses}>New Password</label>
+              <input type="password" required value={newPass} onChange={e => setNewPass(e.target.value)} className={inputClasses} />
+            </div>
+            <div>
+              <label className={labelClasses}>Confirm New Password</label>
+              <input type="password" required value={confirmPass} onChange={e => setConfirmPass(e.target.value)} className={inputClasses} />
+            </div>
+            <button type="submit" disabled={isSubmitting} className="w-full bg-slate-900 dark:bg-indigo-600 text-white py-3.5 rounded-xl font-black text-xs uppercase tracking-widest hover:opacity-90 transition disabled:opacity-50">
+              {isSubmitting ? 'Verifying...' : 'Reset Password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { SyncConflict, SyncEntity } from '../../types';
+import { X, GitMerge, Monitor, Cloud } from 'lucide-react';
+
+const ENTITY_LABELS: Record<SyncEntity, string> = {
+  production: 'Production Record',
+  offDays: 'Public Holiday',
+  downtime: 'Downtime'
+};
+
+const describe = (record: Record<string, any> | null, fields: string[]) => {
+  if (!record) return <span className="italic text-rose-500">Deleted</span>;
+  return (
+    <ul className="space-y-0.5">
+      {fields.map(f => (
+        <li key={f}><span className="text-slate-400">{f}:</span> <span className="font-black">{String(record[f] ?? '-')}</span></li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Lists sync conflicts the merge could not settle on its own and lets the
+ * user keep either this device's copy or the sheet's copy of each record.
+ */
+export const SyncConflictModal: React.FC<{ onClose: () => void; onResolved: () => void }> = ({ onClose, onResolved }) => {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>(StorageService.getSyncConflicts());
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const resolve = async (conflict: SyncConflict, choice: 'local' | 'remote') => {
+    setBusyId(conflict.id);
+    try {
+      await StorageService.resolveSyncConflict(conflict.entity, conflict.id, choice);
+    } finally {
+      setBusyId(null);
+      const remaining = StorageService.getSyncConflicts();
+      setConflicts(remaining);
+      onResolved();
+      if (remaining.length === 0) onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl w-full max-w-2xl shadow-2xl flex flex-col max-h-[85vh] animate-in fade-in zoom-in duration-200">
+        <div className="p-5 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <GitMerge className="w-5 h-5 text-amber-500" />
+            <div>
+              <h3 className="font-black text-lg text-slate-800 dark:text-white leading-none">Sync Conflicts</h3>
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mt-1">Same record changed on two devices</p>
+            </div>
+          </div>
+          <button onClick={onClose}><X className="text-gray-400 hover:text-gray-600" /></button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto custom-scrollbar">
+          {conflicts.length === 0 && (
+            <p className="text-center text-xs font-bold uppercase tracking-widest text-slate-400 py-10">No conflicts to resolve</p>
+          )}
+          {conflicts.map(c => (
+            <div key={`${c.entity}-${c.id}`} className="border border-amber-200 dark:border-amber-800 rounded-xl p-4">
+              <div className="flex items-center justify-between mb-3">
+                <div>
+                  <p className="text-sm font-black text-slate-800 dark:text-white">{c.label}</p>
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {ENTITY_LABELS[c.entity]} · Conflicting: {c.fields.join(', ')}
+                  </p>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3 text-xs text-slate-600 dark:text-slate-300">
+                <div className="p-3 bg-indigo-50 dark:bg-indigo-900/20 rounded-lg">
+                  <p className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-indigo-500 mb-2"><Monitor className="w-3 h-3" /> This Device</p>
+                  {describe(c.local, c.fields)}
+                  {c.local?.updatedAt && <p className="mt-2 text-[10px] text-slate-400">{c.local.updatedAt}</p>}
+                </div>
+                <div className="p-3 bg-emerald-50 dark:bg-emerald-900/20 rounded-lg">
+                  <p className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-emerald-600 mb-2"><Cloud className="w-3 h-3" /> Cloud Sheet</p>
+                  {describe(c.remote, c.fields)}
+                  {c.remote?.updatedAt && <p className="mt-2 text-[10px] text-slate-400">{c.remote.updatedAt}</p>}
+                </div>
+              </div>
+              <div className="grid grid-cols-2 gap-3 mt-3">
+                <button disabled={busyId === c.id} onClick={() => resolve(c, 'local')} className="py-2 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition disabled:opacity-50">
+                  Keep Mine
+                </button>
+                <button disabled={busyId === c.id} onClick={() => resolve(c, 'remote')} className="py-2 rounded-lg bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-emerald-700 transition disabled:opacity-50">
+                  Keep Cloud
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
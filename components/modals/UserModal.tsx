@@ -1,9 +1,11 @@
 
 import React, { useState } from 'react';
 import { StorageService } from '../../services/storageService';
+import { PasswordService } from '../../services/passwordService';
 import { User, Role } from '../../types';
 import { X, Trash2, Plus } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { generateId } from '../../utils/idUtils';
 
 export const UserModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
   const { user: currentUser } = useAuth();
@@ -12,7 +14,7 @@ export const UserModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 
   const inputClasses = "p-2 rounded text-sm border border-slate-200 bg-white text-slate-900 font-bold outline-none focus:ring-2 focus:ring-purple-500/20";
 
-  const handleAdd = (e: React.FormEvent) => {
+  const handleAdd = async (e: React.FormEvent) => {
       e.preventDefault();
       // Basic check for duplicate username
       if (users.some(u => u.username.toLowerCase() === newUser.username.toLowerCase())) {
@@ -20,11 +22,11 @@ export const UserModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
           return;
       }
       const u: User = { 
-          id: Date.now().toString(), 
+          id: generateId(), 
           name: newUser.name, 
           username: newUser.username,
           email: newUser.email, 
-          password: newUser.password, 
+          passwordHash: await PasswordService.hash(newUser.password), 
           role: newUser.role 
       };
       const updated = [...users, u];
@@ -39,9 +41,14 @@ export const UserModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 
   const handleDelete = (id: string) => {
       if(!window.confirm("Delete user?")) return;
-      const updated = users.filter(u => u.id !== id);
-      StorageService.saveUsers(updated);
-      setUsers(updated);
+      const target = StorageService.deleteUser(id, currentUser!.id);
+      StorageService.addLog({
+        userId: currentUser!.id,
+        userName: currentUser!.name,
+        action: 'DELETE_USER',
+        details: `Moved user account to trash: ${target?.name} (@${target?.username})`
+      });
+      setUsers(users.filter(u => u.id !== id));
       window.dispatchEvent(new CustomEvent('app-notification', { 
           detail: { message: 'User account removed', type: 'info' } 
       }));
@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { WorkOrder } from '../../types';
+import { RouteEditor } from '../ui/RouteEditor';
+import { getTodayISO } from '../../utils/dateUtils';
+import { X, Workflow, AlertCircle } from 'lucide-react';
+
+/**
+ * Opens a work order for a batch. Picking a catalogue product fills in its
+ * category, unit and route; the route can still be adjusted for this batch.
+ */
+export const WorkOrderModal: React.FC<{ onClose: (created?: WorkOrder) => void }> = ({ onClose }) => {
+  const { user } = useAuth();
+  const categories = useMemo(() => StorageService.getMasterDataOptions('categories'), []);
+  const units = useMemo(() => StorageService.getMasterDataOptions('units'), []);
+  const processes = useMemo(() => StorageService.getMasterDataOptions('processes'), []);
+  const products = useMemo(() => StorageService.getProductOptions(), []);
+  const [form, setForm] = useState({
+    startDate: getTodayISO(),
+    batchNo: '',
+    productName: '',
+    category: categories[0] || '',
+    quantity: '',
+    unit: units[0] || '',
+    route: [] as string[]
+  });
+  const matchedProduct = useMemo(() => StorageService.findProduct(form.productName), [form.productName]);
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const labelClasses = "block text-[10px] font-black uppercase text-slate-400 tracking-widest mb-1";
+  const inputClasses = "w-full p-2.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-slate-900 dark:text-white font-bold focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 outline-none transition-all shadow-sm";
+
+  const handleProductChange = (value: string) => {
+    const product = StorageService.findProduct(value);
+    if (product && product.id !== matchedProduct?.id) {
+      setForm(prev => ({ ...prev, productName: value, category: product.category, unit: product.defaultUnit, route: product.route }));
+      return;
+    }
+    setForm(prev => ({ ...prev, productName: value }));
+  };
+
+  const handleGenerateBatch = () => {
+    const r = Math.floor(Math.random() * 10000);
+    setForm(prev => ({ ...prev, batchNo: `B-${prev.startDate.replace(/-/g, '')}-${r}` }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    const offDay = StorageService.getOffDays().find(od => od.date === form.startDate);
+    if (offDay) {
+      setError(`Start date is an Off Day: ${offDay.description}.`);
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const order = await StorageService.createWorkOrder({
+        batchNo: form.batchNo,
+        ...(matchedProduct ? { productId: matchedProduct.id } : {}),
+        productName: matchedProduct?.name ?? form.productName,
+        category: form.category,
+        quantity: Number(form.quantity),
+        unit: form.unit,
+        route: form.route
+      }, form.startDate, user!.id);
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: 'CREATE_WORK_ORDER',
+        details: `Opened work order for batch ${order.batchNo}: ${order.quantity} ${order.unit} ${order.productName} (${order.route.join(' → ')}) from ${form.startDate}`
+      });
+      onClose(order);
+    } catch (err: any) {
+      setError(err?.message || 'Could not create the work order');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-[100] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl w-full max-w-lg shadow-2xl flex flex-col max-h-[90vh] animate-in fade-in zoom-in duration-200">
+        <div className="p-5 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Workflow className="w-5 h-5 text-indigo-500" />
+            <h3 className="font-black text-lg text-slate-800 dark:text-white">New Work Order</h3>
+          </div>
+          <button onClick={() => onClose()}><X className="text-gray-400 hover:text-gray-600" /></button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-5 space-y-4 overflow-y-auto custom-scrollbar">
+          <div>
+            <label className={labelClasses}>Product</label>
+            <input
+              type="text"
+              required
+              list="work-order-products"
+              value={form.productName}
+              onChange={e => handleProductChange(e.target.value)}
+              className={inputClasses}
+              placeholder="Catalogue product or SKU"
+            />
+            <datalist id="work-order-products">
+              {products.map(p => <option key={p.id} value={p.name}>{p.sku}{p.packSize ? ` · ${p.packSize}` : ''}</option>)}
+            </datalist>
+            {form.productName.trim() !== '' && !matchedProduct && (
+              <p className="mt-1 text-[10px] font-bold text-amber-600">Not in the product catalogue</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClasses}>Batch No</label>
+              <div className="flex gap-2">
+                <input type="text" required value={form.batchNo} onChange={e => setForm({ ...form, batchNo: e.target.value })} className={inputClasses} />
+                <button type="button" onClick={handleGenerateBatch} className="px-3 rounded-lg bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 dark:hover:bg-slate-600 transition shrink-0">
+                  Auto
+                </button>
+              </div>
+            </div>
+            <div>
+              <label className={labelClasses}>Start Date</label>
+              <input type="date" required value={form.startDate} onChange={e => setForm({ ...form, startDate: e.target.value })} className={inputClasses} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className={labelClasses}>Category</label>
+              <select value={form.category} onChange={e => setForm({ ...form, category: e.target.value })} className={inputClasses}>
+                {categories.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClasses}>Batch Size</label>
+              <input type="number" min="1" required value={form.quantity} onChange={e => setForm({ ...form, quantity: e.target.value })} className={inputClasses} />
+            </div>
+            <div>
+              <label className={labelClasses}>Unit</label>
+              <select value={form.unit} onChange={e => setForm({ ...form, unit: e.target.value })} className={inputClasses}>
+                {units.map(u => <option key={u} value={u}>{u}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClasses}>Stages</label>
+            <RouteEditor route={form.route} processes={processes} onChange={route => setForm({ ...form, route })} inputClassName={inputClasses} />
+            <p className="mt-2 text-[10px] font-bold text-slate-400">One plan entry is created per stage on the start date.</p>
+          </div>
+
+          {error && (
+            <div className="p-3 rounded-xl bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 flex items-center gap-2 text-xs font-bold text-rose-600 dark:text-rose-400">
+              <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+            </div>
+          )}
+
+          <button type="submit" disabled={isSaving} className="w-full bg-indigo-600 text-white py-3 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition disabled:opacity-50">
+            {isSaving ? 'Creating...' : 'Create Work Order'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
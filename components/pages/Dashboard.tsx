@@ -1,29 +1,36 @@
 
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useDashboard } from '../../contexts/DashboardContext';
 import { StorageService } from '../../services/storageService';
 import { ProductionEntry, OffDay } from '../../types';
-import { PROCESSES } from '../../constants';
 import { 
   ClipboardList, CheckCircle, RefreshCw, List, Calendar, 
-  TrendingUp, Download, Pencil, Trash2, Layers,
-  Palmtree
+  TrendingUp, Download, Pencil, Trash2, Layers, History,
+  Palmtree, Clock, ChevronDown, ChevronRight
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { ProductionHistoryDrawer } from '../modals/ProductionHistoryDrawer';
+import { ActualRecordList } from '../ui/ActualRecordList';
 import { formatDisplayDate, getCurrentMonthISO } from '../../utils/dateUtils';
 
 export const Dashboard: React.FC = () => {
   const { category, refreshKey, triggerRefresh } = useDashboard();
-  const { user, hasPermission } = useAuth();
+  const { user, can } = useAuth();
   
   const [selectedMonth, setSelectedMonth] = useState<string>(getCurrentMonthISO());
 
-  const { productionData, offDays } = useMemo(() => {
-    return {
-      productionData: StorageService.getProductionData(),
-      offDays: StorageService.getOffDays(),
-    };
-  }, [refreshKey]);
+  const [productionData, setProductionData] = useState<ProductionEntry[]>([]);
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
+  const [expandedEntryId, setExpandedEntryId] = useState<string | null>(null);
+  const offDays = useMemo<OffDay[]>(() => StorageService.getOffDays(), [refreshKey]);
+
+  useEffect(() => {
+    let cancelled = false;
+    StorageService.queryProduction({ category })
+      .then(rows => { if (!cancelled) setProductionData(rows); })
+      .catch(err => console.error('Failed to load production data:', err));
+    return () => { cancelled = true; };
+  }, [refreshKey, category]);
 
   const dashboardData = useMemo(() => {
     // Filter out malformed entries first
@@ -33,22 +40,27 @@ export const Dashboard: React.FC = () => {
     let selectedMonthActual = 0;
     
     const selectedMonthProcessMap = new Map<string, {process: string, Plan: number, Actual: number}>();
-    PROCESSES.forEach(proc => {
+    // Active processes always get a bar; archived ones only when they have entries
+    StorageService.getMasterDataOptions('processes').forEach(proc => {
       selectedMonthProcessMap.set(proc, { process: proc, Plan: 0, Actual: 0 });
     });
 
+    const selectedMonthEntries: ProductionEntry[] = [];
+
     relevant.forEach(d => {
       const dateStr = (d.date || '').trim().substring(0, 7);
       if (dateStr === selectedMonth) {
+        selectedMonthEntries.push(d);
         selectedMonthPlan += (d.planQuantity || 0);
         selectedMonthActual += (d.actualQuantity || 0);
         
         const procName = d.process || 'Other';
-        if (selectedMonthProcessMap.has(procName)) {
-          const p = selectedMonthProcessMap.get(procName)!;
-          p.Plan += (d.planQuantity || 0);
-          p.Actual += (d.actualQuantity || 0);
+        if (!selectedMonthProcessMap.has(procName)) {
+          selectedMonthProcessMap.set(procName, { process: procName, Plan: 0, Actual: 0 });
         }
+        const p = selectedMonthProcessMap.get(procName)!;
+        p.Plan += (d.planQuantity || 0);
+        p.Actual += (d.actualQuantity || 0);
       }
     });
 
@@ -59,9 +71,10 @@ export const Dashboard: React.FC = () => {
         actual: selectedMonthActual,
         efficiency: selectedMonthPlan > 0 ? (selectedMonthActual / selectedMonthPlan) * 100 : 0
       },
-      chartData: Array.from(selectedMonthProcessMap.values())
+      chartData: Array.from(selectedMonthProcessMap.values()),
+      shiftData: StorageService.getShiftBreakdown(selectedMonthEntries)
     };
-  }, [productionData, category, selectedMonth]);
+  }, [productionData, category, selectedMonth, refreshKey]);
 
   const dailyGroups = useMemo(() => {
     const baseData = dashboardData.filteredData;
@@ -93,21 +106,21 @@ export const Dashboard: React.FC = () => {
     });
   }, [dashboardData.filteredData, offDays, selectedMonth]);
 
-  const handleDelete = (id: string) => {
-      if(!window.confirm("Are you sure you want to PERMANENTLY delete this record? This action cannot be undone.")) return;
+  const handleDelete = async (id: string) => {
+      if(!window.confirm("Move this record to the trash? It can be restored from the Trash page.")) return;
       
-      const { deletedItem } = StorageService.deleteProductionEntry(id);
+      const { deletedItem } = await StorageService.deleteProductionEntry(id, user!.id);
       
       if (deletedItem) {
           StorageService.addLog({
             userId: user!.id,
             userName: user!.name,
             action: 'DELETE_RECORD',
-            details: `Admin/Manager permanently deleted production record: ${deletedItem.productName} (${deletedItem.date})`
+            details: `Moved production record to trash: ${deletedItem.productName} (${deletedItem.date})`
           });
           
           window.dispatchEvent(new CustomEvent('app-notification', { 
-            detail: { message: 'RECORD DELETED SUCCESSFULLY', type: 'info' } 
+            detail: { message: 'RECORD MOVED TO TRASH', type: 'info' } 
           }));
       }
 
@@ -119,14 +132,18 @@ export const Dashboard: React.FC = () => {
   };
 
   const downloadCSV = () => {
-    const headers = ["Date", "Status", "Process", "Product", "Plan", "Actual", "Unit", "Batch No", "Manpower"];
+    const headers = ["Date", "Status", "Shift", "Process", "Product", "Plan", "Actual", "Rejected", "Rework", "Scrap", "FPY %", "Unit", "Batch No", "Manpower"];
     const rows = dailyGroups.flatMap(g => {
         if (g.entries.length === 0) {
-            return [[g.date, g.offDayName || 'Off Day', '-', '-', 0, 0, '-', '-', 0]];
+            return [[g.date, g.offDayName || 'Off Day', '-', '-', '-', 0, 0, 0, 0, 0, '-', '-', '-', 0]];
         }
-        return g.entries.map(d => [
-            d.date, g.isOffDay ? `Holiday (${g.offDayName})` : 'Normal', d.process, d.productName, d.planQuantity, d.actualQuantity, d.unit || 'KG', d.batchNo, d.manpower
-        ]);
+        return g.entries.map(d => {
+            const y = StorageService.getYieldSummary([d]);
+            return [
+                d.date, g.isOffDay ? `Holiday (${g.offDayName})` : 'Normal', StorageService.getShiftLabel(d.shift), d.process, d.productName, d.planQuantity, d.actualQuantity,
+                y.reject, y.rework, y.scrap, y.firstPassYield ?? '-', d.unit || 'KG', d.batchNo, d.manpower
+            ];
+        });
     });
     const csvContent = "data:text/csv;charset=utf-8," + [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
     const encodedUri = encodeURI(csvContent);
@@ -211,6 +228,44 @@ export const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* MONTHLY SHIFT BREAKDOWN */}
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 px-2">
+            <Clock className="w-4 h-4 text-indigo-500" />
+            <h3 className="text-[11px] font-black text-slate-400 dark:text-slate-500 uppercase tracking-[0.3em]">Monthly Shift Breakdown</h3>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {dashboardData.shiftData.map((item) => {
+                const eff = item.plan > 0 ? (item.actual / item.plan) * 100 : 0;
+                return (
+                    <div key={item.shiftId || 'whole-day'} className="glass-panel p-6 rounded-[2rem] border border-gray-100 dark:border-slate-800 shadow-sm group hover:border-indigo-500/30 transition-all duration-300">
+                        <p className="text-[10px] font-black text-indigo-600 dark:text-indigo-400 uppercase tracking-widest mb-5">{item.name}</p>
+
+                        <div className="space-y-4">
+                            <div className="flex justify-between items-baseline">
+                                <span className="text-[9px] font-black text-slate-400 uppercase">Plan</span>
+                                <span className="text-sm font-black text-slate-800 dark:text-white font-mono">{(item.plan || 0).toLocaleString()}</span>
+                            </div>
+
+                            <div className="flex justify-between items-baseline">
+                                <span className="text-[9px] font-black text-slate-400 uppercase">Actual</span>
+                                <span className="text-sm font-black text-emerald-500 font-mono">{(item.actual || 0).toLocaleString()}</span>
+                            </div>
+
+                            <div className="pt-3 border-t border-gray-50 dark:border-slate-700 flex justify-between items-baseline">
+                                <span className="text-[9px] font-black text-slate-400 uppercase">Eff.</span>
+                                <span className={`text-sm font-black font-mono ${eff >= 100 ? 'text-emerald-500' : eff >= 75 ? 'text-amber-500' : 'text-rose-500'}`}>
+                                    {(eff || 0).toFixed(1)}%
+                                </span>
+                            </div>
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+      </div>
+
       {/* Daily Logs */}
       <div className="space-y-6">
         <div className="flex flex-col md:flex-row justify-between items-end gap-4 px-2">
@@ -284,16 +339,22 @@ export const Dashboard: React.FC = () => {
                                         <th className="px-8 py-4 text-center">Efficiency</th>
                                         <th className="px-8 py-4 text-center">Batch No</th>
                                         <th className="px-8 py-4 text-center">Manpower</th>
-                                        {hasPermission(['admin', 'manager']) && <th className="px-8 py-4 text-center">Action</th>}
+                                        {user && <th className="px-8 py-4 text-center">Action</th>}
                                     </tr>
                                 </thead>
                                 <tbody className="divide-y divide-gray-50 dark:divide-slate-800/30">
                                     {group.entries.map(entry => {
                                         const eff = entry.planQuantity > 0 ? (entry.actualQuantity / entry.planQuantity) * 100 : 0;
+                                        const reports = entry.actuals?.filter(a => !a.voidedAt).length || 0;
+                                        const expanded = expandedEntryId === entry.id;
                                         return (
-                                            <tr key={entry.id} className="hover:bg-gray-50/50 dark:hover:bg-slate-800/30 transition-colors">
+                                            <React.Fragment key={entry.id}>
+                                            <tr className="hover:bg-gray-50/50 dark:hover:bg-slate-800/30 transition-colors">
                                                 <td className="px-8 py-5">
                                                     <span className="text-[10px] font-black text-indigo-600 dark:text-indigo-400 uppercase bg-indigo-50 dark:bg-indigo-900/30 px-2 py-1 rounded-lg border border-indigo-100 dark:border-indigo-800">{entry.process}</span>
+                                                    {entry.shift && (
+                                                        <span className="block mt-1.5 text-[9px] font-black text-slate-400 uppercase tracking-widest">{StorageService.getShiftLabel(entry.shift)} shift</span>
+                                                    )}
                                                 </td>
                                                 <td className="px-8 py-5">
                                                     <span className="text-sm font-black text-slate-800 dark:text-white">{entry.productName}</span>
@@ -305,6 +366,12 @@ export const Dashboard: React.FC = () => {
                                                 <td className="px-8 py-5 text-right font-black font-mono text-emerald-500 text-sm whitespace-nowrap">
                                                     {(entry.actualQuantity || 0).toLocaleString()} 
                                                     <span className="text-[9px] ml-1 opacity-60 text-slate-600 dark:text-slate-400 font-sans tracking-tight">{entry.unit}</span>
+                                                    {(entry.actuals?.length || 0) > 0 && (
+                                                        <button onClick={() => setExpandedEntryId(expanded ? null : entry.id)} className="flex items-center gap-0.5 ml-auto mt-1 text-[9px] font-black font-sans uppercase tracking-widest text-slate-400 hover:text-indigo-500 transition">
+                                                            {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                                                            {reports} report{reports === 1 ? '' : 's'}
+                                                        </button>
+                                                    )}
                                                 </td>
                                                 <td className="px-8 py-5 text-center">
                                                     <span className={`text-sm font-black font-mono ${eff >= 100 ? 'text-emerald-500' : eff >= 75 ? 'text-amber-500' : 'text-rose-500'}`}>
@@ -317,19 +384,34 @@ export const Dashboard: React.FC = () => {
                                                 <td className="px-8 py-5 text-center">
                                                     <span className="text-base font-black text-slate-800 dark:text-white font-mono">{entry.manpower || '0'}</span>
                                                 </td>
-                                                {hasPermission(['admin', 'manager']) && (
+                                                {user && (
                                                   <td className="px-8 py-5">
                                                       <div className="flex items-center justify-center gap-2">
-                                                          <button onClick={() => handleEdit(entry)} className="p-1.5 text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition">
-                                                              <Pencil className="w-4 h-4" />
-                                                          </button>
-                                                          <button onClick={() => handleDelete(entry.id)} className="p-1.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition">
-                                                              <Trash2 className="w-4 h-4" />
+                                                          <button onClick={() => setHistoryEntryId(entry.id)} title="Revision history" className="p-1.5 text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition">
+                                                              <History className="w-4 h-4" />
                                                           </button>
+                                                          {can('production.edit') && (
+                                                              <button onClick={() => handleEdit(entry)} className="p-1.5 text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 rounded-lg transition">
+                                                                  <Pencil className="w-4 h-4" />
+                                                              </button>
+                                                          )}
+                                                          {can('production.delete') && (
+                                                              <button onClick={() => handleDelete(entry.id)} className="p-1.5 text-slate-400 hover:text-rose-500 hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-lg transition">
+                                                                  <Trash2 className="w-4 h-4" />
+                                                              </button>
+                                                          )}
                                                       </div>
                                                   </td>
                                                 )}
                                             </tr>
+                                            {expanded && (
+                                                <tr className="bg-gray-50/50 dark:bg-slate-900/30">
+                                                    <td colSpan={user ? 8 : 7} className="px-8 py-4">
+                                                        <ActualRecordList entryId={entry.id} refreshKey={refreshKey} onChanged={triggerRefresh} />
+                                                    </td>
+                                                </tr>
+                                            )}
+                                            </React.Fragment>
                                         );
                                     })}
                                 </tbody>
@@ -345,6 +427,8 @@ export const Dashboard: React.FC = () => {
             })}
         </div>
       </div>
+
+      {historyEntryId && <ProductionHistoryDrawer entryId={historyEntryId} onClose={() => setHistoryEntryId(null)} />}
     </div>
   );
 };
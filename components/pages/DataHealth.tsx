@@ -0,0 +1,190 @@
+import React, { useEffect, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { DataCollection, QuarantinedRecord } from '../../types';
+import { ShieldAlert, AlertTriangle, Wrench, Trash2, Save, X } from 'lucide-react';
+
+const COLLECTION_LABELS: Record<DataCollection, string> = {
+  production: 'Production Record',
+  offDays: 'Public Holiday',
+  users: 'User',
+  logs: 'Activity Log',
+  downtime: 'Downtime'
+};
+
+const SOURCE_LABELS: Record<QuarantinedRecord['source'], string> = {
+  sheet: 'Google Sheet',
+  backend: 'Storage Backend',
+  local: 'This Device',
+  backup: 'Backup File'
+};
+
+/**
+ * Lists records that failed validation on their way in, with the reasons, and
+ * lets an administrator correct them as JSON or discard them.
+ */
+export const DataHealth: React.FC = () => {
+  const { user } = useAuth();
+  const { triggerRefresh } = useDashboard();
+  const [items, setItems] = useState<QuarantinedRecord[]>(StorageService.getQuarantined());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [problems, setProblems] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const refresh = () => setItems(StorageService.getQuarantined());
+    window.addEventListener('quarantine-change', refresh);
+    return () => window.removeEventListener('quarantine-change', refresh);
+  }, []);
+
+  const startEdit = (item: QuarantinedRecord) => {
+    setEditingId(item.id);
+    setDraft(JSON.stringify(item.record, null, 2));
+    setProblems([]);
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setProblems([]);
+  };
+
+  const handleFix = async (item: QuarantinedRecord) => {
+    let record: any;
+    try {
+      record = JSON.parse(draft);
+    } catch {
+      setProblems(['Not valid JSON']);
+      return;
+    }
+    setBusy(true);
+    try {
+      const remaining = await StorageService.restoreQuarantined(item.id, record);
+      if (remaining.length > 0) {
+        setProblems(remaining);
+        return;
+      }
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: 'QUARANTINE_FIX',
+        details: `Fixed and restored ${COLLECTION_LABELS[item.collection].toLowerCase()} ${record.id} (${item.reasons.join('; ')})`
+      });
+      cancelEdit();
+      triggerRefresh();
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: `RECORD RESTORED: ${String(record.id).toUpperCase()}`, type: 'success' }
+      }));
+    } catch (err: any) {
+      setProblems([err?.message || 'Could not save the record']);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDiscard = (item: QuarantinedRecord) => {
+    if (!window.confirm('Discard this record? It will not be imported again from its source.')) return;
+    StorageService.discardQuarantined(item.id);
+    StorageService.addLog({
+      userId: user!.id,
+      userName: user!.name,
+      action: 'QUARANTINE_DISCARD',
+      details: `Discarded invalid ${COLLECTION_LABELS[item.collection].toLowerCase()} ${item.record?.id || '(no id)'} from ${SOURCE_LABELS[item.source]} (${item.reasons.join('; ')})`
+    });
+    if (editingId === item.id) cancelEdit();
+    window.dispatchEvent(new CustomEvent('app-notification', {
+      detail: { message: 'INVALID RECORD DISCARDED', type: 'info' }
+    }));
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800 dark:text-white flex items-center gap-3">
+            <ShieldAlert className="w-6 h-6 text-indigo-500" />
+            Data Health
+          </h2>
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Records rejected by validation</p>
+        </div>
+        <div className={`px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-tighter ${
+          items.length > 0 ? 'bg-amber-50 border-amber-200 text-amber-600' : 'bg-emerald-50 border-emerald-200 text-emerald-600'
+        }`}>
+          {items.length} Quarantined
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+        <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+          {items.length === 0 ? (
+            <li className="p-12 text-center flex flex-col items-center justify-center gap-4">
+              <div className="p-4 bg-slate-50 dark:bg-slate-900 rounded-full text-emerald-300">
+                <ShieldAlert className="w-10 h-10" />
+              </div>
+              <p className="text-slate-400 font-bold italic">All records passed validation.</p>
+            </li>
+          ) : items.map(item => (
+            <li key={item.id} className="p-6 space-y-4">
+              <div className="flex justify-between items-start gap-6">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="text-sm font-black text-slate-800 dark:text-white">
+                      {item.record?.productName || item.record?.description || item.record?.username || item.record?.action || item.record?.id || 'Unnamed record'}
+                    </span>
+                    <span className="text-[10px] font-black uppercase px-2 py-0.5 rounded bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-800 tracking-tighter">
+                      {COLLECTION_LABELS[item.collection]}
+                    </span>
+                  </div>
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    From {SOURCE_LABELS[item.source]} · First seen {item.detectedAt}{item.lastSeenAt !== item.detectedAt ? ` · Last seen ${item.lastSeenAt}` : ''}
+                  </p>
+                  <ul className="mt-3 space-y-1">
+                    {item.reasons.map(reason => (
+                      <li key={reason} className="flex items-center gap-2 text-xs font-bold text-rose-600 dark:text-rose-400">
+                        <AlertTriangle className="w-3.5 h-3.5 shrink-0" /> {reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={() => startEdit(item)} disabled={editingId === item.id} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition disabled:opacity-50">
+                    <Wrench className="w-3.5 h-3.5" /> Fix
+                  </button>
+                  <button onClick={() => handleDiscard(item)} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-rose-50 text-rose-600 border border-rose-200 text-[10px] font-black uppercase tracking-widest hover:bg-rose-100 transition">
+                    <Trash2 className="w-3.5 h-3.5" /> Discard
+                  </button>
+                </div>
+              </div>
+
+              {editingId === item.id && (
+                <div className="space-y-3">
+                  <textarea
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    rows={Math.min(16, draft.split('\n').length + 1)}
+                    spellCheck={false}
+                    className="w-full p-3 font-mono text-xs rounded-xl border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-slate-100 outline-none focus:ring-2 focus:ring-indigo-500"
+                  />
+                  {problems.length > 0 && (
+                    <ul className="p-3 rounded-xl bg-rose-50 dark:bg-rose-900/20 border border-rose-200 dark:border-rose-800 space-y-1">
+                      {problems.map(p => <li key={p} className="text-xs font-bold text-rose-600 dark:text-rose-400">{p}</li>)}
+                    </ul>
+                  )}
+                  <div className="flex justify-end gap-2">
+                    <button onClick={cancelEdit} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 dark:hover:bg-slate-700 transition">
+                      <X className="w-3.5 h-3.5" /> Cancel
+                    </button>
+                    <button onClick={() => handleFix(item)} disabled={busy} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-emerald-700 transition disabled:opacity-50">
+                      <Save className="w-3.5 h-3.5" /> Validate & Restore
+                    </button>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { ShieldAlert, LayoutDashboard } from 'lucide-react';
+
+export const Forbidden: React.FC = () => {
+  const { user } = useAuth();
+
+  return (
+    <div className="max-w-lg mx-auto mt-16 bg-white dark:bg-slate-800 rounded-3xl border border-rose-100 dark:border-rose-900/30 shadow-sm p-10 text-center">
+      <div className="inline-flex p-4 bg-rose-50 dark:bg-rose-900/20 rounded-2xl mb-6">
+        <ShieldAlert className="w-8 h-8 text-rose-500" />
+      </div>
+      <p className="text-[10px] font-black text-rose-500 uppercase tracking-[0.2em] mb-2">Error 403 · Access Denied</p>
+      <h2 className="text-2xl font-black text-slate-800 dark:text-white">You don't have access to this page</h2>
+      <p className="text-sm text-slate-400 font-medium mt-3">
+        Your role <span className="font-black uppercase text-indigo-500">{user?.role}</span> does not have permission to open this section.
+        Ask an administrator if you believe this is a mistake.
+      </p>
+      <Link to="/" className="mt-8 inline-flex items-center gap-2 bg-slate-900 dark:bg-indigo-600 text-white px-6 py-3 rounded-xl font-black text-xs uppercase tracking-widest hover:opacity-90 transition">
+        <LayoutDashboard className="w-4 h-4" /> Back to Dashboard
+      </Link>
+    </div>
+  );
+};
@@ -3,23 +3,32 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { StorageService } from '../../services/storageService';
 import { useAuth } from '../../contexts/AuthContext';
 import { useDashboard } from '../../contexts/DashboardContext';
-import { ProductionEntry } from '../../types';
-import { AlertCircle, CheckCircle2, Palmtree } from 'lucide-react';
+import { ActualRecordList } from '../ui/ActualRecordList';
+import { LossEditor, LossDraft, fromLossDrafts, lossSummary } from '../ui/LossEditor';
+import { DowntimeLog } from '../ui/DowntimeLog';
+import { ProductionEntry, WorkOrderProgress } from '../../types';
+import { AlertCircle, CheckCircle2, Palmtree, Workflow, Clock } from 'lucide-react';
 import { getTodayISO } from '../../utils/dateUtils';
 
 export const InputActual: React.FC = () => {
   const { user } = useAuth();
-  const { triggerRefresh } = useDashboard();
-  const [date, setDate] = useState(getTodayISO());
+  const { triggerRefresh, refreshKey } = useDashboard();
+  // Overnight shifts keep counting toward the day they started on
+  const currentShift = useMemo(() => StorageService.getCurrentShift(), []);
+  const [date, setDate] = useState(currentShift?.productionDate ?? getTodayISO());
   
   const [pendingPlans, setPendingPlans] = useState<ProductionEntry[]>([]);
   const [selectedPlanId, setSelectedPlanId] = useState<string>('');
+  const [workOrder, setWorkOrder] = useState<WorkOrderProgress | null>(null);
   
   const [formData, setFormData] = useState({
     actualQty: '',
     manpower: '',
-    batchNo: ''
+    batchNo: '',
+    shift: ''
   });
+  const [losses, setLosses] = useState<LossDraft[]>([]);
+  const lossReasons = useMemo(() => StorageService.getMasterDataOptions('lossReasons'), [refreshKey]);
 
   const [msg, setMsg] = useState<{ type: 'success' | 'error', text: string } | null>(null);
 
@@ -35,20 +44,54 @@ export const InputActual: React.FC = () => {
   }, [currentOffDay]);
 
   useEffect(() => {
-    const all = StorageService.getProductionData();
-    const forDate = all.filter(p => p.date === date);
-    setPendingPlans(forDate);
     setSelectedPlanId('');
-    setFormData({ actualQty: '', manpower: '', batchNo: '' });
+    setFormData({ actualQty: '', manpower: '', batchNo: '', shift: '' });
+    setLosses([]);
   }, [date]);
 
+  // Reloaded after every report, edit or void so the totals stay current
+  useEffect(() => {
+    let cancelled = false;
+    StorageService.queryProduction({ from: date, to: date })
+      .then(forDate => { if (!cancelled) setPendingPlans(forDate); })
+      .catch(err => console.error('Failed to load plans:', err));
+    return () => { cancelled = true; };
+  }, [date, refreshKey]);
+
+  const selectedPlan = pendingPlans.find(p => p.id === selectedPlanId);
+  const stageIndex = workOrder && selectedPlan ? workOrder.stages.findIndex(s => s.process === selectedPlan.process) : -1;
+  const stage = stageIndex >= 0 ? workOrder!.stages[stageIndex] : null;
+  // What a new report may process: the stage's input not yet reported by any entry of the stage
+  const availableForEntry = stage && selectedPlan ? stage.availableInput : null;
+
+  // Reports default to the plan's shift, or for a whole-day plan to the shift running now
+  useEffect(() => {
+    if (!selectedPlan) return;
+    const running = currentShift?.productionDate === date ? currentShift.shift.id : '';
+    setFormData(prev => ({ ...prev, shift: selectedPlan.shift || running }));
+  }, [selectedPlanId]);
+
+  // Stages of a work order take the order's batch number and show the input handed over by the previous stage
+  useEffect(() => {
+    if (!selectedPlan?.workOrderId) {
+      setWorkOrder(null);
+      return;
+    }
+    setFormData(prev => ({ ...prev, batchNo: selectedPlan.batchNo || prev.batchNo }));
+    let cancelled = false;
+    StorageService.getWorkOrderProgress(selectedPlan.workOrderId)
+      .then(([progress]) => { if (!cancelled) setWorkOrder(progress || null); })
+      .catch(err => console.error('Failed to load work order:', err));
+    return () => { cancelled = true; };
+  }, [selectedPlanId, refreshKey]);
+
   const handleAutoBatch = () => {
     const r = Math.floor(Math.random() * 10000);
     const b = `B-${date.replace(/-/g, '')}-${r}`;
     setFormData(prev => ({ ...prev, batchNo: b }));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (currentOffDay) {
       setMsg({ type: 'error', text: 'Cannot enter data on an Off Day.' });
@@ -60,43 +103,40 @@ export const InputActual: React.FC = () => {
       return;
     }
 
+    // Output and losses both use up the stage's input
+    const processed = parseInt(formData.actualQty) + fromLossDrafts(losses).reduce((sum, l) => sum + l.quantity, 0);
+    if (availableForEntry !== null && processed > availableForEntry &&
+        !window.confirm(`Only ${availableForEntry} ${selectedPlan!.unit} is available to ${stage!.process} for batch ${workOrder!.order.batchNo}. Record ${processed} anyway?`)) {
+      return;
+    }
+
     try {
-      const allData = StorageService.getProductionData();
-      const updatedData = allData.map(entry => {
-        if (entry.id === selectedPlanId) {
-          return {
-            ...entry,
-            actualQuantity: parseInt(formData.actualQty),
-            manpower: parseInt(formData.manpower),
-            batchNo: formData.batchNo,
-            lastUpdatedBy: user!.id,
-            updatedAt: new Date().toISOString()
-          };
-        }
-        return entry;
-      });
+      const target = selectedPlan!;
+      const record = await StorageService.recordActual(selectedPlanId, {
+        quantity: parseInt(formData.actualQty),
+        manpower: parseInt(formData.manpower),
+        batchNo: formData.batchNo,
+        shift: formData.shift || undefined,
+        losses: fromLossDrafts(losses)
+      }, user!.id);
 
-      StorageService.saveProductionData(updatedData);
-      
-      const target = allData.find(e => e.id === selectedPlanId);
       StorageService.addLog({
         userId: user!.id,
         userName: user!.name,
         action: 'RECORD_ACTUAL',
-        details: `Updated actuals for ${target?.productName}: ${formData.actualQty} units`
+        details: `Reported ${formData.actualQty} ${target.unit} of ${target.productName} (${target.process}) on ${target.date}${formData.shift ? ` (${StorageService.getShiftLabel(formData.shift)})` : ''}${record.losses ? `; ${lossSummary(record.losses)}` : ''}`
       });
 
       triggerRefresh();
-      setMsg({ type: 'success', text: 'Actual data updated successfully.' });
+      setFormData(prev => ({ ...prev, actualQty: '' }));
+      setLosses([]);
+      setMsg({ type: 'success', text: 'Actual output reported successfully.' });
       
       window.dispatchEvent(new CustomEvent('app-notification', { 
         detail: { message: 'ACTUAL PRODUCTION RECORDED', type: 'success' } 
       }));
-
-      const forDate = updatedData.filter(p => p.date === date);
-      setPendingPlans(forDate);
-    } catch (err) {
-      setMsg({ type: 'error', text: 'Error saving data.' });
+    } catch (err: any) {
+      setMsg({ type: 'error', text: err?.message || 'Error saving data.' });
     }
   };
 
@@ -120,6 +160,12 @@ export const InputActual: React.FC = () => {
             value={date}
             onChange={e => setDate(e.target.value)}
           />
+          {currentShift && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+              <Clock className="w-3.5 h-3.5" />
+              Now: {currentShift.shift.name} shift, counted toward {currentShift.productionDate}
+            </p>
+          )}
 
           {currentOffDay && (
             <div className="mt-4 p-4 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-800 rounded-2xl flex items-center gap-4">
@@ -158,8 +204,8 @@ export const InputActual: React.FC = () => {
                         <span className="text-xs bg-gray-100 dark:bg-slate-700 px-2 py-1 rounded text-gray-600 dark:text-gray-400">{plan.category}</span>
                       </div>
                       <div className="text-sm text-gray-500 dark:text-gray-400 flex justify-between mt-1">
-                        <span>{plan.process}</span>
-                        <span>Plan: {plan.planQuantity}</span>
+                        <span>{plan.process}{plan.workOrderId && plan.batchNo ? ` · Batch ${plan.batchNo}` : ''}{plan.shift ? ` · ${StorageService.getShiftLabel(plan.shift)}` : ''}</span>
+                        <span>Plan: {plan.planQuantity}{plan.actualQuantity > 0 ? ` · Reported: ${plan.actualQuantity}` : ''}</span>
                       </div>
                     </div>
                   ))}
@@ -169,9 +215,34 @@ export const InputActual: React.FC = () => {
 
             {selectedPlanId && (
               <form onSubmit={handleSubmit} className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-300">
+                {workOrder && stage && (
+                  <div className="p-4 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800 rounded-lg flex items-start gap-3">
+                    <Workflow className="w-5 h-5 text-indigo-500 shrink-0 mt-0.5" />
+                    <div className="text-sm text-indigo-800 dark:text-indigo-200">
+                      <p className="font-semibold">Stage {stageIndex + 1} of {workOrder.stages.length} · Batch {workOrder.order.batchNo}</p>
+                      <p className="mt-1">
+                        Available input {stageIndex === 0 ? 'from the batch' : `from ${workOrder.stages[stageIndex - 1].process}`}: <span className="font-bold">{availableForEntry} {selectedPlan!.unit}</span>
+                      </p>
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Shift</label>
+                  <select
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 dark:bg-slate-900 dark:text-white"
+                    value={formData.shift}
+                    onChange={e => setFormData({...formData, shift: e.target.value})}
+                  >
+                    <option value="">Whole day</option>
+                    {StorageService.getShiftOptions(formData.shift).map(s => <option key={s.id} value={s.id}>{s.name} ({s.start} - {s.end})</option>)}
+                  </select>
+                  {selectedPlan?.shift && <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Planned for the {StorageService.getShiftLabel(selectedPlan.shift)} shift</p>}
+                </div>
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Actual Quantity</label>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Good Quantity</label>
                     <input 
                       type="number" 
                       min="0"
@@ -195,12 +266,24 @@ export const InputActual: React.FC = () => {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Rejects, Rework & Scrap</label>
+                  <LossEditor
+                    losses={losses}
+                    reasons={lossReasons}
+                    onChange={setLosses}
+                    inputClassName="w-full px-3 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 dark:bg-slate-900 dark:text-white text-sm"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Only good output counts toward the actual.</p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Batch Number</label>
                   <div className="flex space-x-2">
                     <input 
                       type="text" 
                       required
+                      readOnly={!!selectedPlan?.workOrderId}
                       className="flex-1 px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 dark:bg-slate-900 dark:text-white"
                       value={formData.batchNo}
                       onChange={e => setFormData({...formData, batchNo: e.target.value})}
@@ -208,7 +291,8 @@ export const InputActual: React.FC = () => {
                     <button
                       type="button"
                       onClick={handleAutoBatch}
-                      className="px-4 py-2 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-300 font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600"
+                      disabled={!!selectedPlan?.workOrderId}
+                      className="px-4 py-2 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-gray-300 font-medium rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 disabled:opacity-50"
                     >
                       Generate
                     </button>
@@ -219,10 +303,31 @@ export const InputActual: React.FC = () => {
                   type="submit"
                   className="w-full bg-brand-600 text-white font-semibold py-2.5 rounded-lg hover:bg-brand-700 transition-colors shadow-sm"
                 >
-                  Update Production Data
+                  Add Actual Report
                 </button>
               </form>
             )}
+
+            {/* Outside the form: Enter in a report's edit row must not add another report */}
+            {selectedPlanId && (
+              <div className="mt-6">
+                <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Reports for this plan</p>
+                <ActualRecordList entryId={selectedPlanId} refreshKey={refreshKey} onChanged={triggerRefresh} />
+              </div>
+            )}
+
+            {selectedPlan && (
+              <div className="mt-6 pt-6 border-t border-gray-100 dark:border-slate-700">
+                <DowntimeLog
+                  date={date}
+                  category={selectedPlan.category}
+                  process={selectedPlan.process}
+                  entryId={selectedPlan.id}
+                  refreshKey={refreshKey}
+                  onChanged={triggerRefresh}
+                />
+              </div>
+            )}
           </>
         )}
       </div>
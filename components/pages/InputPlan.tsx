@@ -1,25 +1,48 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { CATEGORIES, PROCESSES, UNITS } from '../../constants';
 import { StorageService } from '../../services/storageService';
 import { useAuth } from '../../contexts/AuthContext';
 import { useDashboard } from '../../contexts/DashboardContext';
 import { ProductionEntry } from '../../types';
 import { AlertCircle, CheckCircle2, Palmtree } from 'lucide-react';
 import { getTodayISO } from '../../utils/dateUtils';
+import { generateId } from '../../utils/idUtils';
 
 export const InputPlan: React.FC = () => {
   const { user } = useAuth();
-  const { triggerRefresh } = useDashboard();
+  const { triggerRefresh, refreshKey } = useDashboard();
+  const categories = useMemo(() => StorageService.getMasterDataOptions('categories'), [refreshKey]);
+  const processes = useMemo(() => StorageService.getMasterDataOptions('processes'), [refreshKey]);
+  const units = useMemo(() => StorageService.getMasterDataOptions('units'), [refreshKey]);
+  const shifts = useMemo(() => StorageService.getShiftOptions(), [refreshKey]);
   const [formData, setFormData] = useState({
     date: getTodayISO(),
-    category: CATEGORIES[0],
-    process: PROCESSES[0],
+    shift: '',
+    category: categories[0] || '',
+    process: processes[0] || '',
     productName: '',
     quantity: '',
-    unit: UNITS[0]
+    unit: units[0] || ''
   });
   const [msg, setMsg] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const products = useMemo(() => StorageService.getProductOptions(), [refreshKey]);
+  const matchedProduct = useMemo(() => StorageService.findProduct(formData.productName), [formData.productName, refreshKey]);
+
+  // Picking a catalogue product fills in its category, unit and first process
+  const handleProductChange = (value: string) => {
+    const product = StorageService.findProduct(value);
+    if (product && product.id !== matchedProduct?.id) {
+      setFormData(prev => ({
+        ...prev,
+        productName: value,
+        category: product.category,
+        unit: product.defaultUnit,
+        process: product.route.includes(prev.process) ? prev.process : product.route[0]
+      }));
+      return;
+    }
+    setFormData(prev => ({ ...prev, productName: value }));
+  };
 
   const offDays = useMemo(() => StorageService.getOffDays(), []);
   const currentOffDay = useMemo(() => offDays.find(od => od.date === formData.date), [formData.date, offDays]);
@@ -32,7 +55,7 @@ export const InputPlan: React.FC = () => {
     }
   }, [currentOffDay]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (currentOffDay) {
       setMsg({ type: 'error', text: `Selected date is an Off Day: ${currentOffDay.description}.` });
@@ -45,15 +68,15 @@ export const InputPlan: React.FC = () => {
     }
 
     try {
-      const entries = StorageService.getProductionData();
-      
       // Fix: Added missing 'unit' property to the ProductionEntry object as required by the interface
       const newEntry: ProductionEntry = {
-        id: Date.now().toString(),
+        id: generateId(),
         date: formData.date,
         category: formData.category as any,
         process: formData.process as any,
-        productName: formData.productName,
+        productName: matchedProduct?.name ?? formData.productName.trim(),
+        ...(matchedProduct ? { productId: matchedProduct.id } : {}),
+        ...(formData.shift ? { shift: formData.shift } : {}),
         planQuantity: parseInt(formData.quantity),
         actualQuantity: 0,
         unit: formData.unit as any,
@@ -61,12 +84,12 @@ export const InputPlan: React.FC = () => {
         updatedAt: new Date().toISOString()
       };
 
-      StorageService.saveProductionData([...entries, newEntry]);
+      await StorageService.upsertProduction([newEntry]);
       StorageService.addLog({
         userId: user!.id,
         userName: user!.name,
         action: 'CREATE_PLAN',
-        details: `Planned ${newEntry.planQuantity} ${newEntry.unit} for ${newEntry.productName} on ${newEntry.date}`
+        details: `Planned ${newEntry.planQuantity} ${newEntry.unit} for ${newEntry.productName} on ${newEntry.date}${newEntry.shift ? ` (${StorageService.getShiftLabel(newEntry.shift)})` : ''}`
       });
 
       triggerRefresh();
@@ -76,8 +99,8 @@ export const InputPlan: React.FC = () => {
       window.dispatchEvent(new CustomEvent('app-notification', { 
         detail: { message: 'PRODUCTION PLAN SUBMITTED', type: 'success' } 
       }));
-    } catch (err) {
-      setMsg({ type: 'error', text: 'Failed to save data.' });
+    } catch (err: any) {
+      setMsg({ type: 'error', text: err?.message || 'Failed to save data.' });
     }
   };
 
@@ -115,6 +138,18 @@ export const InputPlan: React.FC = () => {
                 </div>
               )}
             </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Shift</label>
+              <select
+                className="w-full px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 dark:bg-slate-900 dark:text-white"
+                value={formData.shift}
+                onChange={e => setFormData({...formData, shift: e.target.value})}
+              >
+                <option value="">Whole day</option>
+                {shifts.map(s => <option key={s.id} value={s.id}>{s.name} ({s.start} - {s.end})</option>)}
+              </select>
+            </div>
             
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Category</label>
@@ -123,7 +158,7 @@ export const InputPlan: React.FC = () => {
                 value={formData.category}
                 onChange={e => setFormData({...formData, category: e.target.value as any})}
               >
-                {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+                {categories.map(c => <option key={c} value={c}>{c}</option>)}
               </select>
             </div>
 
@@ -134,11 +169,11 @@ export const InputPlan: React.FC = () => {
                 value={formData.process}
                 onChange={e => setFormData({...formData, process: e.target.value as any})}
               >
-                {PROCESSES.map(p => <option key={p} value={p}>{p}</option>)}
+                {processes.map(p => <option key={p} value={p}>{p}</option>)}
               </select>
             </div>
 
-            <div>
+            <div className="md:col-span-2">
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Plan Quantity</label>
               <div className="flex gap-2">
                 <input 
@@ -154,7 +189,7 @@ export const InputPlan: React.FC = () => {
                   value={formData.unit}
                   onChange={e => setFormData({...formData, unit: e.target.value as any})}
                 >
-                  {UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                  {units.map(u => <option key={u} value={u}>{u}</option>)}
                 </select>
               </div>
             </div>
@@ -165,11 +200,22 @@ export const InputPlan: React.FC = () => {
             <input 
               type="text" 
               required
-              placeholder="e.g. Pain Relief Gel 50g"
+              list="plan-catalogue-products"
+              placeholder="e.g. Pain Relief Gel 50g or its SKU"
               className="w-full px-4 py-2 border border-gray-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-brand-500 focus:border-brand-500 dark:bg-slate-900 dark:text-white"
               value={formData.productName}
-              onChange={e => setFormData({...formData, productName: e.target.value})}
+              onChange={e => handleProductChange(e.target.value)}
             />
+            <datalist id="plan-catalogue-products">
+              {products.map(p => <option key={p.id} value={p.name}>{p.sku}{p.packSize ? ` · ${p.packSize}` : ''}</option>)}
+            </datalist>
+            {matchedProduct ? (
+              <p className="mt-1 text-xs text-brand-600 dark:text-brand-400">
+                {matchedProduct.sku} · Route: {matchedProduct.route.join(' → ')}
+              </p>
+            ) : formData.productName.trim() !== '' && (
+              <p className="mt-1 text-xs text-amber-600">Not in the product catalogue</p>
+            )}
           </div>
 
           <div className="pt-4">
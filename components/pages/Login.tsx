@@ -1,22 +1,36 @@
 
 import React, { useState } from 'react';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts/AuthContext';
+import { LoginGuardService } from '../../services/loginGuardService';
+import { RecoveryModal } from '../modals/RecoveryModal';
 import { Factory, Lock, User as UserIcon } from 'lucide-react';
 
 export const Login: React.FC = () => {
-  const { login } = useAuth();
+  const { user, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [remember, setRemember] = useState(false);
   const [error, setError] = useState('');
+  const [showRecovery, setShowRecovery] = useState(false);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Return to the page that sent us here (set by ProtectedRoute)
+  const from = (location.state as { from?: string } | null)?.from || '/';
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    const success = login(username, password);
-    if (!success) {
-      setError('Invalid username or password');
+    const result = await login(username, password, remember);
+    if (!result.ok) {
+      setError(LoginGuardService.describeFailure(result));
+      return;
     }
+    navigate(from, { replace: true });
   };
 
+  if (user) return <Navigate to={from} replace />;
+
   return (
     <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
       <div className="bg-white w-full max-w-md rounded-2xl shadow-xl overflow-hidden">
@@ -60,15 +74,24 @@ export const Login: React.FC = () => {
                     />
                 </div>
 
+                <label className="flex items-center gap-2 text-sm text-gray-600 cursor-pointer select-none">
+                    <input type="checkbox" checked={remember} onChange={e => setRemember(e.target.checked)} />
+                    Remember me on this device
+                </label>
+
                 <button 
                     type="submit"
                     className="w-full bg-brand-600 text-white font-bold py-2.5 rounded-lg hover:bg-brand-700 transition-colors shadow-lg shadow-brand-500/30"
                 >
                     Sign In
                 </button>
+                <button type="button" onClick={() => setShowRecovery(true)} className="w-full text-sm text-gray-500 hover:text-gray-700 transition-colors">
+                    Forgot administrator password?
+                </button>
             </form>
         </div>
       </div>
+      {showRecovery && <RecoveryModal onClose={() => setShowRecovery(false)} />}
     </div>
   );
 };
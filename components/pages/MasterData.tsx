@@ -0,0 +1,289 @@
+import React, { useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { MasterDataItem, MasterDataKind, ShiftDefinition } from '../../types';
+import { MASTER_DATA_KINDS } from '../../constants';
+import { crossesMidnight } from '../../services/shiftService';
+import { ListChecks, Plus, Pencil, Archive, ArchiveRestore, Check, X, Clock } from 'lucide-react';
+
+const ITEM_NAMES: Record<MasterDataKind, string> = {
+  categories: 'category',
+  processes: 'process',
+  units: 'unit',
+  lossReasons: 'loss reason'
+};
+
+type ShiftDraft = Omit<ShiftDefinition, 'id' | 'archived'>;
+
+const EMPTY_SHIFT: ShiftDraft = { name: '', start: '', end: '' };
+
+/**
+ * Admin-managed categories, processes, units, loss reasons and shifts. Items
+ * are renamed or archived instead of deleted so existing production entries
+ * stay valid.
+ */
+export const MasterData: React.FC = () => {
+  const { user } = useAuth();
+  const { refreshKey, triggerRefresh } = useDashboard();
+  const data = useMemo(() => StorageService.getMasterData(), [refreshKey]);
+  const [drafts, setDrafts] = useState<Record<MasterDataKind, string>>({ categories: '', processes: '', units: '', lossReasons: '' });
+  const [editing, setEditing] = useState<{ kind: MasterDataKind; id: string; name: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const shifts = useMemo(() => StorageService.getShifts(), [refreshKey]);
+  const [shiftDraft, setShiftDraft] = useState<ShiftDraft>(EMPTY_SHIFT);
+  const [editingShift, setEditingShift] = useState<ShiftDefinition | null>(null);
+
+  const notify = (message: string, type: 'success' | 'info') =>
+    window.dispatchEvent(new CustomEvent('app-notification', { detail: { message, type } }));
+
+  const log = (action: string, details: string) =>
+    StorageService.addLog({ userId: user!.id, userName: user!.name, action, details });
+
+  const handleAdd = (kind: MasterDataKind) => {
+    try {
+      const item = StorageService.addMasterDataItem(kind, drafts[kind]);
+      log('MASTER_DATA_ADD', `Added ${ITEM_NAMES[kind]} "${item.name}"`);
+      setDrafts({ ...drafts, [kind]: '' });
+      triggerRefresh();
+      notify(`${ITEM_NAMES[kind].toUpperCase()} ADDED: ${item.name.toUpperCase()}`, 'success');
+    } catch (err: any) {
+      notify((err?.message || 'Could not add item').toUpperCase(), 'info');
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const current = data[editing.kind].find(i => i.id === editing.id);
+    if (!current) return;
+    if (current.name !== editing.name.trim() &&
+        !window.confirm(`Rename "${current.name}" to "${editing.name.trim()}"? Existing production entries are updated to the new name.`)) return;
+    setBusy(true);
+    try {
+      const renamed = await StorageService.renameMasterDataItem(editing.kind, editing.id, editing.name, user!.id);
+      if (renamed.name !== current.name) {
+        log('MASTER_DATA_RENAME', `Renamed ${ITEM_NAMES[editing.kind]} "${current.name}" to "${renamed.name}"`);
+        notify(`RENAMED TO ${renamed.name.toUpperCase()}`, 'success');
+      }
+      setEditing(null);
+      triggerRefresh();
+    } catch (err: any) {
+      notify((err?.message || 'Rename failed').toUpperCase(), 'info');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleArchive = (kind: MasterDataKind, item: MasterDataItem) => {
+    const archive = !item.archived;
+    try {
+      StorageService.setMasterDataArchived(kind, item.id, archive);
+      log(archive ? 'MASTER_DATA_ARCHIVE' : 'MASTER_DATA_UNARCHIVE', `${archive ? 'Archived' : 'Reactivated'} ${ITEM_NAMES[kind]} "${item.name}"`);
+      triggerRefresh();
+      notify(`${archive ? 'ARCHIVED' : 'REACTIVATED'}: ${item.name.toUpperCase()}`, archive ? 'info' : 'success');
+    } catch (err: any) {
+      notify((err?.message || 'Action failed').toUpperCase(), 'info');
+    }
+  };
+
+  const handleSaveShift = (shift: ShiftDraft & { id?: string }) => {
+    const previous = shifts.find(s => s.id === shift.id);
+    try {
+      const saved = StorageService.saveShift(shift);
+      if (previous) {
+        log('SHIFT_UPDATE', `Updated shift "${previous.name}" (${previous.start}-${previous.end}) to "${saved.name}" (${saved.start}-${saved.end})`);
+        setEditingShift(null);
+      } else {
+        log('SHIFT_ADD', `Added shift "${saved.name}" (${saved.start}-${saved.end})`);
+        setShiftDraft(EMPTY_SHIFT);
+      }
+      triggerRefresh();
+      notify(`SHIFT SAVED: ${saved.name.toUpperCase()}`, 'success');
+    } catch (err: any) {
+      notify((err?.message || 'Could not save shift').toUpperCase(), 'info');
+    }
+  };
+
+  const handleArchiveShift = (shift: ShiftDefinition) => {
+    const archive = !shift.archived;
+    try {
+      StorageService.setShiftArchived(shift.id, archive);
+      log(archive ? 'SHIFT_ARCHIVE' : 'SHIFT_UNARCHIVE', `${archive ? 'Archived' : 'Reactivated'} shift "${shift.name}"`);
+      triggerRefresh();
+      notify(`${archive ? 'ARCHIVED' : 'REACTIVATED'}: ${shift.name.toUpperCase()}`, archive ? 'info' : 'success');
+    } catch (err: any) {
+      notify((err?.message || 'Action failed').toUpperCase(), 'info');
+    }
+  };
+
+  const fieldClasses = "px-3 py-2 text-xs font-bold rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div>
+        <h2 className="text-2xl font-black text-slate-800 dark:text-white flex items-center gap-3">
+          <ListChecks className="w-6 h-6 text-indigo-500" />
+          Master Data
+        </h2>
+        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Categories, processes, units, loss reasons and shifts offered in every form</p>
+      </div>
+
+      {MASTER_DATA_KINDS.map(({ kind, label }) => (
+        <div key={kind} className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-100 dark:border-slate-700 flex items-center justify-between gap-4">
+            <h3 className="text-sm font-black text-slate-800 dark:text-white">
+              {label} <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">({data[kind].filter(i => !i.archived).length} active)</span>
+            </h3>
+            <form onSubmit={e => { e.preventDefault(); handleAdd(kind); }} className="flex gap-2">
+              <input
+                type="text"
+                value={drafts[kind]}
+                onChange={e => setDrafts({ ...drafts, [kind]: e.target.value })}
+                placeholder={`New ${ITEM_NAMES[kind]}...`}
+                className="px-3 py-2 text-xs font-bold rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button type="submit" disabled={!drafts[kind].trim()} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition disabled:opacity-50">
+                <Plus className="w-3.5 h-3.5" /> Add
+              </button>
+            </form>
+          </div>
+          <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+            {data[kind].map(item => {
+              const isEditing = editing?.kind === kind && editing.id === item.id;
+              return (
+                <li key={item.id} className={`px-6 py-3 flex items-center justify-between gap-6 ${item.archived ? 'opacity-60' : ''}`}>
+                  {isEditing ? (
+                    <input
+                      autoFocus
+                      type="text"
+                      value={editing!.name}
+                      onChange={e => setEditing({ ...editing!, name: e.target.value })}
+                      onKeyDown={e => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setEditing(null); }}
+                      className="flex-1 px-3 py-1.5 text-sm font-bold rounded-lg border border-indigo-300 bg-white dark:bg-slate-900 text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                  ) : (
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-black text-slate-800 dark:text-white">{item.name}</span>
+                        {item.archived && (
+                          <span className="text-[10px] font-black uppercase px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-900 text-slate-500 border border-slate-200 dark:border-slate-700 tracking-tighter">Archived</span>
+                        )}
+                      </div>
+                      {item.aliases && item.aliases.length > 0 && (
+                        <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">Formerly {item.aliases.join(', ')}</p>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex gap-2 shrink-0">
+                    {isEditing ? (
+                      <>
+                        <button onClick={handleRename} disabled={busy || !editing!.name.trim()} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-emerald-700 transition disabled:opacity-50">
+                          <Check className="w-3.5 h-3.5" /> Save
+                        </button>
+                        <button onClick={() => setEditing(null)} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 dark:hover:bg-slate-700 transition">
+                          <X className="w-3.5 h-3.5" /> Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button onClick={() => setEditing({ kind, id: item.id, name: item.name })} disabled={busy} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-indigo-50 text-indigo-600 border border-indigo-200 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition disabled:opacity-50">
+                          <Pencil className="w-3.5 h-3.5" /> Rename
+                        </button>
+                        <button onClick={() => handleArchive(kind, item)} disabled={busy} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-slate-50 text-slate-600 border border-slate-200 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition disabled:opacity-50">
+                          {item.archived ? <><ArchiveRestore className="w-3.5 h-3.5" /> Reactivate</> : <><Archive className="w-3.5 h-3.5" /> Archive</>}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 dark:border-slate-700 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-black text-slate-800 dark:text-white flex items-center gap-2">
+              <Clock className="w-4 h-4 text-indigo-500" />
+              Shifts <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">({shifts.filter(s => !s.archived).length} active)</span>
+            </h3>
+            <p className="text-[10px] font-bold text-slate-400 mt-0.5">Malaysia time. A shift ending before it starts runs overnight and counts toward the day it started.</p>
+          </div>
+          <form onSubmit={e => { e.preventDefault(); handleSaveShift(shiftDraft); }} className="flex gap-2">
+            <input
+              type="text"
+              value={shiftDraft.name}
+              onChange={e => setShiftDraft({ ...shiftDraft, name: e.target.value })}
+              placeholder="New shift..."
+              className={`${fieldClasses} w-32`}
+            />
+            <input type="time" required value={shiftDraft.start} onChange={e => setShiftDraft({ ...shiftDraft, start: e.target.value })} className={fieldClasses} />
+            <input type="time" required value={shiftDraft.end} onChange={e => setShiftDraft({ ...shiftDraft, end: e.target.value })} className={fieldClasses} />
+            <button type="submit" disabled={!shiftDraft.name.trim()} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition disabled:opacity-50">
+              <Plus className="w-3.5 h-3.5" /> Add
+            </button>
+          </form>
+        </div>
+        <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+          {shifts.map(shift => {
+            const isEditing = editingShift?.id === shift.id;
+            return (
+              <li key={shift.id} className={`px-6 py-3 flex items-center justify-between gap-6 ${shift.archived ? 'opacity-60' : ''}`}>
+                {isEditing ? (
+                  <div className="flex-1 flex gap-2">
+                    <input
+                      autoFocus
+                      type="text"
+                      value={editingShift!.name}
+                      onChange={e => setEditingShift({ ...editingShift!, name: e.target.value })}
+                      onKeyDown={e => { if (e.key === 'Escape') setEditingShift(null); }}
+                      className={`${fieldClasses} flex-1`}
+                    />
+                    <input type="time" value={editingShift!.start} onChange={e => setEditingShift({ ...editingShift!, start: e.target.value })} className={fieldClasses} />
+                    <input type="time" value={editingShift!.end} onChange={e => setEditingShift({ ...editingShift!, end: e.target.value })} className={fieldClasses} />
+                  </div>
+                ) : (
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-black text-slate-800 dark:text-white">{shift.name}</span>
+                      {crossesMidnight(shift) && (
+                        <span className="text-[10px] font-black uppercase px-2 py-0.5 rounded bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-300 border border-indigo-200 dark:border-indigo-800 tracking-tighter">Overnight</span>
+                      )}
+                      {shift.archived && (
+                        <span className="text-[10px] font-black uppercase px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-900 text-slate-500 border border-slate-200 dark:border-slate-700 tracking-tighter">Archived</span>
+                      )}
+                    </div>
+                    <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{shift.start} - {shift.end}</p>
+                  </div>
+                )}
+                <div className="flex gap-2 shrink-0">
+                  {isEditing ? (
+                    <>
+                      <button onClick={() => handleSaveShift(editingShift!)} disabled={!editingShift!.name.trim()} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-emerald-700 transition disabled:opacity-50">
+                        <Check className="w-3.5 h-3.5" /> Save
+                      </button>
+                      <button onClick={() => setEditingShift(null)} className="flex items-center gap-1.5 px-3 py-2 rounded-lg text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 dark:hover:bg-slate-700 transition">
+                        <X className="w-3.5 h-3.5" /> Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button onClick={() => setEditingShift(shift)} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-indigo-50 text-indigo-600 border border-indigo-200 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition">
+                        <Pencil className="w-3.5 h-3.5" /> Edit
+                      </button>
+                      <button onClick={() => handleArchiveShift(shift)} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-slate-50 text-slate-600 border border-slate-200 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition">
+                        {shift.archived ? <><ArchiveRestore className="w-3.5 h-3.5" /> Reactivate</> : <><Archive className="w-3.5 h-3.5" /> Archive</>}
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
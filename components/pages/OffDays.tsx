@@ -3,6 +3,7 @@ import { StorageService } from '../../services/storageService';
 import { useAuth } from '../../contexts/AuthContext';
 import { OffDay } from '../../types';
 import { Trash2, Plus } from 'lucide-react';
+import { generateId } from '../../utils/idUtils';
 
 export const OffDays: React.FC = () => {
   const { user } = useAuth();
@@ -20,7 +21,7 @@ export const OffDays: React.FC = () => {
     }
 
     const newOffDay: OffDay = {
-        id: Date.now().toString(),
+        id: generateId(),
         date: newDate,
         description: description || 'Scheduled Off',
         createdBy: user!.id
@@ -34,9 +35,14 @@ export const OffDays: React.FC = () => {
   };
 
   const handleRemove = (id: string) => {
-    const updated = offDays.filter(d => d.id !== id);
-    StorageService.saveOffDays(updated);
-    setOffDays(updated);
+    const target = StorageService.deleteOffDay(id, user!.id);
+    StorageService.addLog({
+      userId: user!.id,
+      userName: user!.name,
+      action: 'DELETE_HOLIDAY',
+      details: `Moved holiday to trash: ${target?.description} (${target?.date})`
+    });
+    setOffDays(offDays.filter(d => d.id !== id));
   };
 
   return (
@@ -1,8 +1,9 @@
 
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useDashboard } from '../../contexts/DashboardContext';
 import { StorageService } from '../../services/storageService';
-import { CATEGORIES, PROCESSES } from '../../constants';
+import { ProductionEntry, LossKind, DowntimeEntry, DowntimeReason } from '../../types';
+import { LOSS_KINDS, DOWNTIME_REASONS } from '../../constants';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, 
   ResponsiveContainer, LineChart, Line, AreaChart, Area, ComposedChart,
@@ -12,9 +13,11 @@ import {
   BarChart3, Activity, Target, Zap, 
   Filter, Calendar, ChevronRight, Info,
   TrendingUp, ArrowUpRight, ArrowDownRight,
-  GripVertical, MousePointer2
+  GripVertical, MousePointer2, Clock, ShieldCheck, TimerOff
 } from 'lucide-react';
-import { getTodayISO } from '../../utils/dateUtils';
+import { getTodayISO, formatMinutes } from '../../utils/dateUtils';
+
+const reasonLabel = (reason: DowntimeReason) => DOWNTIME_REASONS.find(r => r.reason === reason)?.label ?? reason;
 
 export const ProcessAnalytics: React.FC = () => {
   const { refreshKey, isDarkMode } = useDashboard();
@@ -23,38 +26,49 @@ export const ProcessAnalytics: React.FC = () => {
     end: getTodayISO() 
   });
   const [selectedCategory, setSelectedCategory] = useState('All');
+  const masterData = useMemo(() => StorageService.getMasterData(), [refreshKey]);
+  const activeProcesses = useMemo(() => masterData.processes.filter(p => !p.archived).map(p => p.name), [masterData]);
 
-  const productionData = useMemo(() => StorageService.getProductionData(), [refreshKey]);
+  const [filteredData, setFilteredData] = useState<ProductionEntry[]>([]);
+  const [downtime, setDowntime] = useState<DowntimeEntry[]>([]);
+  const [paretoProcess, setParetoProcess] = useState('All');
+  const [paretoKind, setParetoKind] = useState<LossKind | 'all'>('all');
 
-  const filteredData = useMemo(() => {
-    return productionData.filter(d => {
-      const matchCat = selectedCategory === 'All' || d.category === selectedCategory;
-      const matchStart = !dateRange.start || d.date >= dateRange.start;
-      const matchEnd = !dateRange.end || d.date <= dateRange.end;
-      return matchCat && matchStart && matchEnd;
-    });
-  }, [productionData, dateRange, selectedCategory]);
+  useEffect(() => {
+    let cancelled = false;
+    const query = {
+      category: selectedCategory === 'All' ? undefined : selectedCategory,
+      from: dateRange.start || undefined,
+      to: dateRange.end || undefined
+    };
+    setDowntime(StorageService.getDowntime(query));
+    StorageService.queryProduction(query)
+      .then(rows => { if (!cancelled) setFilteredData(rows); })
+      .catch(err => console.error('Failed to load production data:', err));
+    return () => { cancelled = true; };
+  }, [refreshKey, dateRange, selectedCategory]);
 
   const processMetrics = useMemo(() => {
     const metrics: Record<string, { process: string, plan: number, actual: number, efficiency: number, count: number }> = {};
     
-    PROCESSES.forEach(p => {
+    // Active processes are always listed; archived ones only when they have entries
+    activeProcesses.forEach(p => {
       metrics[p] = { process: p, plan: 0, actual: 0, efficiency: 0, count: 0 };
     });
 
     filteredData.forEach(d => {
-      if (metrics[d.process]) {
-        metrics[d.process].plan += (d.planQuantity || 0);
-        metrics[d.process].actual += (d.actualQuantity || 0);
-        metrics[d.process].count++;
-      }
+      if (!d.process) return;
+      if (!metrics[d.process]) metrics[d.process] = { process: d.process, plan: 0, actual: 0, efficiency: 0, count: 0 };
+      metrics[d.process].plan += (d.planQuantity || 0);
+      metrics[d.process].actual += (d.actualQuantity || 0);
+      metrics[d.process].count++;
     });
 
     return Object.values(metrics).map(m => ({
       ...m,
       efficiency: m.plan > 0 ? Number(((m.actual / m.plan) * 100).toFixed(1)) : 0
     })).sort((a, b) => b.efficiency - a.efficiency);
-  }, [filteredData]);
+  }, [filteredData, activeProcesses]);
 
   const aggregateMetrics = useMemo(() => {
     const totalPlan = processMetrics.reduce((s, m) => s + m.plan, 0);
@@ -65,6 +79,47 @@ export const ProcessAnalytics: React.FC = () => {
     return { totalPlan, totalActual, avgEff, peakProcess };
   }, [processMetrics]);
 
+  // Minutes each process stood still, keyed by process for the efficiency matrix
+  const downtimeByProcess = useMemo(() =>
+    new Map(StorageService.getDowntimeSummary(downtime).map(row => [row.process, row])), [downtime]);
+
+  const downtimeTotal = useMemo(() => {
+    const byReason = new Map<DowntimeReason, number>();
+    downtime.forEach(d => byReason.set(d.reason, (byReason.get(d.reason) || 0) + d.durationMinutes));
+    const topReason = Array.from(byReason.entries()).sort((a, b) => b[1] - a[1])[0]?.[0];
+    return { minutes: downtime.reduce((sum, d) => sum + d.durationMinutes, 0), topReason };
+  }, [downtime]);
+
+  const shiftMetrics = useMemo(() =>
+    StorageService.getShiftBreakdown(filteredData).map(s => ({
+      ...s,
+      efficiency: s.plan > 0 ? Number(((s.actual / s.plan) * 100).toFixed(1)) : 0
+    })), [filteredData, refreshKey]);
+
+  // Efficiency of every process in every shift; null where nothing was planned
+  const shiftMatrix = useMemo(() => processMetrics.map(m => {
+    const byShift = new Map(StorageService.getShiftBreakdown(filteredData.filter(d => d.process === m.process)).map(s => [s.shiftId, s]));
+    return {
+      process: m.process,
+      cells: shiftMetrics.map(s => {
+        const cell = byShift.get(s.shiftId);
+        return cell && cell.plan > 0 ? Number(((cell.actual / cell.plan) * 100).toFixed(1)) : null;
+      })
+    };
+  }), [processMetrics, shiftMetrics, filteredData]);
+
+  // First-pass yield per process; processes with no reported output are left out
+  const yieldMetrics = useMemo(() => processMetrics
+    .map(m => ({ process: m.process, ...StorageService.getYieldSummary(filteredData.filter(d => d.process === m.process)) }))
+    .filter(y => y.firstPassYield !== null), [processMetrics, filteredData]);
+
+  const overallYield = useMemo(() => StorageService.getYieldSummary(filteredData), [filteredData]);
+
+  const paretoData = useMemo(() => StorageService.getLossPareto(
+    filteredData.filter(d => paretoProcess === 'All' || d.process === paretoProcess),
+    paretoKind === 'all' ? undefined : [paretoKind]
+  ), [filteredData, paretoProcess, paretoKind]);
+
   const dailyTrendData = useMemo(() => {
     const daily: Record<string, { date: string, efficiency: number, actual: number, count: number }> = {};
     
@@ -109,7 +164,7 @@ export const ProcessAnalytics: React.FC = () => {
               className="bg-transparent text-xs font-black text-slate-600 dark:text-slate-200 outline-none uppercase tracking-widest cursor-pointer"
             >
               <option value="All">All Departments</option>
-              {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+              {masterData.categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
             </select>
           </div>
           <div className="flex items-center gap-3 bg-gray-50 dark:bg-slate-900 px-4 py-2.5 rounded-xl border border-gray-100 dark:border-slate-700">
@@ -185,7 +240,7 @@ export const ProcessAnalytics: React.FC = () => {
             </div>
             <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">Process Nodes</p>
             <div className="flex items-baseline gap-2">
-                <h3 className="text-4xl font-black text-slate-800 dark:text-white font-mono">{PROCESSES.length}</h3>
+                <h3 className="text-4xl font-black text-slate-800 dark:text-white font-mono">{activeProcesses.length}</h3>
                 <span className="text-[10px] font-black text-slate-400 uppercase">Stages</span>
             </div>
             <p className="text-[9px] font-bold text-slate-400 mt-2 uppercase tracking-widest">Active Manufacturing Steps</p>
@@ -366,9 +421,15 @@ export const ProcessAnalytics: React.FC = () => {
         <div className="bg-white dark:bg-slate-800 rounded-[3rem] border border-gray-100 dark:border-slate-700 shadow-sm overflow-hidden flex flex-col">
             <div className="p-8 border-b border-gray-50 dark:border-slate-700 flex items-center justify-between bg-gray-50/50 dark:bg-slate-900/50">
                 <h3 className="text-xl font-black text-slate-900 dark:text-white tracking-tight">Efficiency Matrix</h3>
-                <div className="flex items-center gap-2 text-[9px] font-black text-slate-400 uppercase tracking-widest px-4 py-2 bg-white dark:bg-slate-800 rounded-full border border-gray-100 dark:border-slate-700 shadow-sm">
-                    <MousePointer2 className="w-3 h-3" /> Data Density: High
-                </div>
+                {downtimeTotal.minutes > 0 ? (
+                  <div className="flex items-center gap-2 text-[9px] font-black text-amber-600 uppercase tracking-widest px-4 py-2 bg-amber-50 dark:bg-amber-900/20 rounded-full border border-amber-100 dark:border-amber-800 shadow-sm">
+                      <TimerOff className="w-3 h-3" /> {formatMinutes(downtimeTotal.minutes)} down · {reasonLabel(downtimeTotal.topReason!)}
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2 text-[9px] font-black text-slate-400 uppercase tracking-widest px-4 py-2 bg-white dark:bg-slate-800 rounded-full border border-gray-100 dark:border-slate-700 shadow-sm">
+                      <MousePointer2 className="w-3 h-3" /> Data Density: High
+                  </div>
+                )}
             </div>
             
             <div className="overflow-x-auto flex-1 custom-scrollbar">
@@ -378,6 +439,7 @@ export const ProcessAnalytics: React.FC = () => {
                             <th className="px-8 py-5">Manufacturing Node</th>
                             <th className="px-8 py-5">Throughput</th>
                             <th className="px-8 py-5">Efficiency</th>
+                            <th className="px-8 py-5">Downtime</th>
                             <th className="px-8 py-5 text-right">Status</th>
                         </tr>
                     </thead>
@@ -401,6 +463,18 @@ export const ProcessAnalytics: React.FC = () => {
                                         </div>
                                     </div>
                                 </td>
+                                <td className="px-8 py-6">
+                                    {downtimeByProcess.has(m.process) ? (
+                                      <div>
+                                        <div className="font-mono font-black text-amber-600">{formatMinutes(downtimeByProcess.get(m.process)!.minutes)}</div>
+                                        <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-0.5">
+                                          {downtimeByProcess.get(m.process)!.stoppages}× · {reasonLabel(downtimeByProcess.get(m.process)!.topReason!)}
+                                        </div>
+                                      </div>
+                                    ) : (
+                                      <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">None</span>
+                                    )}
+                                </td>
                                 <td className="px-8 py-6 text-right">
                                     <span className={`px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest ${
                                         m.efficiency >= 95 ? 'bg-emerald-50 text-emerald-600 border border-emerald-100' :
@@ -417,6 +491,197 @@ export const ProcessAnalytics: React.FC = () => {
             </div>
         </div>
       </div>
+
+      {/* SHIFT PERFORMANCE */}
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="bg-white dark:bg-slate-800 p-8 rounded-[3rem] border border-gray-100 dark:border-slate-700 shadow-sm">
+            <div className="flex items-center justify-between mb-10">
+                <div>
+                    <h3 className="text-xl font-black text-slate-900 dark:text-white">Shift Output</h3>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Plan against actual per shift</p>
+                </div>
+                <Clock className="w-6 h-6 text-indigo-500/20" />
+            </div>
+
+            <div className="h-72 w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={shiftMetrics} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={isDarkMode ? '#334155' : '#f1f5f9'} />
+                        <XAxis
+                          dataKey="name"
+                          axisLine={false}
+                          tickLine={false}
+                          tick={{ fontSize: 10, fontWeight: 900, fill: '#94a3b8' }}
+                          dy={10}
+                        />
+                        <YAxis
+                          axisLine={false}
+                          tickLine={false}
+                          tick={{ fontSize: 10, fontWeight: 900, fill: '#94a3b8' }}
+                        />
+                        <Tooltip
+                            cursor={{ fill: isDarkMode ? '#1e293b' : '#f8fafc', opacity: 0.4 }}
+                            contentStyle={{ backgroundColor: isDarkMode ? '#1e293b' : '#fff', borderRadius: '24px', border: 'none', boxShadow: '0 25px 50px -12px rgb(0 0 0 / 0.25)' }}
+                        />
+                        <Legend wrapperStyle={{ fontSize: '10px', fontWeight: 900, textTransform: 'uppercase' }} />
+                        <Bar dataKey="plan" name="Plan" fill="#c7d2fe" radius={[8, 8, 0, 0]} barSize={28} />
+                        <Bar dataKey="actual" name="Actual" fill="#4f46e5" radius={[8, 8, 0, 0]} barSize={28} />
+                    </BarChart>
+                </ResponsiveContainer>
+            </div>
+        </div>
+
+        <div className="bg-white dark:bg-slate-800 rounded-[3rem] border border-gray-100 dark:border-slate-700 shadow-sm overflow-hidden flex flex-col">
+            <div className="p-8 border-b border-gray-50 dark:border-slate-700 bg-gray-50/50 dark:bg-slate-900/50">
+                <h3 className="text-xl font-black text-slate-900 dark:text-white tracking-tight">Shift Efficiency Matrix</h3>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Actual against plan per process and shift</p>
+            </div>
+
+            <div className="overflow-x-auto flex-1 custom-scrollbar">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] bg-white dark:bg-slate-800 border-b dark:border-slate-700">
+                            <th className="px-8 py-5">Process</th>
+                            {shiftMetrics.map(s => <th key={s.shiftId || 'whole-day'} className="px-6 py-5 text-center">{s.name}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-50 dark:divide-slate-700">
+                        {shiftMatrix.map(row => (
+                            <tr key={row.process} className="hover:bg-indigo-50/20 dark:hover:bg-indigo-900/10 transition-colors">
+                                <td className="px-8 py-4 text-sm font-black text-slate-800 dark:text-white uppercase tracking-tight">{row.process}</td>
+                                {row.cells.map((eff, i) => (
+                                    <td key={i} className="px-6 py-4 text-center">
+                                        {eff === null ? (
+                                            <span className="text-xs font-black text-slate-300 dark:text-slate-600">-</span>
+                                        ) : (
+                                            <span className={`text-sm font-black font-mono ${eff >= 95 ? 'text-emerald-500' : eff >= 85 ? 'text-indigo-500' : 'text-rose-500'}`}>{eff}%</span>
+                                        )}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+      </div>
+
+      {/* QUALITY & YIELD */}
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="bg-white dark:bg-slate-800 rounded-[3rem] border border-gray-100 dark:border-slate-700 shadow-sm overflow-hidden flex flex-col">
+            <div className="p-8 border-b border-gray-50 dark:border-slate-700 flex items-center justify-between bg-gray-50/50 dark:bg-slate-900/50">
+                <div>
+                    <h3 className="text-xl font-black text-slate-900 dark:text-white tracking-tight">First-Pass Yield</h3>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Good output against everything made, per process</p>
+                </div>
+                <div className="text-right">
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Overall</p>
+                    <p className="text-2xl font-black font-mono text-slate-900 dark:text-white">{overallYield.firstPassYield === null ? '-' : `${overallYield.firstPassYield}%`}</p>
+                </div>
+            </div>
+
+            <div className="overflow-x-auto flex-1 custom-scrollbar">
+                <table className="w-full text-left">
+                    <thead>
+                        <tr className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] bg-white dark:bg-slate-800 border-b dark:border-slate-700">
+                            <th className="px-8 py-5">Process</th>
+                            <th className="px-4 py-5 text-right">Good</th>
+                            {LOSS_KINDS.map(k => <th key={k.kind} className="px-4 py-5 text-right">{k.label}</th>)}
+                            <th className="px-8 py-5 text-right">FPY</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-50 dark:divide-slate-700">
+                        {yieldMetrics.length === 0 && (
+                            <tr><td colSpan={LOSS_KINDS.length + 3} className="px-8 py-10 text-center text-xs font-bold text-slate-400 italic">No output reported in this period.</td></tr>
+                        )}
+                        {yieldMetrics.map(y => (
+                            <tr key={y.process} className="hover:bg-indigo-50/20 dark:hover:bg-indigo-900/10 transition-colors">
+                                <td className="px-8 py-4 text-sm font-black text-slate-800 dark:text-white uppercase tracking-tight">{y.process}</td>
+                                <td className="px-4 py-4 text-right font-mono font-black text-slate-700 dark:text-slate-300">{y.good.toLocaleString()}</td>
+                                {LOSS_KINDS.map(k => (
+                                    <td key={k.kind} className={`px-4 py-4 text-right font-mono font-black ${y[k.kind] > 0 ? 'text-rose-500' : 'text-slate-300 dark:text-slate-600'}`}>{y[k.kind].toLocaleString()}</td>
+                                ))}
+                                <td className="px-8 py-4 text-right">
+                                    <span className={`text-sm font-black font-mono ${y.firstPassYield! >= 98 ? 'text-emerald-500' : y.firstPassYield! >= 95 ? 'text-indigo-500' : 'text-rose-500'}`}>{y.firstPassYield}%</span>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+
+        <div className="bg-white dark:bg-slate-800 p-8 rounded-[3rem] border border-gray-100 dark:border-slate-700 shadow-sm">
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-10">
+                <div>
+                    <h3 className="text-xl font-black text-slate-900 dark:text-white">Loss Pareto</h3>
+                    <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">Losses per reason code, largest first</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <select
+                      value={paretoProcess}
+                      onChange={e => setParetoProcess(e.target.value)}
+                      className="bg-gray-50 dark:bg-slate-900 px-3 py-2 rounded-xl border border-gray-100 dark:border-slate-700 text-[10px] font-black text-slate-600 dark:text-slate-200 outline-none uppercase tracking-widest cursor-pointer"
+                    >
+                      <option value="All">All Processes</option>
+                      {processMetrics.map(m => <option key={m.process} value={m.process}>{m.process}</option>)}
+                    </select>
+                    <select
+                      value={paretoKind}
+                      onChange={e => setParetoKind(e.target.value as LossKind | 'all')}
+                      className="bg-gray-50 dark:bg-slate-900 px-3 py-2 rounded-xl border border-gray-100 dark:border-slate-700 text-[10px] font-black text-slate-600 dark:text-slate-200 outline-none uppercase tracking-widest cursor-pointer"
+                    >
+                      <option value="all">All Losses</option>
+                      {LOSS_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+                    </select>
+                </div>
+            </div>
+
+            <div className="h-72 w-full">
+                {paretoData.length === 0 ? (
+                    <div className="h-full flex flex-col items-center justify-center gap-3 text-slate-400">
+                        <ShieldCheck className="w-10 h-10 text-emerald-500/40" />
+                        <p className="text-xs font-bold italic">No losses reported for this selection.</p>
+                    </div>
+                ) : (
+                    <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={paretoData} margin={{ top: 0, right: 0, left: -20, bottom: 0 }}>
+                            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke={isDarkMode ? '#334155' : '#f1f5f9'} />
+                            <XAxis
+                              dataKey="reason"
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fontSize: 10, fontWeight: 900, fill: '#94a3b8' }}
+                              dy={10}
+                            />
+                            <YAxis
+                              yAxisId="left"
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fontSize: 10, fontWeight: 900, fill: '#94a3b8' }}
+                            />
+                            <YAxis
+                              yAxisId="right"
+                              orientation="right"
+                              axisLine={false}
+                              tickLine={false}
+                              tick={{ fontSize: 10, fontWeight: 900, fill: '#94a3b8' }}
+                              domain={[0, 100]}
+                              unit="%"
+                            />
+                            <Tooltip
+                                cursor={{ fill: isDarkMode ? '#1e293b' : '#f8fafc', opacity: 0.4 }}
+                                contentStyle={{ backgroundColor: isDarkMode ? '#1e293b' : '#fff', borderRadius: '24px', border: 'none', boxShadow: '0 25px 50px -12px rgb(0 0 0 / 0.25)' }}
+                            />
+                            <Legend wrapperStyle={{ fontSize: '10px', fontWeight: 900, textTransform: 'uppercase' }} />
+                            <Bar yAxisId="left" dataKey="quantity" name="Quantity" fill="#f43f5e" radius={[8, 8, 0, 0]} barSize={32} />
+                            <Line yAxisId="right" type="monotone" dataKey="cumulativeShare" name="Cumulative %" stroke="#f59e0b" strokeWidth={3} dot={{ fill: '#f59e0b', r: 4, strokeWidth: 2, stroke: '#fff' }} />
+                        </ComposedChart>
+                    </ResponsiveContainer>
+                )}
+            </div>
+        </div>
+      </div>
     </div>
   );
 };
@@ -3,29 +3,42 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { StorageService } from '../../services/storageService';
 import { useAuth } from '../../contexts/AuthContext';
 import { useDashboard } from '../../contexts/DashboardContext';
-import { CATEGORIES, PROCESSES } from '../../constants';
 import { ProductionEntry } from '../../types';
-import { Trash2, Download, Calendar, List, Filter, XCircle, Palmtree, BarChart2 } from 'lucide-react';
+import { Trash2, Download, Calendar, List, Filter, XCircle, Palmtree, BarChart2, History } from 'lucide-react';
 import { getTodayISO } from '../../utils/dateUtils';
+import { ProductionHistoryDrawer } from '../modals/ProductionHistoryDrawer';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, 
   ResponsiveContainer, Cell, ComposedChart, Line, Area
 } from 'recharts';
 
 export const ProductionLog: React.FC = () => {
-  const { user, hasPermission } = useAuth();
+  const { user, can } = useAuth();
   const { refreshKey, triggerRefresh, isDarkMode } = useDashboard();
   const [data, setData] = useState<ProductionEntry[]>([]);
+  const [historyEntryId, setHistoryEntryId] = useState<string | null>(null);
   const offDays = useMemo(() => StorageService.getOffDays(), []);
   
   const [viewMode, setViewMode] = useState<'daily' | 'monthly'>('daily');
   const [dateRange, setDateRange] = useState({ start: '', end: '' });
   const [category, setCategory] = useState('All');
   const [processType, setProcessType] = useState('All');
+  // Filters list archived items too, since older entries still use them
+  const masterData = useMemo(() => StorageService.getMasterData(), [refreshKey]);
 
+  // Category, process and date range are answered by the store's indexes
   useEffect(() => {
-    setData(StorageService.getProductionData());
-  }, [refreshKey]);
+    let cancelled = false;
+    StorageService.queryProduction({
+      category: category === 'All' ? undefined : category,
+      process: processType === 'All' ? undefined : processType,
+      from: dateRange.start || undefined,
+      to: dateRange.end || undefined
+    })
+      .then(rows => { if (!cancelled) setData(rows); })
+      .catch(err => console.error('Failed to load production data:', err));
+    return () => { cancelled = true; };
+  }, [refreshKey, category, processType, dateRange]);
 
   const filteredData = useMemo(() => {
     return data.filter(d => {
@@ -64,16 +77,17 @@ export const ProductionLog: React.FC = () => {
 
   // Data for the Daily Chart (Top 10 products by Plan)
   const chartDailyData = useMemo(() => {
-    const products: Record<string, { plan: number, actual: number }> = {};
+    // Linked entries group by catalogue product, the rest by their free-text name
+    const products: Record<string, { name: string, plan: number, actual: number }> = {};
     filteredData.forEach(d => {
-        const key = d.productName;
-        if (!products[key]) products[key] = { plan: 0, actual: 0 };
+        const key = d.productId ? `product:${d.productId}` : `name:${d.productName}`;
+        if (!products[key]) products[key] = { name: d.productName, plan: 0, actual: 0 };
         products[key].plan += d.planQuantity;
         products[key].actual += d.actualQuantity;
     });
 
-    return Object.entries(products)
-        .map(([name, stats]) => ({
+    return Object.values(products)
+        .map(({ name, ...stats }) => ({
             name: name.length > 15 ? name.substring(0, 15) + '...' : name,
             fullName: name,
             plan: stats.plan,
@@ -83,18 +97,18 @@ export const ProductionLog: React.FC = () => {
         .slice(0, 10);
   }, [filteredData]);
 
-  const handleDelete = (id: string) => {
-    if (!window.confirm("Are you sure you want to PERMANENTLY delete this entry?")) return;
-    const { deletedItem } = StorageService.deleteProductionEntry(id);
+  const handleDelete = async (id: string) => {
+    if (!window.confirm("Move this entry to the trash?")) return;
+    const { deletedItem } = await StorageService.deleteProductionEntry(id, user!.id);
     if (deletedItem) {
         StorageService.addLog({
           userId: user!.id,
           userName: user!.name,
           action: 'DELETE_RECORD',
-          details: `Record deleted from reports: ${deletedItem.productName} (${deletedItem.date})`
+          details: `Record moved to trash from reports: ${deletedItem.productName} (${deletedItem.date})`
         });
         window.dispatchEvent(new CustomEvent('app-notification', { 
-            detail: { message: 'RECORD REMOVED SUCCESSFULLY', type: 'info' } 
+            detail: { message: 'RECORD MOVED TO TRASH', type: 'info' } 
         }));
     }
     triggerRefresh();
@@ -195,7 +209,7 @@ export const ProductionLog: React.FC = () => {
             className="px-4 py-2.5 text-sm bg-gray-50 dark:bg-slate-900 rounded-xl border dark:border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500 min-w-[160px] font-bold dark:text-white"
           >
             <option value="All">All Departments</option>
-            {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+            {masterData.categories.map(c => <option key={c.id} value={c.name}>{c.name}</option>)}
           </select>
         </div>
         <div className="space-y-2">
@@ -206,7 +220,7 @@ export const ProductionLog: React.FC = () => {
             className="px-4 py-2.5 text-sm bg-gray-50 dark:bg-slate-900 rounded-xl border dark:border-slate-700 outline-none focus:ring-2 focus:ring-indigo-500 min-w-[160px] font-bold dark:text-white"
           >
             <option value="All">All Processes</option>
-            {PROCESSES.map(p => <option key={p} value={p}>{p}</option>)}
+            {masterData.processes.map(p => <option key={p.id} value={p.name}>{p.name}</option>)}
           </select>
         </div>
         <button 
@@ -291,7 +305,7 @@ export const ProductionLog: React.FC = () => {
                     <th className="px-8 py-5 text-right">Actual</th>
                     <th className="px-8 py-5 text-center">Unit</th>
                     <th className="px-8 py-5 text-right">Eff. %</th>
-                    {hasPermission(['admin', 'manager']) && <th className="px-8 py-5 text-center">Actions</th>}
+                    {user && <th className="px-8 py-5 text-center">Actions</th>}
                   </tr>
               ) : (
                   <tr>
@@ -346,11 +360,16 @@ export const ProductionLog: React.FC = () => {
                                 {eff}%
                             </div>
                         </td>
-                        {hasPermission(['admin', 'manager']) && (
-                            <td className="px-8 py-6 text-center">
-                                <button onClick={() => handleDelete(entry.id)} className="text-slate-300 hover:text-rose-500 p-2.5 rounded-xl hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-all">
-                                  <Trash2 className="w-4 h-4" />
+                        {user && (
+                            <td className="px-8 py-6 text-center whitespace-nowrap">
+                                <button onClick={() => setHistoryEntryId(entry.id)} title="Revision history" className="text-slate-300 hover:text-indigo-500 p-2.5 rounded-xl hover:bg-indigo-50 dark:hover:bg-indigo-900/20 transition-all">
+                                  <History className="w-4 h-4" />
                                 </button>
+                                {can('production.delete') && (
+                                  <button onClick={() => handleDelete(entry.id)} className="text-slate-300 hover:text-rose-500 p-2.5 rounded-xl hover:bg-rose-50 dark:hover:bg-rose-900/20 transition-all">
+                                    <Trash2 className="w-4 h-4" />
+                                  </button>
+                                )}
                             </td>
                         )}
                       </tr>
@@ -378,6 +397,8 @@ export const ProductionLog: React.FC = () => {
           </table>
         </div>
       </div>
+
+      {historyEntryId && <ProductionHistoryDrawer entryId={historyEntryId} onClose={() => setHistoryEntryId(null)} />}
     </div>
   );
 };
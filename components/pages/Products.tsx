@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { Product, UnmappedProductName } from '../../types';
+import { ProductModal } from '../modals/ProductModal';
+import { Package, Plus, Pencil, Archive, ArchiveRestore, Link2 } from 'lucide-react';
+
+/**
+ * The product catalogue, plus a tool that links production entries with
+ * free-text product names to catalogue products.
+ */
+export const Products: React.FC = () => {
+  const { user } = useAuth();
+  const { refreshKey, triggerRefresh } = useDashboard();
+  const products = useMemo(() => StorageService.getProducts(), [refreshKey]);
+  const [editing, setEditing] = useState<Product | null | undefined>(undefined);
+  const [unmapped, setUnmapped] = useState<UnmappedProductName[]>([]);
+  const [choices, setChoices] = useState<Record<string, string>>({});
+  const [isMapping, setIsMapping] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    StorageService.getUnmappedProductNames()
+      .then(names => {
+        if (cancelled) return;
+        setUnmapped(names);
+        setChoices(Object.fromEntries(names.filter(n => n.suggestion).map(n => [n.name, n.suggestion!.id])));
+      })
+      .catch(err => console.error('Failed to load product names:', err));
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const handleClosed = (saved?: Product) => {
+    setEditing(undefined);
+    if (!saved) return;
+    triggerRefresh();
+    window.dispatchEvent(new CustomEvent('app-notification', {
+      detail: { message: `PRODUCT SAVED: ${saved.name.toUpperCase()}`, type: 'success' }
+    }));
+  };
+
+  const handleArchive = (product: Product) => {
+    const archive = !product.archived;
+    try {
+      StorageService.setProductArchived(product.id, archive);
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: archive ? 'ARCHIVE_PRODUCT' : 'UNARCHIVE_PRODUCT',
+        details: `${archive ? 'Archived' : 'Reactivated'} product ${product.sku} "${product.name}"`
+      });
+      triggerRefresh();
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: (err?.message || 'Action failed').toUpperCase(), type: 'info' }
+      }));
+    }
+  };
+
+  const handleMap = async () => {
+    const mappings = unmapped.filter(n => choices[n.name]).map(n => ({ name: n.name, productId: choices[n.name] }));
+    if (mappings.length === 0) return;
+    if (!window.confirm(`Link the entries of ${mappings.length} product name${mappings.length === 1 ? '' : 's'} to the chosen catalogue products? Their names are replaced by the product names.`)) return;
+    setIsMapping(true);
+    try {
+      const count = await StorageService.mapProductNames(mappings, user!.id);
+      const byId = new Map(products.map(p => [p.id, p]));
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: 'MAP_PRODUCT_NAMES',
+        details: `Linked ${count} production entries to the catalogue: ${mappings.map(m => `"${m.name}" → ${byId.get(m.productId)?.sku}`).join(', ')}`
+      });
+      triggerRefresh();
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: `${count} ENTRIES LINKED TO THE CATALOGUE`, type: 'success' }
+      }));
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: (err?.message || 'Mapping failed').toUpperCase(), type: 'info' }
+      }));
+    } finally {
+      setIsMapping(false);
+    }
+  };
+
+  const selectedCount = unmapped.filter(n => choices[n.name]).length;
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800 dark:text-white flex items-center gap-3">
+            <Package className="w-6 h-6 text-indigo-500" />
+            Product Catalogue
+          </h2>
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">{products.filter(p => !p.archived).length} active products</p>
+        </div>
+        <button onClick={() => setEditing(null)} className="flex items-center gap-2 bg-indigo-600 text-white px-5 py-3 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition">
+          <Plus className="w-4 h-4" /> New Product
+        </button>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 border-b border-gray-100 dark:border-slate-700">
+            <tr>
+              <th className="px-6 py-3">SKU</th>
+              <th className="px-6 py-3">Product</th>
+              <th className="px-6 py-3">Category</th>
+              <th className="px-6 py-3">Unit</th>
+              <th className="px-6 py-3">Route</th>
+              <th className="px-6 py-3 text-right">Action</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+            {products.length === 0 ? (
+              <tr><td colSpan={6} className="p-12 text-center text-xs text-slate-400 font-bold italic">No products in the catalogue yet.</td></tr>
+            ) : products.map(p => (
+              <tr key={p.id} className={p.archived ? 'opacity-50' : ''}>
+                <td className="px-6 py-3 font-mono text-xs font-bold text-indigo-600 dark:text-indigo-400">{p.sku}</td>
+                <td className="px-6 py-3">
+                  <span className="font-black text-slate-800 dark:text-white">{p.name}</span>
+                  {p.packSize && <span className="ml-2 text-[10px] font-bold text-slate-400">{p.packSize}</span>}
+                  {p.archived && <span className="ml-2 text-[10px] font-black uppercase text-slate-400">Archived</span>}
+                </td>
+                <td className="px-6 py-3 font-bold text-slate-600 dark:text-slate-300">{p.category}</td>
+                <td className="px-6 py-3 font-bold text-slate-600 dark:text-slate-300">{p.defaultUnit}</td>
+                <td className="px-6 py-3 text-xs font-bold text-slate-500">{p.route.join(' → ')}</td>
+                <td className="px-6 py-3">
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => setEditing(p)} className="p-2 rounded-lg text-indigo-500 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 transition" title="Edit">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleArchive(p)} className="p-2 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 transition" title={p.archived ? 'Reactivate' : 'Archive'}>
+                      {p.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-100 dark:border-slate-700 flex items-center justify-between gap-4">
+          <div>
+            <h3 className="text-sm font-black text-slate-800 dark:text-white flex items-center gap-2">
+              <Link2 className="w-4 h-4 text-indigo-500" /> Map Free-Text Names
+            </h3>
+            <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mt-1">Entries whose product name is not linked to the catalogue</p>
+          </div>
+          <button onClick={handleMap} disabled={isMapping || selectedCount === 0} className="flex items-center gap-1.5 px-4 py-2 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition disabled:opacity-50">
+            {isMapping ? 'Linking...' : `Link ${selectedCount} Name${selectedCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+        <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+          {unmapped.length === 0 ? (
+            <li className="p-6 text-center text-xs text-slate-400 font-bold italic">Every entry is linked to a catalogue product.</li>
+          ) : unmapped.map(n => (
+            <li key={n.name} className="px-6 py-3 flex items-center justify-between gap-6">
+              <div>
+                <p className="text-sm font-black text-slate-800 dark:text-white">{n.name}</p>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                  {n.count} {n.count === 1 ? 'entry' : 'entries'}{n.suggestion ? ` · Suggested: ${n.suggestion.name}` : ''}
+                </p>
+              </div>
+              <select
+                value={choices[n.name] || ''}
+                onChange={e => setChoices({ ...choices, [n.name]: e.target.value })}
+                className="px-3 py-2 text-xs font-bold rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-900 text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500 min-w-[220px]"
+              >
+                <option value="">Leave unlinked</option>
+                {products.filter(p => !p.archived).map(p => <option key={p.id} value={p.id}>{p.sku} · {p.name}</option>)}
+              </select>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {editing !== undefined && <ProductModal product={editing} onClose={handleClosed} />}
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { StorageService } from '../../services/storageService';
+import { RecoveryService, RecoveryFile } from '../../services/recoveryService';
+import { ShieldCheck, User as UserIcon, Mail, Lock, Download, Database, RefreshCw, AlertCircle, ArrowRight } from 'lucide-react';
+
+interface SetupProps {
+  recoveryFile: RecoveryFile | null;
+  onCreated: (file: RecoveryFile) => void;
+  onFinish: () => void;
+}
+
+/**
+ * First-run setup. Shown instead of the app while no administrator can sign in:
+ * creates the first admin with a chosen password, then hands out the recovery file.
+ */
+export const Setup: React.FC<SetupProps> = ({ recoveryFile, onCreated, onFinish }) => {
+  const { completeSetup, refreshUser } = useAuth();
+  const [profile, setProfile] = useState({ name: '', username: '', email: '' });
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [hasDownloaded, setHasDownloaded] = useState(false);
+  const [sheetUrl, setSheetUrl] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const labelClasses = "block text-[10px] font-extrabold uppercase text-slate-400 tracking-[0.15em] mb-2 ml-1";
+  const inputClasses = "w-full pl-10 pr-4 py-3 rounded-xl bg-white text-slate-900 font-bold border border-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none transition shadow-sm";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (password !== confirm) {
+      setError('Passwords do not match');
+      return;
+    }
+    if (password.length < 8) {
+      setError('Administrator password must be at least 8 characters');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      onCreated(await completeSetup({ ...profile, username: profile.username.trim() }, password));
+    } catch (err: any) {
+      setError(err.message || 'Setup failed. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Devices joining an existing installation pull their accounts from the sheet instead
+  const handleConnectSheets = async () => {
+    if (!sheetUrl.startsWith('https://script.google.com')) {
+      setError('Enter a valid Google Apps Script URL');
+      return;
+    }
+    setError('');
+    setIsSyncing(true);
+    localStorage.setItem('halagel_sheets_api_url', sheetUrl);
+    try {
+      await StorageService.syncWithSheets();
+      refreshUser();
+      if (StorageService.needsBootstrap()) {
+        setError('No administrator found in the connected database. Create one below.');
+      }
+    } catch {
+      setError('SYNC FAILED - CHECK CONNECTION');
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  if (recoveryFile) {
+    return (
+      <div className="min-h-screen bg-slate-100 dark:bg-slate-900 flex items-center justify-center p-4">
+        <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-[2.5rem] shadow-2xl p-10 text-center">
+          <div className="inline-flex p-3.5 bg-emerald-50 dark:bg-emerald-900/30 rounded-2xl mb-4">
+            <ShieldCheck className="w-8 h-8 text-emerald-500" />
+          </div>
+          <h2 className="text-2xl font-black text-slate-800 dark:text-white">Save Your Recovery Code</h2>
+          <p className="text-xs text-slate-400 font-bold mt-2">
+            This is the only way back in if the administrator password is forgotten. It is shown once.
+          </p>
+          <div className="my-6 p-4 bg-slate-50 dark:bg-slate-900 rounded-2xl border border-slate-200 dark:border-slate-700 font-mono text-lg font-black tracking-wider text-indigo-600 dark:text-indigo-400 break-all">
+            {recoveryFile.code}
+          </div>
+          <button
+            onClick={() => { RecoveryService.download(recoveryFile); setHasDownloaded(true); }}
+            className="w-full flex items-center justify-center gap-2 bg-indigo-600 text-white py-3.5 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition"
+          >
+            <Download className="w-4 h-4" /> Download Recovery File
+          </button>
+          <button
+            onClick={onFinish}
+            disabled={!hasDownloaded}
+            className="w-full mt-3 flex items-center justify-center gap-2 bg-slate-900 dark:bg-slate-700 text-white py-3.5 rounded-xl font-black text-xs uppercase tracking-widest hover:opacity-90 transition disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Continue to Dashboard <ArrowRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-100 dark:bg-slate-900 flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-slate-800 w-full max-w-md rounded-[2.5rem] shadow-2xl p-10">
+        <div className="mb-8 text-center">
+          <div className="text-2xl font-black tracking-tight text-slate-800 dark:text-white">
+            HALA<span className="text-emerald-500">GEL</span>
+          </div>
+          <p className="text-[11px] font-black text-slate-400 uppercase tracking-[0.2em] mt-1">First-Time Setup · Create Administrator</p>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-4 bg-rose-50 dark:bg-rose-900/20 border border-rose-100 dark:border-rose-800 rounded-2xl flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 text-rose-500 shrink-0" />
+            <p className="text-xs font-bold text-rose-600 dark:text-rose-400">{error}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className={labelClasses}>Full Name</label>
+            <div className="relative">
+              <UserIcon className="absolute left-3 top-3.5 w-4 h-4 text-slate-400" />
+              <input type="text" required className={inputClasses} value={profile.name} onChange={e => setProfile({ ...profile, name: e.target.value })} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClasses}>Username</label>
+            <div className="relative">
+              <UserIcon className="absolute left-3 top-3.5 w-4 h-4 text-slate-400" />
+              <input type="text" required className={inputClasses} value={profile.username} onChange={e => setProfile({ ...profile, username: e.target.value })} />
+            </div>
+          </div>
+          <div>
+            <label className={labelClasses}>Email</label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-3.5 w-4 h-4 text-slate-400" />
+              <input type="email" required className={inputClasses} value={profile.email} onChange={e => setProfile({ ...profile, email: e.target.value })} />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClasses}>Password</label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-3.5 w-4 h-4 text-slate-400" />
+                <input type="password" required className={inputClasses} value={password} onChange={e => setPassword(e.target.value)} />
+              </div>
+            </div>
+            <div>
+              <label className={labelClasses}>Confirm</label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-3.5 w-4 h-4 text-slate-400" />
+                <input type="password" required className={inputClasses} value={confirm} onChange={e => setConfirm(e.target.value)} />
+              </div>
+            </div>
+          </div>
+          <button type="submit" disabled={isSubmitting} className="w-full bg-slate-900 dark:bg-indigo-600 text-white py-3.5 rounded-xl font-black hover:opacity-90 transition uppercase tracking-widest text-xs disabled:opacity-50">
+            {isSubmitting ? 'Creating...' : 'Create Administrator'}
+          </button>
+        </form>
+
+        <div className="mt-8 pt-6 border-t border-slate-100 dark:border-slate-700">
+          <p className={labelClasses}>Joining an existing installation?</p>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Database className="absolute left-3 top-3.5 w-4 h-4 text-slate-400" />
+              <input type="text" placeholder="Google Apps Script URL" className={`${inputClasses} text-[11px] font-mono`} value={sheetUrl} onChange={e => setSheetUrl(e.target.value)} />
+            </div>
+            <button onClick={handleConnectSheets} disabled={isSyncing} className="px-4 rounded-xl bg-indigo-600 text-white hover:bg-indigo-700 transition disabled:opacity-50">
+              <RefreshCw className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
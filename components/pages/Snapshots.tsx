@@ -0,0 +1,181 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { BackupService } from '../../services/backupService';
+import { BackupRestoreModal } from '../modals/BackupRestoreModal';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { SnapshotReason, SnapshotSummary } from '../../types';
+import { SNAPSHOT_RETENTION } from '../../constants';
+import { DatabaseBackup, RotateCcw, Trash2, Archive, Download, ArchiveRestore } from 'lucide-react';
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  daily: 'Daily',
+  'pre-sync': 'Before Sync',
+  'pre-rollback': 'Before Rollback'
+};
+
+const REASON_STYLES: Record<SnapshotReason, string> = {
+  daily: 'bg-indigo-50 dark:bg-indigo-900/40 text-indigo-600 dark:text-indigo-400 border-indigo-100 dark:border-indigo-800',
+  'pre-sync': 'bg-amber-50 dark:bg-amber-900/30 text-amber-600 dark:text-amber-400 border-amber-200 dark:border-amber-800',
+  'pre-rollback': 'bg-slate-50 dark:bg-slate-900 text-slate-500 border-slate-200 dark:border-slate-700'
+};
+
+/**
+ * Full backup files to download or restore, and the snapshots this device
+ * took on its own, daily and before sync pulls that changed local data.
+ * Rolling back replaces all data with the snapshot.
+ */
+export const Snapshots: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const { refreshKey, triggerRefresh } = useDashboard();
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    StorageService.getSnapshots()
+      .then(list => { if (!cancelled) setSnapshots(list); })
+      .catch(err => console.error('Failed to load snapshots:', err));
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const retention = useMemo(() =>
+    (Object.keys(SNAPSHOT_RETENTION) as SnapshotReason[]).map(r => `${SNAPSHOT_RETENTION[r]} ${REASON_LABELS[r].toLowerCase()}`).join(' · '), []);
+
+  const handleRollback = async (snapshot: SnapshotSummary) => {
+    if (!window.confirm(`Roll back ALL data to the snapshot of ${snapshot.createdAt}? Changes made since then will be replaced. The current data is snapshotted first.`)) return;
+    setBusyId(snapshot.id);
+    try {
+      await StorageService.rollbackToSnapshot(snapshot.id, user!.id);
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: 'SNAPSHOT_ROLLBACK',
+        details: `Rolled back to ${REASON_LABELS[snapshot.reason].toLowerCase()} snapshot of ${snapshot.createdAt} (${snapshot.counts.production} production records, ${snapshot.counts.offDays} holidays, ${snapshot.counts.users} users)`
+      });
+      triggerRefresh();
+      refreshUser();
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: `ROLLED BACK TO ${snapshot.createdAt}`, type: 'success' }
+      }));
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: (err?.message || 'Rollback failed').toUpperCase(), type: 'info' }
+      }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownloadBackup = async () => {
+    try {
+      const archive = await BackupService.createArchive(user!);
+      BackupService.download(archive);
+      const { data } = archive;
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: 'BACKUP_EXPORT',
+        details: `Downloaded full backup: ${data.users.length} users, ${data.production.length} production records, ${data.offDays.length} holidays, ${data.logs.length} log entries`
+      });
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: 'BACKUP DOWNLOADED', type: 'success' }
+      }));
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: (err?.message || 'Backup failed').toUpperCase(), type: 'info' }
+      }));
+    }
+  };
+
+  // A restore may have replaced users, settings and the signed-in account's role
+  const handleRestoreClosed = () => {
+    setIsRestoreOpen(false);
+    triggerRefresh();
+    refreshUser();
+  };
+
+  const handleDelete = async (snapshot: SnapshotSummary) => {
+    if (!window.confirm(`Delete the snapshot of ${snapshot.createdAt}?`)) return;
+    setBusyId(snapshot.id);
+    try {
+      await StorageService.deleteSnapshot(snapshot.id);
+      setSnapshots(list => list.filter(s => s.id !== snapshot.id));
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: (err?.message || 'Delete failed').toUpperCase(), type: 'info' }
+      }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800 dark:text-white flex items-center gap-3">
+            <DatabaseBackup className="w-6 h-6 text-indigo-500" />
+            Snapshots
+          </h2>
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">
+            Kept on this device · {retention}
+          </p>
+        </div>
+        <div className="px-3 py-1 bg-indigo-50 dark:bg-indigo-900/30 rounded-full border border-indigo-100 dark:border-indigo-800 text-[10px] font-black text-indigo-600 dark:text-indigo-400 uppercase tracking-tighter">
+          {snapshots.length} Snapshots
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 p-6 rounded-3xl border border-indigo-100 dark:border-indigo-900/30 shadow-sm flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Archive className="w-6 h-6 text-indigo-500" />
+          <div>
+            <h3 className="text-lg font-black text-slate-800 dark:text-white leading-none">Backup & Restore</h3>
+            <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Users, production, holidays, logs and settings in one file</p>
+          </div>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={handleDownloadBackup} className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition flex items-center justify-center gap-2">
+            <Download className="w-4 h-4" /> Download Backup
+          </button>
+          <button onClick={() => setIsRestoreOpen(true)} className="bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-slate-200 dark:hover:bg-slate-600 transition flex items-center justify-center gap-2">
+            <ArchiveRestore className="w-4 h-4" /> Restore
+          </button>
+        </div>
+      </div>
+      {isRestoreOpen && <BackupRestoreModal onClose={handleRestoreClosed} />}
+
+      <div className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+        <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+          {snapshots.length === 0 ? (
+            <li className="p-12 text-center text-xs text-slate-400 font-bold italic">No snapshots taken yet.</li>
+          ) : snapshots.map(snapshot => (
+            <li key={snapshot.id} className="px-6 py-4 flex items-center justify-between gap-6">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <span className="text-sm font-black text-slate-800 dark:text-white">{snapshot.createdAt}</span>
+                  <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded border tracking-tighter ${REASON_STYLES[snapshot.reason]}`}>
+                    {REASON_LABELS[snapshot.reason]}
+                  </span>
+                </div>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                  {snapshot.counts.production} production · {snapshot.counts.offDays} holidays · {snapshot.counts.users} users · {snapshot.counts.logs} logs
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => handleRollback(snapshot)} disabled={busyId !== null} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition disabled:opacity-50">
+                  <RotateCcw className="w-3.5 h-3.5" /> Roll Back
+                </button>
+                <button onClick={() => handleDelete(snapshot)} disabled={busyId !== null} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-rose-50 text-rose-600 border border-rose-200 text-[10px] font-black uppercase tracking-widest hover:bg-rose-100 transition disabled:opacity-40">
+                  <Trash2 className="w-3.5 h-3.5" /> Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { GoogleSheetsService } from '../../services/googleSheetsService';
+import { useAuth } from '../../contexts/AuthContext';
+import { STORAGE_BACKENDS } from '../../constants';
+import { SyncPolicy, StorageBackendConfig } from '../../types';
+import { Database, ShieldCheck, Check, HardDrive, Settings } from 'lucide-react';
+
+/**
+ * Where this device keeps and syncs its data: the Google Sheets bridge, the
+ * conflict policy and the storage backend.
+ */
+export const StorageSettings: React.FC = () => {
+  const { user: currentUser } = useAuth();
+
+  // Use the service to get the active URL (either local or hardcoded)
+  // Fix: Ensure the initial state is always a string to avoid 'string | null' type errors
+  const [sheetUrl, setSheetUrl] = useState<string>(
+    localStorage.getItem('halagel_sheets_api_url') || 
+    GoogleSheetsService.getActiveUrl() || 
+    ''
+  );
+  
+  const [backendConfig, setBackendConfig] = useState<StorageBackendConfig>(StorageService.getBackendConfig());
+  const [activeBackend, setActiveBackend] = useState(StorageService.getBackendConfig().kind);
+  const [isSwitchingBackend, setIsSwitchingBackend] = useState(false);
+  const [syncPolicy, setSyncPolicy] = useState<SyncPolicy>(StorageService.getSyncPolicy());
+
+  const handleSaveSheetUrl = () => {
+    // Fix: Ensure sheetUrl is a string before saving
+    localStorage.setItem('halagel_sheets_api_url', sheetUrl || '');
+    window.dispatchEvent(new CustomEvent('app-notification', { 
+        detail: { message: 'DATABASE CONFIGURATION UPDATED', type: 'success' } 
+    }));
+  };
+
+  const handleSwitchBackend = async () => {
+    const target = STORAGE_BACKENDS.find(b => b.kind === backendConfig.kind);
+    if (!target) return;
+    if (backendConfig.kind === 'rest' && !/^https?:\/\//.test(backendConfig.restUrl || '')) {
+      window.dispatchEvent(new CustomEvent('app-notification', { 
+          detail: { message: 'ENTER A VALID REST API URL', type: 'info' } 
+      }));
+      return;
+    }
+    if (!window.confirm(`Switch storage to ${target.label}? All data on this device will be copied there first.`)) return;
+    setIsSwitchingBackend(true);
+    try {
+      await StorageService.switchBackend(backendConfig);
+      setActiveBackend(backendConfig.kind);
+      StorageService.addLog({
+        userId: currentUser!.id,
+        userName: currentUser!.name,
+        action: 'SWITCH_STORAGE_BACKEND',
+        details: `Storage backend changed to ${target.label}${backendConfig.kind === 'rest' ? ` (${backendConfig.restUrl})` : ''}`
+      });
+      window.dispatchEvent(new CustomEvent('app-notification', { 
+          detail: { message: `STORAGE BACKEND: ${target.label.toUpperCase()}`, type: 'success' } 
+      }));
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', { 
+          detail: { message: `SWITCH FAILED - ${(err.message || 'BACKEND UNREACHABLE').toUpperCase()}`, type: 'info' } 
+      }));
+    } finally {
+      setIsSwitchingBackend(false);
+    }
+  };
+
+  const handleSyncPolicyChange = (policy: SyncPolicy) => {
+    StorageService.saveSyncPolicy(policy);
+    setSyncPolicy(policy);
+    window.dispatchEvent(new CustomEvent('app-notification', { 
+        detail: { message: `CONFLICT HANDLING: ${policy === 'ask' ? 'ASK ME' : 'LAST WRITER WINS'}`, type: 'success' } 
+    }));
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-8">
+        <div>
+            <h2 className="text-2xl font-black text-slate-800 dark:text-white flex items-center gap-3">
+                <Settings className="w-6 h-6 text-indigo-500" />
+                Storage & Sync
+            </h2>
+            <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Database connection and storage backend</p>
+        </div>
+
+        <div className="bg-white dark:bg-slate-800 p-8 rounded-3xl border border-indigo-100 dark:border-indigo-900/30 shadow-sm">
+            <div className="flex items-center justify-between mb-6">
+                <div className="flex items-center gap-3">
+                    <Database className="w-6 h-6 text-indigo-500" />
+                    <div>
+                        <h3 className="text-lg font-black text-slate-800 dark:text-white leading-none">Database Connection</h3>
+                        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Status: {localStorage.getItem('halagel_sheets_api_url') ? 'Manual Override' : 'System Default (Active)'}</p>
+                    </div>
+                </div>
+                <div className="flex items-center gap-2 px-3 py-1 bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-100 dark:border-emerald-800 rounded-full">
+                    <Check className="w-3 h-3 text-emerald-600" />
+                    <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">Live Sync Enabled</span>
+                </div>
+            </div>
+            
+            <div className="flex flex-col md:flex-row gap-3">
+                <div className="flex-1 relative">
+                  <input 
+                      type="text"
+                      placeholder="Google Apps Script URL"
+                      className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 p-3 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-[11px] font-mono text-slate-600 dark:text-slate-300"
+                      value={sheetUrl || ''}
+                      onChange={(e) => setSheetUrl(e.target.value)}
+                  />
+                </div>
+                <button onClick={handleSaveSheetUrl} className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition flex items-center justify-center gap-2 shadow-lg shadow-indigo-500/20">
+                    <ShieldCheck className="w-4 h-4" /> Save Configuration
+                </button>
+            </div>
+            <p className="mt-4 text-[10px] text-slate-400 font-medium italic">
+              Note: This URL links your dashboard to the Google Sheets "Database Bridge". Do not change unless moving to a new spreadsheet.
+            </p>
+
+            <div className="mt-6 pt-6 border-t border-slate-100 dark:border-slate-700 flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1">
+                    <p className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Sync Conflict Handling</p>
+                    <p className="text-[10px] text-slate-400 font-medium mt-1">When the same field of a record is changed on two devices between syncs.</p>
+                </div>
+                <select 
+                    value={syncPolicy}
+                    onChange={(e) => handleSyncPolicyChange(e.target.value as SyncPolicy)}
+                    className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 p-3 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-xs font-bold text-slate-700 dark:text-white"
+                >
+                    <option value="last-writer-wins">Last writer wins (newest edit kept)</option>
+                    <option value="ask">Ask me to choose</option>
+                </select>
+            </div>
+        </div>
+
+        <div className="bg-white dark:bg-slate-800 p-8 rounded-3xl border border-indigo-100 dark:border-indigo-900/30 shadow-sm">
+            <div className="flex items-center gap-3 mb-6">
+                <HardDrive className="w-6 h-6 text-indigo-500" />
+                <div>
+                    <h3 className="text-lg font-black text-slate-800 dark:text-white leading-none">Storage Backend</h3>
+                    <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">
+                        Active: {STORAGE_BACKENDS.find(b => b.kind === activeBackend)?.label || activeBackend}
+                    </p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                {STORAGE_BACKENDS.map(b => (
+                    <button 
+                        key={b.kind}
+                        onClick={() => setBackendConfig({ ...backendConfig, kind: b.kind })}
+                        className={`text-left p-4 rounded-2xl border transition ${
+                            backendConfig.kind === b.kind 
+                              ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20' 
+                              : 'border-slate-200 dark:border-slate-700 hover:border-indigo-300'
+                        }`}
+                    >
+                        <p className="text-xs font-black text-slate-700 dark:text-white">{b.label}</p>
+                        <p className="text-[10px] text-slate-400 font-medium mt-1">{b.description}</p>
+                    </button>
+                ))}
+            </div>
+
+            {backendConfig.kind === 'rest' && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-4">
+                    <input 
+                        type="text"
+                        placeholder="https://erp.example.com/api"
+                        className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 p-3 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-[11px] font-mono text-slate-600 dark:text-slate-300"
+                        value={backendConfig.restUrl || ''}
+                        onChange={(e) => setBackendConfig({ ...backendConfig, restUrl: e.target.value })}
+                    />
+                    <input 
+                        type="password"
+                        placeholder="API token (optional)"
+                        className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 p-3 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-[11px] font-mono text-slate-600 dark:text-slate-300"
+                        value={backendConfig.restToken || ''}
+                        onChange={(e) => setBackendConfig({ ...backendConfig, restToken: e.target.value })}
+                    />
+                </div>
+            )}
+
+            <div className="mt-4 flex flex-col md:flex-row md:items-center gap-3">
+                <p className="flex-1 text-[10px] text-slate-400 font-medium italic">
+                  Note: Switching copies everything on this device into the new backend before it takes over. Google Sheets is merged instead of overwritten.
+                </p>
+                <button onClick={handleSwitchBackend} disabled={isSwitchingBackend} className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition flex items-center justify-center gap-2 disabled:opacity-50">
+                    <ShieldCheck className="w-4 h-4" /> {isSwitchingBackend ? 'Copying Data...' : 'Switch Backend'}
+                </button>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -40,7 +40,7 @@ export const SystemOverview: React.FC = () => {
   ];
 
   const techHighlights = [
-    { icon: <Lock className="w-5 h-5" />, label: "Security", val: "SHA-256 Hashing Ready" },
+    { icon: <Lock className="w-5 h-5" />, label: "Security", val: "PBKDF2 / SHA-256 Hashing" },
     { icon: <Globe className="w-5 h-5" />, label: "Mobility", val: "PWA & Mobile Ready" },
     { icon: <Server className="w-5 h-5" />, label: "Storage", val: "Hybrid Cloud/Local" },
     { icon: <Layers className="w-5 h-5" />, label: "Stack", val: "React 19 + Vite" }
@@ -0,0 +1,133 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { TrashCollection, TrashItem } from '../../types';
+import { TRASH_RETENTION_DAYS } from '../../constants';
+import { getTodayISO } from '../../utils/dateUtils';
+import { Trash2, RotateCcw, Flame, ClipboardList, CalendarX, Users, TimerOff } from 'lucide-react';
+
+const SECTIONS: { collection: TrashCollection; title: string; icon: React.ReactNode }[] = [
+  { collection: 'production', title: 'Production Records', icon: <ClipboardList className="w-4 h-4 text-indigo-500" /> },
+  { collection: 'offDays', title: 'Public Holidays', icon: <CalendarX className="w-4 h-4 text-rose-500" /> },
+  { collection: 'downtime', title: 'Downtime', icon: <TimerOff className="w-4 h-4 text-amber-500" /> },
+  { collection: 'users', title: 'User Accounts', icon: <Users className="w-4 h-4 text-emerald-500" /> }
+];
+
+const ITEM_NAMES: Record<TrashCollection, string> = {
+  production: 'production record',
+  offDays: 'holiday',
+  downtime: 'downtime entry',
+  users: 'user account'
+};
+
+/**
+ * Deleted production entries, holidays, downtime and users. Managers
+ * restore them (user accounts only with user management rights); admins may
+ * purge them once the retention period is over.
+ */
+export const Trash: React.FC = () => {
+  const { user, can } = useAuth();
+  const { refreshKey, triggerRefresh } = useDashboard();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const today = getTodayISO();
+
+  useEffect(() => {
+    let cancelled = false;
+    StorageService.getTrash()
+      .then(trash => { if (!cancelled) setItems(trash); })
+      .catch(err => console.error('Failed to load trash:', err));
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const userNames = useMemo(() => new Map(StorageService.getUsers().map(u => [String(u.id), u.name])), [refreshKey]);
+
+  const run = async (item: TrashItem, action: 'restore' | 'purge') => {
+    if (action === 'purge' && !window.confirm(`Permanently purge ${item.label}? This cannot be undone.`)) return;
+    setBusyId(`${item.collection}-${item.id}`);
+    try {
+      if (action === 'restore') await StorageService.restoreFromTrash(item.collection, item.id, user!.id);
+      else await StorageService.purgeFromTrash(item.collection, item.id);
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: action === 'restore' ? 'RESTORE_RECORD' : 'PURGE_RECORD',
+        details: `${action === 'restore' ? 'Restored' : 'Permanently purged'} ${ITEM_NAMES[item.collection]} from trash: ${item.label}`
+      });
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: action === 'restore' ? `RESTORED: ${item.label.toUpperCase()}` : 'RECORD PURGED PERMANENTLY', type: action === 'restore' ? 'success' : 'info' }
+      }));
+      triggerRefresh();
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: (err?.message || 'Action failed').toUpperCase(), type: 'info' }
+      }));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800 dark:text-white flex items-center gap-3">
+            <Trash2 className="w-6 h-6 text-indigo-500" />
+            Trash
+          </h2>
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">
+            Deleted records · purge allowed after {TRASH_RETENTION_DAYS} days
+          </p>
+        </div>
+        <div className="px-3 py-1 bg-indigo-50 dark:bg-indigo-900/30 rounded-full border border-indigo-100 dark:border-indigo-800 text-[10px] font-black text-indigo-600 dark:text-indigo-400 uppercase tracking-tighter">
+          {items.length} In Trash
+        </div>
+      </div>
+
+      {SECTIONS.map(section => {
+        const rows = items.filter(i => i.collection === section.collection);
+        return (
+          <div key={section.collection} className="bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-gray-100 dark:border-slate-700 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-100 dark:border-slate-700 flex items-center gap-2">
+              {section.icon}
+              <h3 className="text-sm font-black text-slate-800 dark:text-white">{section.title}</h3>
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">({rows.length})</span>
+            </div>
+            <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+              {rows.length === 0 ? (
+                <li className="p-6 text-center text-xs text-slate-400 font-bold italic">Nothing deleted.</li>
+              ) : rows.map(item => {
+                const key = `${item.collection}-${item.id}`;
+                const purgeable = today >= item.purgeableFrom;
+                return (
+                  <li key={key} className="px-6 py-4 flex items-center justify-between gap-6">
+                    <div>
+                      <p className="text-sm font-black text-slate-800 dark:text-white">{item.label}</p>
+                      <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                        Deleted {item.deletedAt} by {userNames.get(item.deletedBy) || item.deletedBy || 'Unknown'}
+                        {!purgeable && ` · Purge from ${item.purgeableFrom}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 shrink-0">
+                      {(item.collection !== 'users' || can('users.manage')) && (
+                        <button onClick={() => run(item, 'restore')} disabled={busyId === key} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-indigo-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-indigo-700 transition disabled:opacity-50">
+                          <RotateCcw className="w-3.5 h-3.5" /> Restore
+                        </button>
+                      )}
+                      {can('trash.purge') && (
+                        <button onClick={() => run(item, 'purge')} disabled={busyId === key || !purgeable} title={purgeable ? undefined : `Available from ${item.purgeableFrom}`} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-rose-50 text-rose-600 border border-rose-200 text-[10px] font-black uppercase tracking-widest hover:bg-rose-100 transition disabled:opacity-40">
+                          <Flame className="w-3.5 h-3.5" /> Purge
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
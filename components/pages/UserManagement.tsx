@@ -1,23 +1,22 @@
 
 import React, { useState } from 'react';
 import { StorageService } from '../../services/storageService';
-import { GoogleSheetsService } from '../../services/googleSheetsService';
+import { PasswordService } from '../../services/passwordService';
+import { LoginGuardService } from '../../services/loginGuardService';
+import { RecoveryService } from '../../services/recoveryService';
 import { useAuth } from '../../contexts/AuthContext';
-import { User, Role } from '../../types';
-import { Trash2, Plus, Database, ShieldCheck, X, Check } from 'lucide-react';
+import { PERMISSIONS, ROLES } from '../../constants';
+import { User, Role, SessionSettings, Permission, PermissionMatrix } from '../../types';
+import { Trash2, Plus, ShieldCheck, X, Timer, KeyRound, Lock, Unlock, LifeBuoy } from 'lucide-react';
+import { generateId } from '../../utils/idUtils';
 
 export const UserManagement: React.FC = () => {
-  const { user: currentUser } = useAuth();
+  const { user: currentUser, can, refreshUser } = useAuth();
   const [users, setUsers] = useState<User[]>(StorageService.getUsers());
   const [isAdding, setIsAdding] = useState(false);
   
-  // Use the service to get the active URL (either local or hardcoded)
-  // Fix: Ensure the initial state is always a string to avoid 'string | null' type errors
-  const [sheetUrl, setSheetUrl] = useState<string>(
-    localStorage.getItem('halagel_sheets_api_url') || 
-    GoogleSheetsService.getActiveUrl() || 
-    ''
-  );
+  const [permissions, setPermissions] = useState<PermissionMatrix>(StorageService.getPermissions());
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>(StorageService.getSessionSettings());
   
   const [newUser, setNewUser] = useState<Omit<User, 'id'>>({
       name: '',
@@ -27,21 +26,57 @@ export const UserManagement: React.FC = () => {
       password: ''
   });
 
-  const handleSaveSheetUrl = () => {
-    // Fix: Ensure sheetUrl is a string before saving
-    localStorage.setItem('halagel_sheets_api_url', sheetUrl || '');
+  const handleSaveSessionSettings = () => {
+    const sanitized: SessionSettings = {
+      idleTimeoutMinutes: Math.max(1, Math.round(sessionSettings.idleTimeoutMinutes || 0)),
+      sessionHours: Math.max(1, Math.round(sessionSettings.sessionHours || 0)),
+      rememberDays: Math.max(1, Math.round(sessionSettings.rememberDays || 0)),
+    };
+    StorageService.saveSessionSettings(sanitized);
+    setSessionSettings(sanitized);
+    StorageService.addLog({
+      userId: currentUser!.id,
+      userName: currentUser!.name,
+      action: 'UPDATE_SESSION_POLICY',
+      details: `Idle timeout ${sanitized.idleTimeoutMinutes} min, session ${sanitized.sessionHours} h, remember me ${sanitized.rememberDays} days`
+    });
+    window.dispatchEvent(new CustomEvent('app-notification', { 
+        detail: { message: 'SESSION POLICY UPDATED', type: 'success' } 
+    }));
+  };
+
+  const togglePermission = (permission: Permission, role: Role) => {
+    const roles = permissions[permission];
+    setPermissions({
+      ...permissions,
+      [permission]: roles.includes(role) ? roles.filter(r => r !== role) : [...roles, role]
+    });
+  };
+
+  const handleSavePermissions = () => {
+    StorageService.savePermissions(permissions);
+    const saved = StorageService.getPermissions();
+    setPermissions(saved);
+    refreshUser();
+    StorageService.addLog({
+      userId: currentUser!.id,
+      userName: currentUser!.name,
+      action: 'UPDATE_PERMISSIONS',
+      details: `Updated permission matrix: ${PERMISSIONS.map(p => `${p.key}=[${saved[p.key].join(',')}]`).join(' ')}`
+    });
     window.dispatchEvent(new CustomEvent('app-notification', { 
-        detail: { message: 'DATABASE CONFIGURATION UPDATED', type: 'success' } 
+        detail: { message: 'PERMISSION MATRIX UPDATED', type: 'success' } 
     }));
   };
 
-  const handleAddUser = (e: React.FormEvent) => {
+  const handleAddUser = async (e: React.FormEvent) => {
     e.preventDefault();
     if (users.some(u => u.username.toLowerCase() === newUser.username.toLowerCase())) {
         alert("Username already exists!");
         return;
     }
-    const u: User = { ...newUser, id: Date.now().toString() };
+    const { password, ...profile } = newUser;
+    const u: User = { ...profile, id: generateId(), passwordHash: await PasswordService.hash(password || '') };
     const updated = [...users, u];
     StorageService.saveUsers(updated);
     StorageService.addLog({
@@ -58,16 +93,46 @@ export const UserManagement: React.FC = () => {
     setNewUser({ name: '', username: '', email: '', role: 'operator', password: '' });
   };
 
+  // Replaces the admin recovery code; the previous export file stops working
+  const handleIssueRecovery = async () => {
+    if (!window.confirm('Issue a new recovery file? Any previously downloaded recovery file will stop working.')) return;
+    const file = await RecoveryService.issue(currentUser!);
+    RecoveryService.download(file);
+    StorageService.addLog({
+      userId: currentUser!.id,
+      userName: currentUser!.name,
+      action: 'ISSUE_RECOVERY_CODE',
+      details: `New admin recovery file issued for @${currentUser!.username}`
+    });
+    window.dispatchEvent(new CustomEvent('app-notification', { 
+        detail: { message: 'RECOVERY FILE DOWNLOADED - STORE IT SAFELY', type: 'success' } 
+    }));
+  };
+
+  const handleUnlock = (target: User) => {
+    LoginGuardService.unlock(target.username);
+    StorageService.addLog({
+      userId: currentUser!.id,
+      userName: currentUser!.name,
+      action: 'UNLOCK_ACCOUNT',
+      details: `Unlocked login for ${target.name} (@${target.username})`
+    });
+    // The unlock is saved on the user record, so re-read it before any later save
+    setUsers(StorageService.getUsers());
+    window.dispatchEvent(new CustomEvent('app-notification', { 
+        detail: { message: `ACCOUNT UNLOCKED: ${target.name.toUpperCase()}`, type: 'success' } 
+    }));
+  };
+
   const handleDelete = (id: string) => {
     if (window.confirm('Delete this user?')) {
-        const target = users.find(u => u.id === id);
+        const target = StorageService.deleteUser(id, currentUser!.id);
         const updated = users.filter(u => u.id !== id);
-        StorageService.saveUsers(updated);
         StorageService.addLog({
           userId: currentUser!.id,
           userName: currentUser!.name,
           action: 'DELETE_USER',
-          details: `Removed user account: ${target?.name} (@${target?.username})`
+          details: `Moved user account to trash: ${target?.name} (@${target?.username})`
         });
         setUsers(updated);
         window.dispatchEvent(new CustomEvent('app-notification', { 
@@ -78,43 +143,102 @@ export const UserManagement: React.FC = () => {
 
   return (
     <div className="space-y-8">
-        {/* DB CONFIG FOR ADMINS */}
         <div className="bg-white dark:bg-slate-800 p-8 rounded-3xl border border-indigo-100 dark:border-indigo-900/30 shadow-sm">
             <div className="flex items-center justify-between mb-6">
                 <div className="flex items-center gap-3">
-                    <Database className="w-6 h-6 text-indigo-500" />
+                    <KeyRound className="w-6 h-6 text-indigo-500" />
                     <div>
-                        <h3 className="text-lg font-black text-slate-800 dark:text-white leading-none">Database Connection</h3>
-                        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Status: {localStorage.getItem('halagel_sheets_api_url') ? 'Manual Override' : 'System Default (Active)'}</p>
+                        <h3 className="text-lg font-black text-slate-800 dark:text-white leading-none">Permission Matrix</h3>
+                        <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">What each role is allowed to do</p>
                     </div>
                 </div>
-                <div className="flex items-center gap-2 px-3 py-1 bg-emerald-50 dark:bg-emerald-900/20 border border-emerald-100 dark:border-emerald-800 rounded-full">
-                    <Check className="w-3 h-3 text-emerald-600" />
-                    <span className="text-[10px] font-black text-emerald-600 uppercase tracking-widest">Live Sync Enabled</span>
-                </div>
+                <button onClick={handleSavePermissions} className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition flex items-center justify-center gap-2">
+                    <ShieldCheck className="w-4 h-4" /> Save Permissions
+                </button>
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                    <thead className="text-[10px] font-black uppercase tracking-widest text-slate-400 border-b dark:border-slate-700">
+                        <tr>
+                            <th className="py-3 pr-4">Permission</th>
+                            {ROLES.map(role => <th key={role} className="py-3 px-4 text-center">{role}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
+                        {PERMISSIONS.map(p => (
+                            <tr key={p.key}>
+                                <td className="py-3 pr-4">
+                                    <div className="font-bold text-slate-700 dark:text-white">{p.label}</div>
+                                    <div className="text-[10px] font-mono text-indigo-500">{p.key}</div>
+                                </td>
+                                {ROLES.map(role => {
+                                    // Admins always keep user management so nobody can lock the system
+                                    const locked = p.key === 'users.manage' && role === 'admin';
+                                    return (
+                                        <td key={role} className="py-3 px-4 text-center">
+                                            <input 
+                                                type="checkbox"
+                                                className="w-4 h-4 accent-indigo-600 disabled:opacity-50"
+                                                checked={permissions[p.key].includes(role)}
+                                                disabled={locked}
+                                                onChange={() => togglePermission(p.key, role)}
+                                            />
+                                        </td>
+                                    );
+                                })}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
             </div>
-            
-            <div className="flex flex-col md:flex-row gap-3">
-                <div className="flex-1 relative">
-                  <input 
-                      type="text"
-                      placeholder="Google Apps Script URL"
-                      className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 p-3 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-[11px] font-mono text-slate-600 dark:text-slate-300"
-                      value={sheetUrl || ''}
-                      onChange={(e) => setSheetUrl(e.target.value)}
-                  />
+        </div>
+
+        <div className="bg-white dark:bg-slate-800 p-8 rounded-3xl border border-indigo-100 dark:border-indigo-900/30 shadow-sm">
+            <div className="flex items-center gap-3 mb-6">
+                <Timer className="w-6 h-6 text-indigo-500" />
+                <div>
+                    <h3 className="text-lg font-black text-slate-800 dark:text-white leading-none">Session Policy</h3>
+                    <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Auto logout for shared devices</p>
                 </div>
-                <button onClick={handleSaveSheetUrl} className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition flex items-center justify-center gap-2 shadow-lg shadow-indigo-500/20">
-                    <ShieldCheck className="w-4 h-4" /> Save Configuration
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+                {([
+                  ['idleTimeoutMinutes', 'Idle Timeout (Minutes)'],
+                  ['sessionHours', 'Session Length (Hours)'],
+                  ['rememberDays', 'Remember Me (Days)'],
+                ] as [keyof SessionSettings, string][]).map(([key, label]) => (
+                  <div key={key} className="space-y-1">
+                    <label className="text-[10px] font-black uppercase text-slate-400 tracking-widest">{label}</label>
+                    <input 
+                        type="number" min={1}
+                        className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 p-3 rounded-2xl outline-none focus:ring-2 focus:ring-indigo-500 text-sm font-bold text-slate-700 dark:text-white"
+                        value={sessionSettings[key]}
+                        onChange={(e) => setSessionSettings({ ...sessionSettings, [key]: Number(e.target.value) })}
+                    />
+                  </div>
+                ))}
+                <button onClick={handleSaveSessionSettings} className="bg-indigo-600 text-white px-6 py-3 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition flex items-center justify-center gap-2">
+                    <ShieldCheck className="w-4 h-4" /> Save Policy
                 </button>
             </div>
             <p className="mt-4 text-[10px] text-slate-400 font-medium italic">
-              Note: This URL links your dashboard to the Google Sheets "Database Bridge". Do not change unless moving to a new spreadsheet.
+              Note: The idle timeout applies to sessions started without "Remember me". Remembered sessions still end after the configured number of days.
             </p>
         </div>
 
         <div className="flex justify-between items-center">
             <h2 className="text-2xl font-black text-gray-800 dark:text-white">Staff Management</h2>
+            <div className="flex items-center gap-2">
+            {can('users.manage') && (
+                <button 
+                    onClick={handleIssueRecovery}
+                    className="bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-200 border border-slate-200 dark:border-slate-700 px-5 py-2.5 rounded-xl flex items-center gap-2 hover:bg-slate-50 dark:hover:bg-slate-700 transition text-xs font-black uppercase tracking-widest"
+                >
+                    <LifeBuoy className="w-4 h-4" /> Recovery File
+                </button>
+            )}
             <button 
                 onClick={() => setIsAdding(!isAdding)}
                 className="bg-slate-900 dark:bg-indigo-600 text-white px-5 py-2.5 rounded-xl flex items-center gap-2 hover:opacity-90 transition shadow-lg shadow-indigo-500/20 text-xs font-black uppercase tracking-widest"
@@ -122,6 +246,7 @@ export const UserManagement: React.FC = () => {
                 {isAdding ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
                 {isAdding ? 'Cancel' : 'Create Account'}
             </button>
+            </div>
         </div>
 
         {isAdding && (
@@ -182,8 +307,22 @@ export const UserManagement: React.FC = () => {
                                 <span className="bg-indigo-50 dark:bg-indigo-900/30 px-3 py-1.5 rounded-lg text-[9px] uppercase font-black tracking-[0.1em] text-indigo-600 dark:text-indigo-400 border border-indigo-100 dark:border-indigo-900/50">
                                     {u.role}
                                 </span>
+                                {LoginGuardService.isLocked(u.username) && (
+                                    <span className="ml-2 inline-flex items-center gap-1 bg-rose-50 dark:bg-rose-900/20 px-2 py-1.5 rounded-lg text-[9px] uppercase font-black tracking-[0.1em] text-rose-600 border border-rose-100 dark:border-rose-800">
+                                        <Lock className="w-3 h-3" /> Locked
+                                    </span>
+                                )}
                             </td>
                             <td className="px-8 py-6 text-right">
+                                {(LoginGuardService.isLocked(u.username) || LoginGuardService.getState(u.username).failures > 0) && (
+                                    <button 
+                                        onClick={() => handleUnlock(u)}
+                                        title="Unlock login / reset failed attempts (reaches other devices with the next sync)"
+                                        className="text-slate-400 hover:text-emerald-600 p-2.5 transition-colors hover:bg-emerald-50 dark:hover:bg-emerald-900/20 rounded-xl"
+                                    >
+                                        <Unlock className="w-4 h-4" />
+                                    </button>
+                                )}
                                 <button 
                                     onClick={() => handleDelete(u.id)}
                                     className="text-slate-400 hover:text-rose-600 p-2.5 transition-colors hover:bg-rose-50 dark:hover:bg-rose-900/20 rounded-xl"
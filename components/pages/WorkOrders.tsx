@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { useDashboard } from '../../contexts/DashboardContext';
+import { WorkOrder, WorkOrderProgress, WorkOrderStageStatus } from '../../types';
+import { WorkOrderModal } from '../modals/WorkOrderModal';
+import { Workflow, Plus, Search, CheckCircle2, RotateCcw, ChevronRight } from 'lucide-react';
+
+const STAGE_STYLES: Record<WorkOrderStageStatus, string> = {
+  done: 'bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300',
+  'in-progress': 'bg-indigo-50 dark:bg-indigo-900/20 border-indigo-300 dark:border-indigo-700 text-indigo-700 dark:text-indigo-300',
+  ready: 'bg-amber-50 dark:bg-amber-900/20 border-amber-300 dark:border-amber-700 text-amber-700 dark:text-amber-300',
+  waiting: 'bg-slate-50 dark:bg-slate-900 border-slate-200 dark:border-slate-700 text-slate-400'
+};
+
+const STAGE_LABELS: Record<WorkOrderStageStatus, string> = {
+  done: 'Done',
+  'in-progress': 'In Progress',
+  ready: 'Input Waiting',
+  waiting: 'Not Started'
+};
+
+type OrderFilter = 'open' | 'closed' | 'all';
+
+/**
+ * Every batch with its stages, showing where each open batch currently is.
+ */
+export const WorkOrders: React.FC = () => {
+  const { user, can } = useAuth();
+  const { refreshKey, triggerRefresh } = useDashboard();
+  const [progress, setProgress] = useState<WorkOrderProgress[]>([]);
+  const [filter, setFilter] = useState<OrderFilter>('open');
+  const [search, setSearch] = useState('');
+  const [showCreate, setShowCreate] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    StorageService.getWorkOrderProgress()
+      .then(list => { if (!cancelled) setProgress(list); })
+      .catch(err => console.error('Failed to load work orders:', err));
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const visible = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return progress
+      .filter(p => filter === 'all' || (filter === 'open') === !p.order.closedAt)
+      .filter(p => !term || p.order.batchNo.toLowerCase().includes(term) || p.order.productName.toLowerCase().includes(term))
+      .sort((a, b) => b.order.createdAt.localeCompare(a.order.createdAt));
+  }, [progress, filter, search]);
+
+  // Open batches per stage they are held up at
+  const bottlenecks = useMemo(() => {
+    const counts = new Map<string, number>();
+    progress
+      .filter(p => !p.order.closedAt)
+      .forEach(p => {
+        const stage = p.current ? p.current.process : 'Complete';
+        counts.set(stage, (counts.get(stage) || 0) + 1);
+      });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  }, [progress]);
+
+  const handleCreated = (order?: WorkOrder) => {
+    setShowCreate(false);
+    if (!order) return;
+    triggerRefresh();
+    window.dispatchEvent(new CustomEvent('app-notification', {
+      detail: { message: `WORK ORDER OPENED: BATCH ${order.batchNo.toUpperCase()}`, type: 'success' }
+    }));
+  };
+
+  const handleClose = (p: WorkOrderProgress) => {
+    const close = !p.order.closedAt;
+    if (close && p.current && !window.confirm(`Batch ${p.order.batchNo} is still at ${p.current.process}. Close the work order anyway?`)) return;
+    try {
+      const updated = StorageService.setWorkOrderClosed(p.order.id, close, user!.id);
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: close ? 'CLOSE_WORK_ORDER' : 'REOPEN_WORK_ORDER',
+        details: `${close ? 'Closed' : 'Reopened'} work order for batch ${updated.batchNo} (${updated.productName})`
+      });
+      triggerRefresh();
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: (err?.message || 'Action failed').toUpperCase(), type: 'info' }
+      }));
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-black text-slate-800 dark:text-white flex items-center gap-3">
+            <Workflow className="w-6 h-6 text-indigo-500" />
+            Work Orders
+          </h2>
+          <p className="text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">Batches moving through their process route</p>
+        </div>
+        {user && can('workOrders.manage') && (
+          <button onClick={() => setShowCreate(true)} className="flex items-center gap-2 bg-indigo-600 text-white px-5 py-3 rounded-2xl font-black text-xs uppercase tracking-widest hover:bg-indigo-700 transition">
+            <Plus className="w-4 h-4" /> New Work Order
+          </button>
+        )}
+      </div>
+
+      {bottlenecks.length > 0 && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {bottlenecks.map(([stage, count]) => (
+            <div key={stage} className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-100 dark:border-slate-700 p-4 shadow-sm">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">{stage === 'Complete' ? 'Ready to close' : `At ${stage}`}</p>
+              <p className="text-2xl font-black text-slate-800 dark:text-white mt-1">{count}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="flex bg-white dark:bg-slate-800 rounded-xl border border-gray-100 dark:border-slate-700 p-1">
+          {(['open', 'closed', 'all'] as OrderFilter[]).map(f => (
+            <button
+              key={f}
+              onClick={() => setFilter(f)}
+              className={`px-4 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest transition ${filter === f ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+            >
+              {f}
+            </button>
+          ))}
+        </div>
+        <div className="relative flex-1">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder="Search batch or product..."
+            className="w-full pl-9 pr-3 py-2.5 text-xs font-bold rounded-xl border border-gray-100 dark:border-slate-700 bg-white dark:bg-slate-800 text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="bg-white dark:bg-slate-800 rounded-3xl border border-gray-100 dark:border-slate-700 p-12 text-center text-xs text-slate-400 font-bold italic">
+          No work orders to show.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {visible.map(p => (
+            <div key={p.order.id} className={`bg-white dark:bg-slate-800 rounded-3xl shadow-sm border border-gray-100 dark:border-slate-700 p-5 ${p.order.closedAt ? 'opacity-60' : ''}`}>
+              <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-sm font-black text-indigo-600 dark:text-indigo-400">{p.order.batchNo}</span>
+                    <span className="text-sm font-black text-slate-800 dark:text-white">{p.order.productName}</span>
+                    {p.order.closedAt && (
+                      <span className="text-[10px] font-black uppercase px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-900 text-slate-500 border border-slate-200 dark:border-slate-700 tracking-tighter">Closed</span>
+                    )}
+                  </div>
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400 mt-1">
+                    {p.order.quantity} {p.order.unit} · {p.order.category} · {p.current ? `At ${p.current.process}` : 'All stages done'}
+                  </p>
+                </div>
+                {user && can('workOrders.manage') && (
+                  <button onClick={() => handleClose(p)} className="flex items-center gap-1.5 px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-900 text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 dark:hover:bg-slate-700 transition self-start">
+                    {p.order.closedAt ? <><RotateCcw className="w-3.5 h-3.5" /> Reopen</> : <><CheckCircle2 className="w-3.5 h-3.5" /> Close</>}
+                  </button>
+                )}
+              </div>
+              <div className="flex flex-wrap items-stretch gap-2">
+                {p.stages.map((stage, i) => (
+                  <React.Fragment key={stage.process}>
+                    {i > 0 && <ChevronRight className="w-4 h-4 text-slate-300 self-center shrink-0" />}
+                    <div className={`flex-1 min-w-[140px] rounded-xl border p-3 ${STAGE_STYLES[stage.status]} ${p.current?.process === stage.process && !p.order.closedAt ? 'ring-2 ring-offset-1 ring-indigo-400 dark:ring-offset-slate-800' : ''}`}>
+                      <p className="text-xs font-black">{stage.process}</p>
+                      <p className="text-[10px] font-black uppercase tracking-widest mt-0.5">{STAGE_LABELS[stage.status]}</p>
+                      <div className="mt-2 text-[10px] font-bold space-y-0.5">
+                        <p>Output: {stage.output.toLocaleString()} {p.order.unit}</p>
+                        {stage.lost > 0 && <p>Lost: {stage.lost.toLocaleString()} {p.order.unit}</p>}
+                        <p>Available: {stage.availableInput.toLocaleString()} {p.order.unit}</p>
+                        {stage.entryIds.length === 0 && <p className="italic">No entries</p>}
+                      </div>
+                    </div>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showCreate && <WorkOrderModal onClose={handleCreated} />}
+    </div>
+  );
+};
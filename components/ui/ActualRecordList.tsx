@@ -0,0 +1,162 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { useAuth } from '../../contexts/AuthContext';
+import { ActualRecord, ProductionEntry } from '../../types';
+import { formatFullTimestamp } from '../../utils/dateUtils';
+import { LossEditor, LossDraft, toLossDrafts, fromLossDrafts, lossSummary } from './LossEditor';
+import { Pencil, Ban, RotateCcw, Check, X } from 'lucide-react';
+
+type RecordDraft = { id: string; quantity: string; manpower: string; batchNo: string; shift: string; losses: LossDraft[] };
+
+/**
+ * The actual reports of one production entry. Users allowed to edit
+ * production records can correct or void each report on its own; voided
+ * reports stay listed, struck through, and can be restored.
+ */
+export const ActualRecordList: React.FC<{ entryId: string; refreshKey?: number; onChanged: () => void }> = ({ entryId, refreshKey, onChanged }) => {
+  const { user, can } = useAuth();
+  const [entry, setEntry] = useState<ProductionEntry | null>(null);
+  const [draft, setDraft] = useState<RecordDraft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [reload, setReload] = useState(0);
+  const userNames = useMemo(() => new Map(StorageService.getUsers().map(u => [String(u.id), u.name])), []);
+  const lossReasons = useMemo(() => StorageService.getMasterDataOptions('lossReasons'), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    StorageService.getProductionEntry(entryId)
+      .then(found => { if (!cancelled) setEntry(found); })
+      .catch(err => console.error('Failed to load actual records:', err));
+    return () => { cancelled = true; };
+  }, [entryId, refreshKey, reload]);
+
+  const records = entry?.actuals || [];
+  const editable = !!user && can('production.edit');
+  const inputClasses = "w-full px-2 py-1 text-xs font-bold rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+  const run = async (action: () => Promise<ActualRecord>, log: (record: ActualRecord) => { action: string; details: string }) => {
+    setBusy(true);
+    try {
+      const record = await action();
+      StorageService.addLog({ userId: user!.id, userName: user!.name, ...log(record) });
+      setDraft(null);
+      setReload(n => n + 1);
+      onChanged();
+    } catch (err: any) {
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: (err?.message || 'Action failed').toUpperCase(), type: 'info' }
+      }));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft || !entry) return;
+    const before = records.find(r => r.id === draft.id)!;
+    run(
+      () => StorageService.updateActual(entry.id, draft.id, {
+        quantity: parseInt(draft.quantity || '0'),
+        manpower: parseInt(draft.manpower || '0'),
+        batchNo: draft.batchNo,
+        shift: draft.shift || undefined,
+        losses: fromLossDrafts(draft.losses)
+      }, user!.id),
+      record => ({
+        action: 'EDIT_ACTUAL',
+        details: `Edited actual report for ${entry.productName} (${entry.process}) on ${entry.date}: ${before.quantity} → ${record.quantity} ${entry.unit}, manpower ${before.manpower} → ${record.manpower}, losses ${lossSummary(before.losses) || 'none'} → ${lossSummary(record.losses) || 'none'}`
+      })
+    );
+  };
+
+  const handleVoid = (record: ActualRecord) => {
+    if (!entry) return;
+    const voiding = !record.voidedAt;
+    if (voiding && !window.confirm(`Void the report of ${record.quantity} ${entry.unit}? It will no longer count toward the actual.`)) return;
+    run(
+      () => StorageService.setActualVoided(entry.id, record.id, voiding, user!.id),
+      () => ({
+        action: voiding ? 'VOID_ACTUAL' : 'RESTORE_ACTUAL',
+        details: `${voiding ? 'Voided' : 'Restored'} actual report of ${record.quantity} ${entry.unit} for ${entry.productName} (${entry.process}) on ${entry.date}`
+      })
+    );
+  };
+
+  if (!entry || records.length === 0) {
+    return <p className="text-xs text-slate-400 italic font-bold">No actual output reported yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {records.map(record => {
+        const isEditing = draft?.id === record.id;
+        return (
+          <li key={record.id} className={`p-3 rounded-xl border border-slate-100 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 ${record.voidedAt ? 'opacity-60' : ''}`}>
+            {isEditing ? (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                <input type="number" min="0" value={draft!.quantity} onChange={e => setDraft({ ...draft!, quantity: e.target.value })} className={inputClasses} placeholder="Good qty" />
+                <input type="number" min="0" value={draft!.manpower} onChange={e => setDraft({ ...draft!, manpower: e.target.value })} className={inputClasses} placeholder="Manpower" />
+                <input type="text" value={draft!.batchNo} onChange={e => setDraft({ ...draft!, batchNo: e.target.value })} className={inputClasses} placeholder="Batch" />
+                <select value={draft!.shift} onChange={e => setDraft({ ...draft!, shift: e.target.value })} className={inputClasses}>
+                  <option value="">Whole day</option>
+                  {StorageService.getShiftOptions(draft!.shift).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+                <div className="col-span-2 md:col-span-4">
+                  <LossEditor losses={draft!.losses} reasons={lossReasons} onChange={losses => setDraft({ ...draft!, losses })} inputClassName={inputClasses} />
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <div>
+                  <span className={`text-sm font-black font-mono ${record.voidedAt ? 'line-through text-slate-400' : 'text-emerald-500'}`}>
+                    {record.quantity.toLocaleString()} <span className="text-[10px] font-sans">{entry.unit}</span>
+                  </span>
+                  <span className="ml-2 text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                    {StorageService.getShiftLabel(record.shift || entry.shift)} · {record.manpower} crew{record.batchNo ? ` · Batch ${record.batchNo}` : ''}
+                  </span>
+                  {record.losses && (
+                    <p className={`mt-1 text-[10px] font-bold ${record.voidedAt ? 'text-slate-400' : 'text-rose-500'}`}>{lossSummary(record.losses)}</p>
+                  )}
+                </div>
+                <span className="text-[10px] font-bold text-slate-400">
+                  {userNames.get(record.reportedBy) || record.reportedBy || 'Unknown'} · {formatFullTimestamp(record.reportedAt)}
+                  {record.voidedAt && ` · Voided by ${userNames.get(record.voidedBy || '') || record.voidedBy}`}
+                </span>
+              </div>
+            )}
+            {editable && (
+              <div className="flex justify-end gap-2 mt-2">
+                {isEditing ? (
+                  <>
+                    <button type="button" onClick={handleSave} disabled={busy} className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-emerald-600 text-white text-[10px] font-black uppercase tracking-widest hover:bg-emerald-700 transition disabled:opacity-50">
+                      <Check className="w-3 h-3" /> Save
+                    </button>
+                    <button type="button" onClick={() => setDraft(null)} className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg text-slate-500 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 dark:hover:bg-slate-700 transition">
+                      <X className="w-3 h-3" /> Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    {!record.voidedAt && (
+                      <button
+                        type="button"
+                        disabled={busy}
+                        onClick={() => setDraft({ id: record.id, quantity: String(record.quantity), manpower: String(record.manpower), batchNo: record.batchNo, shift: record.shift || '', losses: toLossDrafts(record.losses) })}
+                        className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-indigo-50 text-indigo-600 border border-indigo-200 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition disabled:opacity-50"
+                      >
+                        <Pencil className="w-3 h-3" /> Edit
+                      </button>
+                    )}
+                    <button type="button" disabled={busy} onClick={() => handleVoid(record)} className="flex items-center gap-1 px-2.5 py-1.5 rounded-lg bg-slate-50 text-slate-600 border border-slate-200 text-[10px] font-black uppercase tracking-widest hover:bg-slate-100 transition disabled:opacity-50">
+                      {record.voidedAt ? <><RotateCcw className="w-3 h-3" /> Restore</> : <><Ban className="w-3 h-3" /> Void</>}
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { StorageService } from '../../services/storageService';
+import { downtimeMinutes } from '../../services/downtimeService';
+import { useAuth } from '../../contexts/AuthContext';
+import { Category, DowntimeEntry, DowntimeReason, ProcessType } from '../../types';
+import { DOWNTIME_REASONS } from '../../constants';
+import { formatMinutes } from '../../utils/dateUtils';
+import { TimerOff, Trash2, Plus } from 'lucide-react';
+
+const reasonLabel = (reason: DowntimeReason) => DOWNTIME_REASONS.find(r => r.reason === reason)?.label ?? reason;
+
+const EMPTY_DRAFT = { start: '', end: '', reason: 'breakdown' as DowntimeReason, notes: '', linked: true };
+
+/**
+ * Stoppages of one process line on a production day. New stoppages are
+ * linked to the plan entry being reported on unless the user unticks it,
+ * so line-wide stoppages can be logged from the same screen.
+ */
+export const DowntimeLog: React.FC<{
+  date: string;
+  category: Category;
+  process: ProcessType;
+  entryId?: string;
+  refreshKey?: number;
+  onChanged: () => void;
+}> = ({ date, category, process, entryId, refreshKey, onChanged }) => {
+  const { user, can } = useAuth();
+  const [entries, setEntries] = useState<DowntimeEntry[]>([]);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [reload, setReload] = useState(0);
+
+  useEffect(() => {
+    setEntries(StorageService.getDowntime({ from: date, to: date, category, process }));
+  }, [date, category, process, refreshKey, reload]);
+
+  useEffect(() => { setDraft(EMPTY_DRAFT); }, [date, category, process, entryId]);
+
+  const totalMinutes = useMemo(() => entries.reduce((sum, d) => sum + d.durationMinutes, 0), [entries]);
+  const draftMinutes = draft.start && draft.end && draft.start !== draft.end ? downtimeMinutes(draft.start, draft.end) : 0;
+  const inputClasses = "w-full px-2 py-1.5 text-xs font-bold rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-800 dark:text-white outline-none focus:ring-2 focus:ring-amber-500";
+
+  const notify = (message: string, type: 'success' | 'info') =>
+    window.dispatchEvent(new CustomEvent('app-notification', { detail: { message, type } }));
+
+  const changed = () => {
+    setReload(n => n + 1);
+    onChanged();
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const logged = StorageService.logDowntime({
+        date,
+        category,
+        process,
+        entryId: draft.linked ? entryId : undefined,
+        start: draft.start,
+        end: draft.end,
+        reason: draft.reason,
+        notes: draft.notes
+      }, user!.id);
+      StorageService.addLog({
+        userId: user!.id,
+        userName: user!.name,
+        action: 'LOG_DOWNTIME',
+        details: `Logged ${formatMinutes(logged.durationMinutes)} of downtime on ${process} (${category}) on ${date}, ${logged.start}-${logged.end}: ${reasonLabel(logged.reason)}${logged.notes ? ` - ${logged.notes}` : ''}`
+      });
+      setDraft(EMPTY_DRAFT);
+      changed();
+      notify('DOWNTIME LOGGED', 'success');
+    } catch (err: any) {
+      notify((err?.message || 'Failed to log downtime').toUpperCase(), 'info');
+    }
+  };
+
+  const handleDelete = (entry: DowntimeEntry) => {
+    if (!window.confirm(`Move the ${entry.start}-${entry.end} stoppage to the trash?`)) return;
+    const trashed = StorageService.deleteDowntime(entry.id, user!.id);
+    if (!trashed) return;
+    StorageService.addLog({
+      userId: user!.id,
+      userName: user!.name,
+      action: 'DELETE_DOWNTIME',
+      details: `Deleted ${formatMinutes(entry.durationMinutes)} of downtime on ${entry.process} on ${entry.date}, ${entry.start}-${entry.end}: ${reasonLabel(entry.reason)}`
+    });
+    changed();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+          <TimerOff className="w-4 h-4 text-amber-500" /> Downtime on {process}
+        </p>
+        <span className="text-[10px] font-black uppercase tracking-widest text-amber-600">
+          {entries.length ? `${formatMinutes(totalMinutes)} lost` : 'No stoppages'}
+        </span>
+      </div>
+
+      {entries.length > 0 && (
+        <ul className="divide-y divide-slate-100 dark:divide-slate-700 rounded-lg border border-slate-200 dark:border-slate-700">
+          {entries.map(d => (
+            <li key={d.id} className="flex items-center gap-3 px-3 py-2 text-xs">
+              <span className="font-bold text-slate-800 dark:text-white whitespace-nowrap">{d.start}-{d.end}</span>
+              <span className="text-amber-600 font-bold whitespace-nowrap">{formatMinutes(d.durationMinutes)}</span>
+              <span className="flex-1 text-slate-500 dark:text-slate-400 truncate">
+                {reasonLabel(d.reason)}{d.notes ? ` · ${d.notes}` : ''}{d.entryId && d.entryId !== entryId ? ' · other plan' : ''}
+              </span>
+              {can('production.delete') && (
+                <button type="button" onClick={() => handleDelete(d)} className="p-1 text-slate-400 hover:text-rose-500">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {can('actual.record') && (
+        <form onSubmit={handleAdd} className="space-y-2 p-3 rounded-lg bg-amber-50/50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30">
+          <div className="grid grid-cols-[1fr_1fr_2fr] gap-2">
+            <input type="time" required value={draft.start} onChange={e => setDraft({ ...draft, start: e.target.value })} className={inputClasses} aria-label="Stopped at" />
+            <input type="time" required value={draft.end} onChange={e => setDraft({ ...draft, end: e.target.value })} className={inputClasses} aria-label="Restarted at" />
+            <select value={draft.reason} onChange={e => setDraft({ ...draft, reason: e.target.value as DowntimeReason })} className={inputClasses}>
+              {DOWNTIME_REASONS.map(r => <option key={r.reason} value={r.reason}>{r.label}</option>)}
+            </select>
+          </div>
+          <input type="text" value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} className={inputClasses} placeholder="Notes (optional)" />
+          <div className="flex items-center justify-between gap-2">
+            {entryId ? (
+              <label className="flex items-center gap-2 text-xs text-slate-600 dark:text-slate-400">
+                <input type="checkbox" checked={draft.linked} onChange={e => setDraft({ ...draft, linked: e.target.checked })} />
+                Held up this plan
+              </label>
+            ) : <span />}
+            <div className="flex items-center gap-3">
+              {draftMinutes > 0 && <span className="text-xs font-bold text-amber-600">{formatMinutes(draftMinutes)}{draft.end < draft.start ? ' (overnight)' : ''}</span>}
+              <button
+                type="submit"
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-amber-50 text-amber-700 border border-amber-200 text-[10px] font-black uppercase tracking-widest hover:bg-amber-100 transition"
+              >
+                <Plus className="w-3.5 h-3.5" /> Log Stoppage
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
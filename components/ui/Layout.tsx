@@ -2,25 +2,27 @@
 import React, { ReactNode, useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useDashboard } from '../../contexts/DashboardContext';
-import { Category, ProductionEntry } from '../../types';
-import { CATEGORIES } from '../../constants';
+import { Category, ProductionEntry, SyncReport } from '../../types';
+import { ROUTE_PERMISSIONS } from '../../constants';
 import { LoginModal } from '../modals/LoginModal';
 import { InputModal } from '../modals/InputModal';
 import { UserModal } from '../modals/UserModal';
 import { OffDayModal } from '../modals/OffDayModal';
 import { ChangePasswordModal } from '../modals/ChangePasswordModal';
 import { AvatarModal } from '../modals/AvatarModal';
-import { GoogleSheetsService } from '../../services/googleSheetsService';
+import { SyncConflictModal } from '../modals/SyncConflictModal';
 import { StorageService } from '../../services/storageService';
+import { OutboxService } from '../../services/outboxService';
+import { QuarantineService } from '../../services/quarantineService';
 import { Link, useLocation } from 'react-router-dom';
 import { 
   Menu, X, Moon, Sun, Plus, LogOut, Database,
   CalendarX, LayoutDashboard, RefreshCw, LogIn, CheckCircle, Info, Bell,
-  ClipboardList, Users, History, Key, BarChart3, Camera, Presentation
+  ClipboardList, Users, History, Key, BarChart3, Camera, Presentation, GitMerge, ShieldAlert, Trash2, DatabaseBackup, ListChecks, Package, Workflow, Settings
 } from 'lucide-react';
 
 export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const { user, logout, hasPermission } = useAuth();
+  const { user, logout, refreshUser, can } = useAuth();
   const { category, setCategory, isDarkMode, toggleDarkMode, triggerRefresh } = useDashboard();
   const location = useLocation();
   
@@ -31,6 +33,12 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [showChangePass, setShowChangePass] = useState(false);
   const [showAvatarModal, setShowAvatarModal] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [conflictCount, setConflictCount] = useState(StorageService.getSyncConflicts().length);
+  const [pendingChanges, setPendingChanges] = useState(OutboxService.pendingChanges());
+  const [quarantineCount, setQuarantineCount] = useState(QuarantineService.count());
+  // Data shared with other devices: the Sheets bridge or a REST database
+  const isSharedStore = StorageService.isSheetsSyncActive() || StorageService.getBackendConfig().kind === 'rest';
   const [entryToEdit, setEntryToEdit] = useState<ProductionEntry | null>(null);
   const [notification, setNotification] = useState<{ message: string; type: 'success' | 'info' } | null>(null);
 
@@ -50,6 +58,27 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
     setShowInput(true);
   }, []);
 
+  // Background merges after local saves can pull in other devices' changes
+  const handleSyncComplete = useCallback(() => {
+    setConflictCount(StorageService.getSyncConflicts().length);
+    triggerRefresh();
+  }, [triggerRefresh]);
+
+  const handleOutboxChange = useCallback(() => setPendingChanges(OutboxService.pendingChanges()), []);
+
+  const handleQuarantineChange = useCallback(() => setQuarantineCount(QuarantineService.count()), []);
+
+  const summarizeSync = (report: SyncReport) => {
+    const count = (status: string) => report.outcomes.filter(o => o.status === status).length;
+    const parts = [
+      `${count('pulled')} PULLED`,
+      `${count('pushed') + count('deleted-local')} PUSHED`,
+      `${count('merged') + count('resolved')} MERGED`
+    ];
+    if (report.conflicts.length > 0) parts.push(`${report.conflicts.length} CONFLICT${report.conflicts.length === 1 ? '' : 'S'}`);
+    return parts.join(' · ');
+  };
+
   const handleLogout = () => {
     const userName = user?.name || 'User';
     logout();
@@ -60,10 +89,34 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
   };
 
   const handleSync = async (silent = false) => {
-    if (!GoogleSheetsService.isEnabled()) {
+    const backendKind = StorageService.getBackendConfig().kind;
+    if (backendKind === 'indexedDB' || backendKind === 'rest') {
+      if (!silent) setIsSyncing(true);
+      try {
+        await StorageService.reloadFromBackend();
+        refreshUser();
+        triggerRefresh();
+        if (!silent) {
+          window.dispatchEvent(new CustomEvent('app-notification', { 
+            detail: { message: 'DATA RELOADED FROM STORAGE BACKEND', type: 'success' } 
+          }));
+        }
+      } catch (e) {
+        if (!silent) {
+          window.dispatchEvent(new CustomEvent('app-notification', { 
+            detail: { message: 'STORAGE BACKEND UNREACHABLE - CHECK CONNECTION', type: 'info' } 
+          }));
+        }
+      } finally {
+        if (!silent) setIsSyncing(false);
+      }
+      return;
+    }
+
+    if (!StorageService.isSheetsSyncActive()) {
       if (!silent) {
         window.dispatchEvent(new CustomEvent('app-notification', { 
-          detail: { message: 'DATABASE NOT CONFIGURED. PLEASE SET URL IN USER MANAGEMENT.', type: 'info' } 
+          detail: { message: 'DATABASE NOT CONFIGURED. PLEASE SET URL IN STORAGE & SYNC SETTINGS.', type: 'info' } 
         }));
       }
       return;
@@ -71,11 +124,17 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
     
     if (!silent) setIsSyncing(true);
     try {
-      await StorageService.syncWithSheets();
+      const report = await StorageService.syncWithSheets();
+      refreshUser();
+      setConflictCount(StorageService.getSyncConflicts().length);
       triggerRefresh();
       if (!silent) {
+        const failed = report.pushFailed.length > 0;
         window.dispatchEvent(new CustomEvent('app-notification', { 
-          detail: { message: 'CLOUD DATA SYNCHRONIZED', type: 'success' } 
+          detail: { 
+            message: failed ? `UPLOAD FAILED - ${summarizeSync(report)}` : `CLOUD DATA SYNCHRONIZED: ${summarizeSync(report)}`, 
+            type: failed || report.conflicts.length > 0 ? 'info' : 'success' 
+          } 
         }));
       }
     } catch (e) {
@@ -90,7 +149,7 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
   };
 
   useEffect(() => {
-    if (GoogleSheetsService.isEnabled()) {
+    if (StorageService.isSheetsSyncActive()) {
       handleSync(true); 
     }
   }, []);
@@ -98,12 +157,18 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
   useEffect(() => {
     window.addEventListener('app-notification', handleNotify);
     window.addEventListener('edit-production-entry', handleEditEntry);
+    window.addEventListener('sync-complete', handleSyncComplete);
+    window.addEventListener('outbox-change', handleOutboxChange);
+    window.addEventListener('quarantine-change', handleQuarantineChange);
     return () => {
       window.removeEventListener('app-notification', handleNotify);
       window.removeEventListener('edit-production-entry', handleEditEntry);
+      window.removeEventListener('sync-complete', handleSyncComplete);
+      window.removeEventListener('outbox-change', handleOutboxChange);
+      window.removeEventListener('quarantine-change', handleQuarantineChange);
       if (timeoutRef.current) window.clearTimeout(timeoutRef.current);
     };
-  }, [handleNotify, handleEditEntry]);
+  }, [handleNotify, handleEditEntry, handleSyncComplete, handleOutboxChange, handleQuarantineChange]);
 
   const navItemClass = (path: string) => `
     w-full flex items-center gap-3 px-4 py-3 rounded-xl text-sm font-bold transition-all
@@ -166,9 +231,12 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
           <Link to="/process-analytics" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/process-analytics')}>
             <BarChart3 className="w-4 h-4" /> Process Analytics
           </Link>
+          <Link to="/work-orders" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/work-orders')}>
+            <Workflow className="w-4 h-4" /> Work Orders
+          </Link>
 
           <div className="pt-6 px-3 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">Departments</div>
-          {CATEGORIES.map(cat => (
+          {StorageService.getMasterDataOptions('categories', category).map(cat => (
             <button key={cat} onClick={() => { setCategory(cat as Category); setIsMobileMenuOpen(false); }}
               className={`w-full flex items-center justify-between px-4 py-3 rounded-xl text-sm font-bold transition-all ${
                 category === cat ? 'bg-slate-100 dark:bg-slate-800 text-indigo-600 dark:text-indigo-400' : 'text-slate-500 hover:bg-gray-50 dark:hover:bg-slate-800'
@@ -180,25 +248,70 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
           {user && (
             <>
               <div className="pt-6 px-3 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">Operations</div>
-              <button onClick={() => { setShowInput(true); setIsMobileMenuOpen(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-500 hover:bg-gray-50 dark:hover:bg-slate-800 rounded-xl transition">
-                <Plus className="w-4 h-4 text-emerald-500" /> New Entry
-              </button>
+              {(can('plan.create') || can('actual.record')) && (
+                <button onClick={() => { setShowInput(true); setIsMobileMenuOpen(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-500 hover:bg-gray-50 dark:hover:bg-slate-800 rounded-xl transition">
+                  <Plus className="w-4 h-4 text-emerald-500" /> New Entry
+                </button>
+              )}
               
-              {hasPermission(['admin', 'manager']) && (
+              {can('offday.manage') && (
                 <button onClick={() => { setShowOffDays(true); setIsMobileMenuOpen(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-500 hover:bg-gray-50 dark:hover:bg-slate-800 rounded-xl transition">
                   <CalendarX className="w-4 h-4 text-rose-500" /> Public Holidays
                 </button>
               )}
 
-              {hasPermission(['admin']) && (
+              {can(ROUTE_PERMISSIONS['/users']) && (
                 <Link to="/users" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/users')}>
                   <Users className="w-4 h-4" /> User Management
                 </Link>
               )}
 
-              <Link to="/logs" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/logs')}>
-                <History className="w-4 h-4" /> Activity Logs
-              </Link>
+              {can(ROUTE_PERMISSIONS['/settings']) && (
+                <Link to="/settings" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/settings')}>
+                  <Settings className="w-4 h-4" /> Storage & Sync
+                </Link>
+              )}
+
+              {can(ROUTE_PERMISSIONS['/logs']) && (
+                <Link to="/logs" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/logs')}>
+                  <History className="w-4 h-4" /> Activity Logs
+                </Link>
+              )}
+
+              {can(ROUTE_PERMISSIONS['/trash']) && (
+                <Link to="/trash" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/trash')}>
+                  <Trash2 className="w-4 h-4" /> Trash
+                </Link>
+              )}
+
+              {can(ROUTE_PERMISSIONS['/snapshots']) && (
+                <Link to="/snapshots" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/snapshots')}>
+                  <DatabaseBackup className="w-4 h-4" /> Backup & Snapshots
+                </Link>
+              )}
+
+              {can(ROUTE_PERMISSIONS['/master-data']) && (
+                <Link to="/master-data" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/master-data')}>
+                  <ListChecks className="w-4 h-4" /> Master Data
+                </Link>
+              )}
+
+              {can(ROUTE_PERMISSIONS['/products']) && (
+                <Link to="/products" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/products')}>
+                  <Package className="w-4 h-4" /> Products
+                </Link>
+              )}
+
+              {can(ROUTE_PERMISSIONS['/data-health']) && (
+                <Link to="/data-health" onClick={() => setIsMobileMenuOpen(false)} className={navItemClass('/data-health')}>
+                  <ShieldAlert className="w-4 h-4" /> Data Health
+                  {quarantineCount > 0 && (
+                    <span className="ml-auto min-w-[20px] h-5 px-1.5 rounded-full bg-amber-500 text-white text-[10px] font-black flex items-center justify-center">
+                      {quarantineCount}
+                    </span>
+                  )}
+                </Link>
+              )}
 
               <div className="pt-6 px-3 py-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">Account</div>
               <button onClick={() => { setShowAvatarModal(true); setIsMobileMenuOpen(false); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm font-bold text-slate-500 hover:bg-gray-50 dark:hover:bg-slate-800 rounded-xl transition">
@@ -224,18 +337,38 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
             <div className="flex items-center gap-3">
               <h2 className="font-black text-lg hidden md:block text-slate-700 dark:text-white capitalize">{location.pathname.replace('/', '') || 'Dashboard'}</h2>
               <div className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[9px] font-black uppercase tracking-wider border ${
-                GoogleSheetsService.isEnabled() ? 'bg-emerald-50 text-emerald-600 border-emerald-200' : 'bg-amber-50 text-amber-600 border-amber-200'
+                isSharedStore ? 'bg-emerald-50 text-emerald-600 border-emerald-200' : 'bg-amber-50 text-amber-600 border-amber-200'
               }`}>
                 <Database className="w-3 h-3" />
-                {GoogleSheetsService.isEnabled() ? 'DB Connected' : 'Local Only'}
+                {isSharedStore ? 'DB Connected' : 'Local Only'}
               </div>
             </div>
           </div>
 
           <div className="flex items-center gap-4">
-            <button onClick={() => handleSync()} disabled={isSyncing} className={`p-2.5 text-slate-500 hover:bg-gray-100 dark:hover:bg-slate-800 rounded-xl transition ${isSyncing ? 'animate-spin text-indigo-500' : ''}`}>
-              <RefreshCw className="w-5 h-5" />
-            </button>
+            {conflictCount > 0 && (
+              <button onClick={() => setShowConflicts(true)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-xl bg-amber-50 text-amber-600 border border-amber-200 text-[10px] font-black uppercase tracking-wider hover:bg-amber-100 transition">
+                <GitMerge className="w-3.5 h-3.5" /> {conflictCount} Conflict{conflictCount === 1 ? '' : 's'}
+              </button>
+            )}
+            <div className="relative">
+              <button onClick={() => handleSync()} disabled={isSyncing} className={`p-2.5 text-slate-500 hover:bg-gray-100 dark:hover:bg-slate-800 rounded-xl transition ${isSyncing ? 'animate-spin text-indigo-500' : ''}`}>
+                <RefreshCw className="w-5 h-5" />
+              </button>
+              {pendingChanges > 0 && (
+                <span 
+                  title={`${pendingChanges} pending change${pendingChanges === 1 ? '' : 's'} waiting to upload`}
+                  className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-amber-500 text-white text-[9px] font-black flex items-center justify-center shadow"
+                >
+                  {pendingChanges}
+                </span>
+              )}
+            </div>
+            {pendingChanges > 0 && (
+              <span className="hidden lg:inline text-[10px] font-black uppercase tracking-wider text-amber-600">
+                {pendingChanges} Pending Change{pendingChanges === 1 ? '' : 's'}
+              </span>
+            )}
             <button onClick={toggleDarkMode} className="p-2.5 text-slate-500 hover:bg-gray-100 dark:hover:bg-slate-800 rounded-xl transition">
               {isDarkMode ? <Sun className="w-5 h-5" /> : <Moon className="w-5 h-5" />}
             </button>
@@ -274,6 +407,7 @@ export const Layout: React.FC<{ children: ReactNode }> = ({ children }) => {
       {showOffDays && <OffDayModal onClose={() => setShowOffDays(false)} />}
       {showChangePass && <ChangePasswordModal onClose={() => setShowChangePass(false)} />}
       {showAvatarModal && <AvatarModal onClose={() => setShowAvatarModal(false)} />}
+      {showConflicts && <SyncConflictModal onClose={() => setShowConflicts(false)} onResolved={handleSyncComplete} />}
     </div>
   );
 };
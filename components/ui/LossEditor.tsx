@@ -0,0 +1,58 @@
+import React from 'react';
+import { LossKind, LossRecord } from '../../types';
+import { LOSS_KINDS } from '../../constants';
+import { Trash2, Plus } from 'lucide-react';
+
+export type LossDraft = { kind: LossKind; quantity: string; reason: string };
+
+export const toLossDrafts = (losses: LossRecord[] = []): LossDraft[] =>
+  losses.map(l => ({ kind: l.kind, quantity: String(l.quantity), reason: l.reason }));
+
+// Lines left without a quantity are dropped
+export const fromLossDrafts = (drafts: LossDraft[]): LossRecord[] =>
+  drafts
+    .filter(d => d.quantity.trim() !== '' && Number(d.quantity) !== 0)
+    .map(d => ({ kind: d.kind, quantity: Number(d.quantity), reason: d.reason }));
+
+// e.g. "Rejected 5 (Seal Failure), Scrap 2 (Other)"
+export const lossSummary = (losses: LossRecord[] = []): string =>
+  losses.map(l => `${LOSS_KINDS.find(k => k.kind === l.kind)?.label ?? l.kind} ${l.quantity} (${l.reason})`).join(', ');
+
+/**
+ * Rejected, reworked and scrapped quantities of one report, each line with
+ * the reason code it was held back for. A line keeps its archived reason
+ * selectable while it is edited.
+ */
+export const LossEditor: React.FC<{
+  losses: LossDraft[];
+  reasons: string[];
+  onChange: (losses: LossDraft[]) => void;
+  inputClassName: string;
+}> = ({ losses, reasons, onChange, inputClassName }) => {
+  const update = (index: number, change: Partial<LossDraft>) =>
+    onChange(losses.map((l, i) => (i === index ? { ...l, ...change } : l)));
+
+  return (
+    <div className="space-y-2">
+      {losses.map((loss, i) => (
+        <div key={i} className="grid grid-cols-[1fr_1fr_2fr_auto] gap-2 items-center">
+          <select value={loss.kind} onChange={e => update(i, { kind: e.target.value as LossKind })} className={inputClassName}>
+            {LOSS_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+          </select>
+          <input type="number" min="1" value={loss.quantity} onChange={e => update(i, { quantity: e.target.value })} className={inputClassName} placeholder="Qty" />
+          <select value={loss.reason} onChange={e => update(i, { reason: e.target.value })} className={inputClassName}>
+            {(reasons.includes(loss.reason) ? reasons : [...reasons, loss.reason]).map(r => <option key={r} value={r}>{r}</option>)}
+          </select>
+          <button type="button" onClick={() => onChange(losses.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-rose-500"><Trash2 className="w-4 h-4" /></button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...losses, { kind: 'reject', quantity: '', reason: reasons[0] || '' }])}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-rose-50 text-rose-600 border border-rose-200 text-[10px] font-black uppercase tracking-widest hover:bg-rose-100 transition"
+      >
+        <Plus className="w-3.5 h-3.5" /> Add Reject / Rework / Scrap
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+// @vitest-environment jsdom
+// App pulls in the storage service, which opens IndexedDB on import
+import 'fake-indexeddb/auto';
+import React from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen } from '@testing-library/react';
+import { MemoryRouter, Routes, Route, createRoutesFromChildren } from 'react-router-dom';
+import { Permission, Role, User } from '../../types';
+import { DEFAULT_PERMISSIONS, ROLES, ROUTE_PERMISSIONS } from '../../constants';
+import { ProtectedRoute } from './ProtectedRoute';
+import { AppRoutes } from '../../App';
+
+// The guard only needs the signed-in user and the default permission matrix
+const auth = vi.hoisted(() => ({ user: null as User | null }));
+
+vi.mock('../../contexts/AuthContext', () => ({
+  useAuth: () => ({
+    user: auth.user,
+    can: (permission: Permission) => !!auth.user && DEFAULT_PERMISSIONS[permission].includes(auth.user.role)
+  })
+}));
+
+const signInAs = (role: Role | null) => {
+  auth.user = role ? { id: '1', name: 'Test User', username: 'test', email: '', role } : null;
+};
+
+const renderRoute = (path: string) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path="/login" element={<p>Login page</p>} />
+        <Route path={path} element={<ProtectedRoute permission={ROUTE_PERMISSIONS[path]}><p>Guarded page</p></ProtectedRoute>} />
+      </Routes>
+    </MemoryRouter>
+  );
+
+const routes = Object.keys(ROUTE_PERMISSIONS);
+
+describe('ProtectedRoute', () => {
+  afterEach(() => {
+    cleanup();
+    signInAs(null);
+  });
+
+  it.each(routes)('sends anonymous visitors of %s to the login page', path => {
+    renderRoute(path);
+    expect(screen.getByText('Login page')).toBeTruthy();
+    expect(screen.queryByText('Guarded page')).toBeNull();
+  });
+
+  const cases = routes.flatMap(path => ROLES.map(role => ({
+    path,
+    role,
+    allowed: DEFAULT_PERMISSIONS[ROUTE_PERMISSIONS[path]].includes(role)
+  })));
+
+  it.each(cases)('$role on $path: allowed=$allowed', ({ path, role, allowed }) => {
+    signInAs(role);
+    renderRoute(path);
+    if (allowed) {
+      expect(screen.getByText('Guarded page')).toBeTruthy();
+    } else {
+      expect(screen.getByText(/Access Denied/)).toBeTruthy();
+      expect(screen.queryByText('Guarded page')).toBeNull();
+    }
+  });
+
+  it('always lets admins manage users', () => {
+    signInAs('admin');
+    renderRoute('/users');
+    expect(screen.getByText('Guarded page')).toBeTruthy();
+  });
+});
+
+// Pages every signed-in user may open; a new page has to be guarded or listed here
+const OPEN_ROUTES = ['/login', '/', '/reports', '/process-analytics', '/work-orders', '/overview', '*'];
+
+// The permission of the first ProtectedRoute in an element tree, if any
+const guardOf = (node: React.ReactNode): Permission | undefined => {
+  if (!React.isValidElement(node)) return undefined;
+  const props = node.props as { permission?: Permission; children?: React.ReactNode };
+  if (node.type === ProtectedRoute) return props.permission;
+  return React.Children.toArray(props.children).map(guardOf).find(Boolean);
+};
+
+describe('App routes', () => {
+  const appRoutes = createRoutesFromChildren((AppRoutes({}) as React.ReactElement<{ children: React.ReactNode }>).props.children)
+    .map(route => ({ path: route.path!, guard: guardOf(route.element) }));
+
+  it.each(routes)('%s is an App route wrapped in its guard', path => {
+    expect(appRoutes.find(r => r.path === path)?.guard).toBe(ROUTE_PERMISSIONS[path]);
+  });
+
+  it.each(appRoutes)('$path is guarded by ROUTE_PERMISSIONS or deliberately open', ({ path, guard }) => {
+    if (guard) expect(ROUTE_PERMISSIONS[path]).toBe(guard);
+    else expect(OPEN_ROUTES).toContain(path);
+  });
+});
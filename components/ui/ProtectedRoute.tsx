@@ -0,0 +1,25 @@
+import React, { ReactNode } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { useAuth } from '../../contexts/AuthContext';
+import { Permission } from '../../types';
+import { Forbidden } from '../pages/Forbidden';
+
+/**
+ * Guards a route by permission. Anonymous visitors are sent to the login page
+ * (with the requested location so they can return), signed-in users whose role
+ * lacks the permission see the Forbidden page.
+ */
+export const ProtectedRoute: React.FC<{ permission: Permission; children: ReactNode }> = ({ permission, children }) => {
+  const { user, can } = useAuth();
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!can(permission)) {
+    return <Forbidden />;
+  }
+
+  return <>{children}</>;
+};
@@ -0,0 +1,56 @@
+import React, { useState } from 'react';
+import { ProcessType } from '../../types';
+import { ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+
+/**
+ * Ordered list of processes with controls to add, reorder and remove steps.
+ * Each process can appear once.
+ */
+export const RouteEditor: React.FC<{
+  route: ProcessType[];
+  processes: ProcessType[];
+  onChange: (route: ProcessType[]) => void;
+  inputClassName: string;
+}> = ({ route, processes, onChange, inputClassName }) => {
+  const [nextStep, setNextStep] = useState('');
+  const available = processes.filter(p => !route.includes(p));
+
+  const addStep = () => {
+    const step = nextStep || available[0];
+    if (!step) return;
+    onChange([...route, step]);
+    setNextStep('');
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const moved = [...route];
+    [moved[index], moved[index + offset]] = [moved[index + offset], moved[index]];
+    onChange(moved);
+  };
+
+  return (
+    <>
+      <ol className="space-y-2 mb-2">
+        {route.map((step, i) => (
+          <li key={step} className="flex items-center gap-2 p-2 rounded-lg bg-slate-50 dark:bg-slate-900 border border-slate-100 dark:border-slate-700">
+            <span className="w-6 text-center text-[10px] font-black text-indigo-500">{i + 1}</span>
+            <span className="flex-1 text-sm font-bold text-slate-700 dark:text-slate-200">{step}</span>
+            <button type="button" onClick={() => moveStep(i, -1)} disabled={i === 0} className="p-1 text-slate-400 hover:text-indigo-500 disabled:opacity-30"><ArrowUp className="w-4 h-4" /></button>
+            <button type="button" onClick={() => moveStep(i, 1)} disabled={i === route.length - 1} className="p-1 text-slate-400 hover:text-indigo-500 disabled:opacity-30"><ArrowDown className="w-4 h-4" /></button>
+            <button type="button" onClick={() => onChange(route.filter(s => s !== step))} className="p-1 text-slate-400 hover:text-rose-500"><Trash2 className="w-4 h-4" /></button>
+          </li>
+        ))}
+      </ol>
+      {available.length > 0 && (
+        <div className="flex gap-2">
+          <select value={nextStep || available[0]} onChange={e => setNextStep(e.target.value)} className={inputClassName}>
+            {available.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          <button type="button" onClick={addStep} className="flex items-center gap-1.5 px-3 rounded-lg bg-indigo-50 text-indigo-600 border border-indigo-200 text-[10px] font-black uppercase tracking-widest hover:bg-indigo-100 transition shrink-0">
+            <Plus className="w-3.5 h-3.5" /> Add Step
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,19 @@
+import React, { ReactNode, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { RecoveryFile } from '../../services/recoveryService';
+import { Setup } from '../pages/Setup';
+
+/**
+ * Holds the whole app behind first-run setup until an administrator exists,
+ * and keeps the setup screen up until the recovery file has been handed out.
+ */
+export const SetupGate: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { needsSetup } = useAuth();
+  const [recoveryFile, setRecoveryFile] = useState<RecoveryFile | null>(null);
+
+  if (needsSetup || recoveryFile) {
+    return <Setup recoveryFile={recoveryFile} onCreated={setRecoveryFile} onFinish={() => setRecoveryFile(null)} />;
+  }
+
+  return <>{children}</>;
+};
@@ -1,10 +1,134 @@
 
-import { User, ProductionEntry, OffDay } from './types';
+import { User, ProductionEntry, OffDay, Role, SessionSettings, Permission, PermissionMatrix, StorageBackendKind, SnapshotReason, MasterData, MasterDataItem, MasterDataKind, ShiftDefinition, LossKind, DowntimeReason } from './types';
 import { getTodayISO, getDbTimestamp } from './utils/dateUtils';
 
+// Initial master data; admins manage the live lists on the Master Data page
 export const CATEGORIES = ['Healthcare', 'Toothpaste', 'Rocksalt', 'Cosmetic'] as const;
 export const PROCESSES = ['Mixing', 'Encapsulation', 'Filling', 'Sorting', 'Packing'] as const;
 export const UNITS = ['KG', 'PCS'] as const;
+export const LOSS_REASONS = ['Seal Failure', 'Underweight', 'Contamination', 'Damaged Packaging', 'Other'] as const;
+
+// Seed ids are fixed so every device starts from the same items
+const seedItems = (names: readonly string[]): MasterDataItem[] =>
+  names.map(name => ({ id: name.toLowerCase(), name }));
+
+export const DEFAULT_MASTER_DATA: MasterData = {
+  categories: seedItems(CATEGORIES),
+  processes: seedItems(PROCESSES),
+  units: seedItems(UNITS),
+  lossReasons: seedItems(LOSS_REASONS)
+};
+
+// Seed ids are fixed for the same reason
+export const DEFAULT_SHIFTS: ShiftDefinition[] = [
+  { id: 'morning', name: 'Morning', start: '07:00', end: '15:00' },
+  { id: 'afternoon', name: 'Afternoon', start: '15:00', end: '23:00' },
+  { id: 'night', name: 'Night', start: '23:00', end: '07:00' }
+];
+
+// `field` is the production entry field holding the name; loss reasons sit on actual records instead
+export const MASTER_DATA_KINDS: { kind: MasterDataKind; label: string; field?: 'category' | 'process' | 'unit' }[] = [
+  { kind: 'categories', label: 'Categories', field: 'category' },
+  { kind: 'processes', label: 'Processes', field: 'process' },
+  { kind: 'units', label: 'Units', field: 'unit' },
+  { kind: 'lossReasons', label: 'Loss Reasons' }
+];
+
+export const LOSS_KINDS: { kind: LossKind; label: string }[] = [
+  { kind: 'reject', label: 'Rejected' },
+  { kind: 'rework', label: 'Rework' },
+  { kind: 'scrap', label: 'Scrap' }
+];
+
+export const DOWNTIME_REASONS: { reason: DowntimeReason; label: string }[] = [
+  { reason: 'breakdown', label: 'Breakdown' },
+  { reason: 'changeover', label: 'Changeover' },
+  { reason: 'material', label: 'Material Shortage' },
+  { reason: 'manpower', label: 'No Manpower' },
+  { reason: 'other', label: 'Other' }
+];
+export const ROLES: Role[] = ['admin', 'manager', 'planner', 'operator'];
+
+export const PERMISSIONS: { key: Permission; label: string }[] = [
+  { key: 'plan.create', label: 'Create production plans' },
+  { key: 'actual.record', label: 'Record actual output' },
+  { key: 'production.edit', label: 'Edit production records' },
+  { key: 'production.delete', label: 'Delete production records' },
+  { key: 'offday.manage', label: 'Manage public holidays' },
+  { key: 'logs.view', label: 'View activity logs' },
+  { key: 'users.manage', label: 'Manage users & permissions' },
+  { key: 'settings.sheets', label: 'Configure storage & Google Sheets link' },
+  { key: 'data.manage', label: 'Review rejected records (Data Health)' },
+  { key: 'trash.view', label: 'View trash & restore deleted records' },
+  { key: 'trash.purge', label: 'Permanently purge trashed records' },
+  { key: 'data.backup', label: 'Back up, restore & roll back all data' },
+  { key: 'masterData.manage', label: 'Manage categories, processes & units' },
+  { key: 'products.manage', label: 'Manage the product catalogue' },
+  { key: 'workOrders.manage', label: 'Create & close work orders' },
+];
+
+// Backends an administrator can pick in settings; the in-memory backend is for tests only
+export const STORAGE_BACKENDS: { kind: StorageBackendKind; label: string; description: string }[] = [
+  { kind: 'localStorage', label: 'This Browser', description: 'Data stays on this device only' },
+  { kind: 'indexedDB', label: 'Browser Database', description: 'IndexedDB on this device, no 5 MB limit' },
+  { kind: 'googleSheets', label: 'Google Sheets', description: 'Shared spreadsheet via the Apps Script bridge' },
+  { kind: 'rest', label: 'REST API', description: 'Company database behind a JSON API' },
+];
+
+export const DEFAULT_PERMISSIONS: PermissionMatrix = {
+  'plan.create': ['admin', 'manager', 'planner'],
+  'actual.record': ['admin', 'manager', 'operator'],
+  'production.edit': ['admin', 'manager'],
+  'production.delete': ['admin', 'manager'],
+  'offday.manage': ['admin', 'manager'],
+  'logs.view': ROLES,
+  'users.manage': ['admin'],
+  'settings.sheets': ['admin'],
+  'data.manage': ['admin'],
+  'trash.view': ['admin', 'manager'],
+  'trash.purge': ['admin'],
+  'data.backup': ['admin'],
+  'masterData.manage': ['admin'],
+  'products.manage': ['admin', 'manager'],
+  'workOrders.manage': ['admin', 'manager', 'planner'],
+};
+
+// Permission required on each guarded route. Routes not listed here are public.
+export const ROUTE_PERMISSIONS: Record<string, Permission> = {
+  '/plan': 'plan.create',
+  '/actual': 'actual.record',
+  '/logs': 'logs.view',
+  '/users': 'users.manage',
+  '/settings': 'settings.sheets',
+  '/data-health': 'data.manage',
+  '/trash': 'trash.view',
+  '/snapshots': 'data.backup',
+  '/master-data': 'masterData.manage',
+  '/products': 'products.manage',
+};
+
+// Days a deleted record stays in the trash before it may be purged
+export const TRASH_RETENTION_DAYS = 30;
+
+// Local snapshots kept per reason; the oldest beyond the limit are dropped
+export const SNAPSHOT_RETENTION: Record<SnapshotReason, number> = {
+  daily: 14,
+  'pre-sync': 20,
+  'pre-rollback': 5
+};
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  idleTimeoutMinutes: 15,
+  sessionHours: 12,
+  rememberDays: 30,
+};
+
+export const LOGIN_POLICY = {
+  maxAttempts: 5,        // failures before the account is locked
+  lockoutMinutes: 15,
+  baseDelayMs: 1000,     // wait after the first failure, doubled for each further one
+  maxDelayMs: 30 * 1000,
+};
 
 // High-quality SVG Cartoon Avatars
 export const DEFAULT_AVATARS = {
@@ -12,7 +136,9 @@ export const DEFAULT_AVATARS = {
   WOMAN_HIJAB: `data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 100 100'%3E%3Ccircle cx='50' cy='50' r='50' fill='%23FDF2F8'/%3E%3Cpath d='M50 22c-15 0-22 10-22 25 0 18 8 28 22 28s22-10 22-28c0-15-7-25-22-25z' fill='%23FFDBAC'/%3E%3Cpath d='M50 15c-20 0-30 15-30 35 0 25 15 40 30 40s30-15 30-40c0-20-10-35-30-35z' fill='%23818CF8' opacity='0.9'/%3E%3Cpath d='M50 22c-12 0-16 8-16 18 0 10 4 15 16 15s16-5 16-15c0-10-4-18-16-18z' fill='%23FFDBAC'/%3E%3Ccircle cx='43' cy='35' r='2' fill='%23333'/%3E%3Ccircle cx='57' cy='35' r='2' fill='%23333'/%3E%3Cpath d='M46 45s1.5 2 4 2 4-2 4-2' stroke='%23333' fill='none' stroke-width='1.5' stroke-linecap='round'/%3E%3Cpath d='M20 90c5-15 15-20 30-20s25 5 30 20H20z' fill='%23F472B6'/%3E%3C/svg%3E`
 };
 
-export const INITIAL_USERS: User[] = [
+// Demo accounts that earlier versions seeded into every install. They are never
+// used to sign in; init() only looks for them to disable their shared password.
+export const LEGACY_SEED_USERS: User[] = [
   { id: 'u1', name: 'Admin User', username: 'admin', email: 'admin@nexus.com', role: 'admin', password: 'password123', avatar: DEFAULT_AVATARS.MAN },
   { id: 'u2', name: 'Manager User', username: 'manager', email: 'manager@nexus.com', role: 'manager', password: 'password123', avatar: DEFAULT_AVATARS.WOMAN_HIJAB },
   { id: 'u3', name: 'Planner User', username: 'planner', email: 'planner@nexus.com', role: 'planner', password: 'password123' },
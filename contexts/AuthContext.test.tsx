@@ -0,0 +1,88 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import React from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, cleanup, render, screen, waitFor } from '@testing-library/react';
+import { User } from '../types';
+import { AuthProvider, useAuth } from './AuthContext';
+import { SetupGate } from '../components/ui/SetupGate';
+import { StorageService } from '../services/storageService';
+
+// A fresh browser on a deployment whose sheet URL is built in
+const sheets = vi.hoisted(() => ({ users: [] as any[] | null, saves: [] as string[] }));
+
+vi.mock('../services/googleSheetsService', () => ({
+  GoogleSheetsService: {
+    isEnabled: () => true,
+    getActiveUrl: () => 'https://script.google.com/macros/s/test/exec',
+    fetchData: async (action: string) => (action === 'getUsers' ? sheets.users : null),
+    fetchChanges: async (action: string) =>
+      (action === 'getUsers' && sheets.users ? { records: sheets.users, deleted: [], serverTime: null, full: true } : null),
+    saveData: async (action: string) => { sheets.saves.push(action); return true; }
+  }
+}));
+
+const admin: User = { id: 'U1', name: 'Aina', username: 'aina', email: '', role: 'admin', passwordHash: 'pbkdf2$1$salt$hash' };
+
+let auth: ReturnType<typeof useAuth>;
+const Probe: React.FC = () => {
+  auth = useAuth();
+  return <p>Sign-in page</p>;
+};
+
+const renderApp = () =>
+  render(
+    <AuthProvider>
+      <SetupGate><Probe /></SetupGate>
+    </AuthProvider>
+  );
+
+describe('first-run setup on a shared deployment', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    sheets.saves = [];
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.restoreAllMocks();
+  });
+
+  it('sends a fresh browser to sign in when the shared table has accounts', async () => {
+    sheets.users = [admin];
+    renderApp();
+    await waitFor(() => expect(StorageService.getUsers().map(u => u.username)).toEqual(['aina']));
+    expect(screen.getByText('Sign-in page')).toBeTruthy();
+    expect(screen.queryByText('Create Administrator')).toBeNull();
+  });
+
+  it('offers no setup while the shared table cannot be reached', async () => {
+    sheets.users = null;
+    renderApp();
+    await waitFor(() => expect(console.error).toHaveBeenCalledWith('Setup check failed:', expect.any(Error)));
+    expect(screen.getByText('Sign-in page')).toBeTruthy();
+  });
+
+  it('offers setup when the shared table is empty', async () => {
+    sheets.users = [];
+    renderApp();
+    expect(await screen.findByText('Create Administrator')).toBeTruthy();
+  });
+
+  it('refuses to create an administrator once accounts appear in the shared table', async () => {
+    sheets.users = [];
+    renderApp();
+    await screen.findByText('Create Administrator');
+    sheets.users = [admin];
+
+    await act(async () => {
+      await expect(auth.completeSetup({ name: 'Intruder', username: 'intruder', email: '' }, 'password123'))
+        .rejects.toThrow('already set up');
+    });
+
+    expect(screen.getByText('Sign-in page')).toBeTruthy();
+    expect(StorageService.getUsers().map(u => u.username)).toEqual(['aina']);
+    expect(sheets.saves).not.toContain('saveUsers');
+  });
+});
@@ -1,56 +1,187 @@
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { User, Role } from '../types';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { User, Permission, PermissionMatrix, LoginResult } from '../types';
 import { StorageService } from '../services/storageService';
-import { INITIAL_USERS } from '../constants';
+import { PasswordService } from '../services/passwordService';
+import { LoginGuardService } from '../services/loginGuardService';
+import { RecoveryService, RecoveryFile } from '../services/recoveryService';
+import { LOGIN_POLICY } from '../constants';
+import { generateId } from '../utils/idUtils';
 
 interface AuthContextType {
   user: User | null;
-  login: (username: string, pass: string) => boolean;
+  login: (username: string, pass: string, remember?: boolean) => Promise<LoginResult>;
   logout: () => void;
-  hasPermission: (roles: Role[]) => boolean;
+  refreshUser: () => void;
+  needsSetup: boolean;
+  completeSetup: (profile: Pick<User, 'name' | 'username' | 'email'>, pass: string) => Promise<RecoveryFile>;
+  can: (permission: Permission) => boolean;
 }
 
+const SESSION_CHECK_INTERVAL = 15 * 1000;
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'scroll'] as const;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  // Read the session synchronously so route guards see the user on the first render
+  const [user, setUser] = useState<User | null>(() => StorageService.getSessionUser());
 
-  useEffect(() => {
-    const session = StorageService.getSession();
-    if (session) {
-      setUser(session);
-    }
+  const [permissions, setPermissions] = useState<PermissionMatrix>(() => StorageService.getPermissions());
+
+  // Devices sharing their accounts show the login page until the shared table has been checked
+  const [needsSetup, setNeedsSetup] = useState<boolean>(() => StorageService.needsBootstrap() && !StorageService.hasSharedUsers());
+
+  // Setup is only offered once it is certain that no account exists anywhere
+  const checkSetup = useCallback(async (): Promise<boolean> => {
+    const allowed = await StorageService.checkBootstrap().catch(err => {
+      console.error('Setup check failed:', err);
+      return false;
+    });
+    setNeedsSetup(allowed);
+    return allowed;
   }, []);
 
-  const login = (username: string, pass: string) => {
+  useEffect(() => { checkSetup(); }, [checkSetup]);
+
+  // Re-reads the signed-in user and the permission matrix (after edits or a sync)
+  const refreshUser = useCallback(() => {
+    setUser(StorageService.getSessionUser());
+    setPermissions(StorageService.getPermissions());
+    checkSetup();
+  }, [checkSetup]);
+
+  // First run: creates the initial administrator, signs them in and issues their recovery code
+  const completeSetup = async (profile: Pick<User, 'name' | 'username' | 'email'>, pass: string) => {
+    if (!(await checkSetup())) throw new Error('System is already set up. Sign in instead.');
+    const admin: User = {
+      ...profile,
+      id: generateId(),
+      role: 'admin',
+      passwordHash: await PasswordService.hash(pass)
+    };
+    const others = StorageService.getUsers().filter(u => u.username.toLowerCase() !== admin.username.toLowerCase());
+    StorageService.saveUsers([...others, admin]);
+    StorageService.addLog({
+      userId: admin.id,
+      userName: admin.name,
+      action: 'SYSTEM_SETUP',
+      details: `Initial administrator account created: @${admin.username}`
+    });
+    const file = await RecoveryService.issue(admin);
+    StorageService.createSession(admin.id, false);
+    setUser(StorageService.getSessionUser());
+    setNeedsSetup(false);
+    return file;
+  };
+
+  const login = async (username: string, pass: string, remember = false): Promise<LoginResult> => {
+    const gate = LoginGuardService.check(username);
+    if (gate.retryAfterMs > 0) {
+      return { ok: false, reason: gate.locked ? 'locked' : 'throttled', retryAfterMs: gate.retryAfterMs };
+    }
+
     const storedUsers = StorageService.getUsers();
-    // Combine initial and stored users, prioritizing stored ones if there's conflict
-    const userMap = new Map<string, User>();
-    [...INITIAL_USERS, ...storedUsers].forEach(u => userMap.set(u.username.toLowerCase(), u));
-    
-    const targetUser = userMap.get(username.toLowerCase());
-    
-    if (targetUser && targetUser.password === pass) {
-      setUser(targetUser);
-      StorageService.setSession(targetUser);
-      return true;
+    const targetUser = storedUsers.find(u => u.username.toLowerCase() === username.trim().toLowerCase());
+
+    const { valid, migrated } = targetUser
+      ? await PasswordService.verifyUser(targetUser, pass)
+      : { valid: false, migrated: null };
+
+    if (!targetUser || !valid) {
+      const state = LoginGuardService.recordFailure(username);
+      StorageService.addLog({
+        userId: targetUser?.id || '',
+        userName: targetUser?.name || username,
+        action: 'LOGIN_FAILED',
+        details: `Failed login for @${username} (attempt ${state.failures} of ${LOGIN_POLICY.maxAttempts})`
+      });
+      if (state.lockedUntil) {
+        StorageService.addLog({
+          userId: targetUser?.id || '',
+          userName: targetUser?.name || username,
+          action: 'ACCOUNT_LOCKED',
+          details: `@${username} locked for ${LOGIN_POLICY.lockoutMinutes} minutes after ${state.failures} failed attempts`
+        });
+        return { ok: false, reason: 'locked', retryAfterMs: state.lockedUntil - Date.now() };
+      }
+      return { ok: false, reason: 'invalid', attemptsLeft: LOGIN_POLICY.maxAttempts - state.failures };
     }
-    return false;
+
+    LoginGuardService.reset(username);
+
+    // One-time migration: replace the legacy plain-text password with a hash
+    const authenticated = migrated || targetUser;
+    if (migrated) {
+      StorageService.saveUsers(storedUsers.map(u => u.id === migrated.id ? migrated : u));
+    }
+
+    StorageService.createSession(authenticated.id, remember);
+    setUser(StorageService.getSessionUser());
+    return { ok: true };
   };
 
-  const logout = () => {
+  const logout = useCallback(() => {
     setUser(null);
     StorageService.setSession(null);
-  };
+  }, []);
+
+  // Accounts and permissions may change underneath us when a sync or backend reload lands
+  useEffect(() => {
+    window.addEventListener('sync-complete', refreshUser);
+    return () => window.removeEventListener('sync-complete', refreshUser);
+  }, [refreshUser]);
+
+  // Record activity for the idle timeout while someone is signed in
+  useEffect(() => {
+    if (!user) return;
+    let lastTouch = 0;
+    const onActivity = () => {
+      const now = Date.now();
+      if (now - lastTouch < SESSION_CHECK_INTERVAL) return;
+      lastTouch = now;
+      StorageService.touchSession();
+    };
+    ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, onActivity, { passive: true }));
+    return () => ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, onActivity));
+  }, [user]);
+
+  // Expire idle or outdated sessions, and pick up role changes or deletions of the signed-in account
+  useEffect(() => {
+    if (!user) return;
+    const timer = window.setInterval(() => {
+      if (StorageService.getSession()) {
+        const current = StorageService.getSessionUser();
+        if (current) {
+          if (JSON.stringify(current) !== JSON.stringify(user)) setUser(current);
+          setPermissions(prev => {
+            const latest = StorageService.getPermissions();
+            return JSON.stringify(latest) === JSON.stringify(prev) ? prev : latest;
+          });
+          return;
+        }
+      }
+      StorageService.addLog({
+        userId: user.id,
+        userName: user.name,
+        action: 'SESSION_EXPIRED',
+        details: `Session ended automatically for @${user.username}`
+      });
+      logout();
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: 'SESSION EXPIRED - PLEASE LOG IN AGAIN', type: 'info' }
+      }));
+    }, SESSION_CHECK_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [user, logout]);
 
-  const hasPermission = (allowedRoles: Role[]) => {
+  const can = (permission: Permission) => {
     if (!user) return false;
-    return allowedRoles.includes(user.role);
+    return (permissions[permission] || []).includes(user.role);
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, hasPermission }}>
+    <AuthContext.Provider value={{ user, login, logout, refreshUser, needsSetup, completeSetup, can }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,5 +1,7 @@
 
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
+import { ProductionStore } from '../services/productionStore';
+import { MasterDataService } from '../services/masterDataService';
 import { Category } from '../types';
 
 interface DashboardContextType {
@@ -14,7 +16,7 @@ interface DashboardContextType {
 const DashboardContext = createContext<DashboardContextType | undefined>(undefined);
 
 export const DashboardProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [category, setCategory] = useState<Category>('Healthcare');
+  const [category, setCategory] = useState<Category>(() => MasterDataService.options('categories')[0] || '');
   const [refreshKey, setRefreshKey] = useState(0);
   const [isDarkMode, setIsDarkMode] = useState(false);
 
@@ -32,7 +34,12 @@ export const DashboardProvider: React.FC<{ children: ReactNode }> = ({ children
     };
     
     window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
+    // Production lives in IndexedDB, which raises no storage events
+    const unsubscribe = ProductionStore.subscribe(triggerRefresh);
+    return () => {
+      window.removeEventListener('storage', handleStorageChange);
+      unsubscribe();
+    };
   }, []);
 
   const toggleDarkMode = () => {
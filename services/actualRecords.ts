@@ -0,0 +1,110 @@
+import { ProductionEntry, ActualRecord, LossRecord, LossKind, YieldSummary, LossReasonRow } from '../types';
+import { LOSS_KINDS } from '../constants';
+
+/**
+ * ACTUAL RECORDS
+ *
+ * Output is reported against a plan as separate records, so two operators or
+ * two shifts reporting on the same plan each keep their report. The entry's
+ * actualQuantity and manpower are the totals of the records that are not
+ * voided and are recomputed whenever the entry is read or saved. A report's
+ * quantity is its good output; rejected, reworked and scrapped output is
+ * listed beside it with a reason code and never counts toward the actual.
+ */
+
+const text = (value: any): string => String(value ?? '').trim();
+
+const amount = (value: any): number => (value === undefined || value === null || value === '' ? 0 : Number(value));
+
+// Kinds are kept as given so validation can report an unknown one
+const normalizeLoss = (data: any): LossRecord | null => {
+  if (!data || typeof data !== 'object') return null;
+  return { kind: text(data.kind) as LossKind, quantity: amount(data.quantity), reason: text(data.reason) };
+};
+
+const normalizeRecord = (data: any): ActualRecord | null => {
+  if (!data || typeof data !== 'object') return null;
+  const id = text(data.id);
+  if (!id) return null;
+  const shift = text(data.shift);
+  const voidedAt = text(data.voidedAt);
+  const losses = Array.isArray(data.losses)
+    ? data.losses.map(normalizeLoss).filter((l: LossRecord | null): l is LossRecord => !!l)
+    : [];
+  return {
+    id,
+    quantity: amount(data.quantity),
+    batchNo: text(data.batchNo),
+    manpower: amount(data.manpower),
+    ...(shift ? { shift } : {}),
+    reportedBy: text(data.reportedBy),
+    reportedAt: text(data.reportedAt),
+    updatedAt: text(data.updatedAt) || text(data.reportedAt),
+    ...(voidedAt ? { voidedAt, voidedBy: text(data.voidedBy) } : {}),
+    ...(losses.length > 0 ? { losses } : {})
+  };
+};
+
+// Drops unusable items and repeated ids; the sheet may hand the list back as JSON text
+export const normalizeActuals = (data: any): ActualRecord[] => {
+  let list = data;
+  if (typeof list === 'string') {
+    try { list = JSON.parse(list); } catch { list = []; }
+  }
+  if (!Array.isArray(list)) return [];
+  const seen = new Set<string>();
+  return list.map(normalizeRecord).filter((r): r is ActualRecord => {
+    if (!r || seen.has(r.id)) return false;
+    seen.add(r.id);
+    return true;
+  });
+};
+
+export const activeActuals = (entry: ProductionEntry): ActualRecord[] =>
+  (entry.actuals || []).filter(r => !r.voidedAt);
+
+// Entries without a record list keep their stored totals
+export const withActualTotals = <T extends ProductionEntry>(entry: T): T => {
+  if (!Array.isArray(entry.actuals)) return entry;
+  const active = activeActuals(entry);
+  return {
+    ...entry,
+    actualQuantity: active.reduce((sum, r) => sum + r.quantity, 0),
+    manpower: active.reduce((sum, r) => sum + r.manpower, 0)
+  };
+};
+
+/**
+ * Good output and losses of the reports that are not voided. Entries without
+ * a record list count their stored actual as good output with no losses.
+ */
+export const yieldSummary = (entries: ProductionEntry[]): YieldSummary => {
+  const totals = { good: 0, reject: 0, rework: 0, scrap: 0 };
+  entries.forEach(e => {
+    if (!Array.isArray(e.actuals)) {
+      totals.good += e.actualQuantity || 0;
+      return;
+    }
+    activeActuals(e).forEach(a => {
+      totals.good += a.quantity;
+      (a.losses || []).forEach(l => { if (l.kind in totals) totals[l.kind] += l.quantity; });
+    });
+  });
+  const made = totals.good + totals.reject + totals.rework + totals.scrap;
+  return { ...totals, firstPassYield: made > 0 ? Number(((totals.good / made) * 100).toFixed(1)) : null };
+};
+
+// Losses per reason, largest first, for the given kinds (default: every kind)
+export const lossPareto = (entries: ProductionEntry[], kinds: LossKind[] = LOSS_KINDS.map(k => k.kind)): LossReasonRow[] => {
+  const byReason = new Map<string, number>();
+  entries.forEach(e => activeActuals(e).forEach(a => (a.losses || []).forEach(l => {
+    if (kinds.includes(l.kind)) byReason.set(l.reason, (byReason.get(l.reason) || 0) + l.quantity);
+  })));
+  const rows = Array.from(byReason.entries()).filter(([, q]) => q > 0).sort((a, b) => b[1] - a[1]);
+  const total = rows.reduce((sum, [, q]) => sum + q, 0);
+  let running = 0;
+  return rows.map(([reason, quantity]) => {
+    running += quantity;
+    return { reason, quantity, cumulativeShare: Number(((running / total) * 100).toFixed(1)) };
+  });
+};
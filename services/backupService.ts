@@ -0,0 +1,130 @@
+import { User, BackupArchive, BackupData, BackupCollection, DataCollection, DowntimeEntry, RestoreMode, RestorePreviewRow } from '../types';
+import { StorageService } from './storageService';
+import { ValidationService, Rejected } from './validationService';
+import { QuarantineService } from './quarantineService';
+import { normalizeMasterData } from './masterDataService';
+import { normalizeProducts } from './productCatalogService';
+import { normalizeWorkOrders } from './workOrderService';
+import { normalizeShifts } from './shiftService';
+import { normalizeDowntime } from './downtimeService';
+import { SCHEMA_VERSION, migrateTables } from './schemaMigrations';
+import { getDbTimestamp } from '../utils/dateUtils';
+
+/**
+ * FULL BACKUP & RESTORE
+ *
+ * An archive is one JSON file with every user (without password material),
+ * production entry, holiday, activity log, work order, downtime entry and the
+ * settings. Restoring checks the file, migrates it to the current schema and
+ * always downloads a backup of this device first, so a bad restore can be
+ * undone with the same flow.
+ */
+const COLLECTIONS: BackupCollection[] = ['users', 'production', 'offDays', 'logs'];
+
+export interface ParsedBackup {
+  archive: BackupArchive;
+  // Records that failed validation; they go to Data Health instead of being restored
+  rejected: Partial<Record<DataCollection, Rejected[]>>;
+}
+
+const fileStamp = (timestamp: string) => timestamp.replace(/[: ]/g, '-');
+
+export const BackupService = {
+  createArchive: async (createdBy: User): Promise<BackupArchive> => ({
+    type: 'halagel-backup',
+    version: 1,
+    schemaVersion: SCHEMA_VERSION,
+    createdAt: getDbTimestamp(),
+    createdBy: createdBy.username,
+    data: await StorageService.exportData()
+  }),
+
+  download: (archive: BackupArchive, prefix = 'halagel-backup') => {
+    const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${prefix}-${fileStamp(archive.createdAt)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(link.href);
+  },
+
+  // Throws with a readable message when the file is not a usable archive
+  parse: (text: string): ParsedBackup => {
+    let raw: any;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    if (!raw || raw.type !== 'halagel-backup') throw new Error('The file is not a Halagel backup');
+    if (raw.version !== 1) throw new Error(`Backup format version ${raw.version} is not supported`);
+    const schemaVersion = Number(raw.schemaVersion);
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 0) throw new Error('The backup does not state its schema version');
+    if (schemaVersion > SCHEMA_VERSION) throw new Error('The backup was created by a newer version of the app');
+    const data = raw.data;
+    if (!data || typeof data !== 'object') throw new Error('The backup contains no data');
+    const missing = COLLECTIONS.filter(c => !Array.isArray(data[c]));
+    if (missing.length > 0) throw new Error(`The backup is missing: ${missing.join(', ')}`);
+    if (!data.settings || typeof data.settings !== 'object') throw new Error('The backup contains no settings');
+
+    const migrated = migrateTables({
+      users: data.users,
+      production: data.production,
+      offDays: data.offDays,
+      logs: data.logs,
+      workOrders: normalizeWorkOrders(data.workOrders),
+      ...(Array.isArray(data.downtime) ? { downtime: data.downtime.map(normalizeDowntime) } : {})
+    }, schemaVersion);
+
+    const rejected: ParsedBackup['rejected'] = {};
+    const checked = {} as Record<BackupCollection, any[]>;
+    COLLECTIONS.forEach(collection => {
+      const { valid, rejected: invalid } = ValidationService.partition(collection, migrated[collection] || []);
+      checked[collection] = valid;
+      if (invalid.length > 0) rejected[collection] = invalid;
+    });
+    // Older archives have no downtime log
+    const downtime = migrated.downtime && ValidationService.partition<DowntimeEntry>('downtime', migrated.downtime);
+    if (downtime && downtime.rejected.length > 0) rejected.downtime = downtime.rejected;
+
+    const restored: BackupData = {
+      users: (checked.users as User[]).map(({ password: _plain, passwordHash: _hash, ...rest }) => rest),
+      production: checked.production,
+      offDays: checked.offDays,
+      logs: checked.logs,
+      settings: {
+        ...data.settings,
+        ...(data.settings.masterData ? { masterData: normalizeMasterData(data.settings.masterData) } : {}),
+        ...(data.settings.products ? { products: normalizeProducts(data.settings.products) } : {}),
+        ...(data.settings.shifts ? { shifts: normalizeShifts(data.settings.shifts) } : {})
+      },
+      // Older archives have none, unless the migration grouped their batches into some
+      ...(Array.isArray(data.workOrders) || migrated.workOrders!.length > 0 ? { workOrders: migrated.workOrders } : {}),
+      ...(downtime ? { downtime: downtime.valid } : {})
+    };
+
+    return {
+      archive: { type: 'halagel-backup', version: 1, schemaVersion: SCHEMA_VERSION, createdAt: String(raw.createdAt || ''), createdBy: String(raw.createdBy || ''), data: restored },
+      rejected
+    };
+  },
+
+  preview: (parsed: ParsedBackup, mode: RestoreMode): Promise<RestorePreviewRow[]> =>
+    StorageService.previewImport(parsed.archive.data, mode),
+
+  /**
+   * Downloads a backup of this device, then restores the archive. Invalid
+   * records from the file are quarantined for review.
+   */
+  restore: async (parsed: ParsedBackup, mode: RestoreMode, by: User): Promise<BackupArchive> => {
+    const safety = await BackupService.createArchive(by);
+    BackupService.download(safety, 'halagel-pre-restore');
+    await StorageService.importData(parsed.archive.data, mode);
+    (Object.keys(parsed.rejected) as DataCollection[]).forEach(collection => {
+      QuarantineService.add(collection, 'backup', parsed.rejected[collection]!);
+    });
+    return safety;
+  }
+};
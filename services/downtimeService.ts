@@ -0,0 +1,100 @@
+import { DowntimeEntry, DowntimeReason, DowntimeSummaryRow, ProcessType } from '../types';
+import { isShiftTime } from './shiftService';
+import { formatFullTimestamp } from '../utils/dateUtils';
+
+/**
+ * DOWNTIME
+ *
+ * Stoppages of a process line on a production day, optionally tied to the
+ * plan entry they held up. The duration is always worked out from the start
+ * and end time, so it can never disagree with them; a stoppage ending at or
+ * before its start ran past midnight. Saving and syncing go through
+ * StorageService; this module only reads, cleans and summarises the log.
+ */
+const KEY = 'halagel_downtime';
+
+const text = (value: any): string => String(value ?? '').trim();
+
+const toMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+// Minutes between two HH:mm times; 0 when either is not a valid time
+export const downtimeMinutes = (start: string, end: string): number => {
+  if (!isShiftTime(start) || !isShiftTime(end)) return 0;
+  const minutes = toMinutes(end) - toMinutes(start);
+  return minutes > 0 ? minutes : minutes + 24 * 60;
+};
+
+// Sheets hands date and time cells back as ISO instants, and plain times as "7:05" or "07:05:00"
+const toDate = (value: any): string => {
+  const raw = text(value);
+  return (raw.includes('T') ? formatFullTimestamp(raw) : raw).split(' ')[0];
+};
+
+const toTime = (value: any): string => {
+  const raw = text(value);
+  const clock = raw.includes('T') ? formatFullTimestamp(raw).slice(11) : raw;
+  const match = /^(\d{1,2}):(\d{2})/.exec(clock);
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : raw;
+};
+
+// Values are kept as given so validation can report what is wrong with them
+export const normalizeDowntime = (data: any): DowntimeEntry => {
+  if (!data || typeof data !== 'object') return {} as DowntimeEntry;
+  const start = toTime(data.start);
+  const end = toTime(data.end);
+  const entryId = text(data.entryId);
+  const deletedAt = text(data.deletedAt);
+  return {
+    id: text(data.id),
+    date: toDate(data.date),
+    category: text(data.category),
+    process: text(data.process),
+    ...(entryId ? { entryId } : {}),
+    start,
+    end,
+    durationMinutes: downtimeMinutes(start, end),
+    reason: text(data.reason) as DowntimeReason,
+    notes: text(data.notes),
+    reportedBy: text(data.reportedBy),
+    reportedAt: formatFullTimestamp(text(data.reportedAt)),
+    updatedAt: formatFullTimestamp(text(data.updatedAt) || text(data.reportedAt)),
+    ...(deletedAt ? { deletedAt, deletedBy: text(data.deletedBy) } : {})
+  };
+};
+
+export const DowntimeService = {
+  // Every stoppage on this device, trashed ones included
+  getAll: (): DowntimeEntry[] => {
+    try {
+      const data = JSON.parse(localStorage.getItem(KEY) || '[]');
+      return Array.isArray(data) ? data.map(normalizeDowntime) : [];
+    } catch { return []; }
+  },
+
+  write: (entries: DowntimeEntry[]) => {
+    localStorage.setItem(KEY, JSON.stringify(entries));
+  },
+
+  /**
+   * Minutes lost per process, most first, with the reason that cost each
+   * process the most minutes.
+   */
+  summary: (entries: DowntimeEntry[]): DowntimeSummaryRow[] => {
+    const byProcess = new Map<ProcessType, { minutes: number; stoppages: number; reasons: Map<DowntimeReason, number> }>();
+    entries.forEach(d => {
+      if (!byProcess.has(d.process)) byProcess.set(d.process, { minutes: 0, stoppages: 0, reasons: new Map() });
+      const row = byProcess.get(d.process)!;
+      row.minutes += d.durationMinutes;
+      row.stoppages++;
+      row.reasons.set(d.reason, (row.reasons.get(d.reason) || 0) + d.durationMinutes);
+    });
+    return Array.from(byProcess.entries())
+      .map(([process, row]) => ({
+        process,
+        minutes: row.minutes,
+        stoppages: row.stoppages,
+        topReason: Array.from(row.reasons.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null
+      }))
+      .sort((a, b) => b.minutes - a.minutes);
+  }
+};
@@ -5,6 +5,19 @@ import { ProductionEntry, OffDay, User } from '../types';
  * GOOGLE SHEETS CONFIGURATION
  * 
  * Replace the placeholder below with the URL from Step 2.
+ *
+ * Incremental sync contract with the Apps Script bridge:
+ * - GET  ?action=getProduction&since=<serverTime>  -> { records, deleted, serverTime }
+ *   (a plain array is still accepted and treated as a full snapshot)
+ * - POST upsertProduction / upsertOffDays          data: record[]
+ * - POST deleteProduction / deleteOffDays          data: id[]
+ * - POST appendLog                                 data: log
+ * - POST upsertUsers / upsertLogs                  data: record[]   (storage backend)
+ * - POST deleteUsers / deleteLogs                  data: id[]       (storage backend)
+ * Records in the trash carry deletedAt/deletedBy; an upserted record without
+ * them (restored from the trash) must have those cells cleared.
+ * Production rows carry their revision history in a "revisions" column; JSON
+ * text is accepted there as well as an array.
  */
 export const HARDCODED_URL = "PASTE_YOUR_COPIED_APPS_SCRIPT_URL_HERE"; 
 
@@ -15,18 +28,26 @@ const getSheetUrl = () => {
   return null;
 };
 
+export interface SheetChanges {
+  records: any[];
+  deleted: string[];         // ids removed since the cursor
+  serverTime: string | null; // cursor for the next pull
+  full: boolean;             // records are the complete table
+}
+
 export const GoogleSheetsService = {
   isEnabled: () => !!getSheetUrl(),
   
   getActiveUrl: () => getSheetUrl(),
 
-  fetchData: async <T>(action: string): Promise<T | null> => {
+  fetchData: async <T>(action: string, params: Record<string, string> = {}): Promise<T | null> => {
     const url = getSheetUrl();
     if (!url) return null;
 
     try {
       const seed = Math.random().toString(36).substring(7);
-      const response = await fetch(`${url}?action=${action}&_t=${Date.now()}&_s=${seed}`);
+      const query = new URLSearchParams({ action, ...params, _t: String(Date.now()), _s: seed });
+      const response = await fetch(`${url}?${query.toString()}`);
       if (!response.ok) throw new Error(`HTTP ${response.status}`);
       return await response.json();
     } catch (error) {
@@ -35,17 +56,51 @@ export const GoogleSheetsService = {
     }
   },
 
+  /**
+   * Fetches rows changed since the given server time. Without `since`, or when
+   * the script does not support deltas yet, the answer is a full snapshot.
+   */
+  fetchChanges: async (action: string, since: string | null): Promise<SheetChanges | null> => {
+    const data = await GoogleSheetsService.fetchData<any>(action, since ? { since } : {});
+    if (!data) return null;
+    if (Array.isArray(data)) return { records: data, deleted: [], serverTime: null, full: true };
+    if (Array.isArray(data.records)) {
+      return {
+        records: data.records,
+        deleted: Array.isArray(data.deleted) ? data.deleted.map(String) : [],
+        serverTime: data.serverTime ? String(data.serverTime) : null,
+        full: !since
+      };
+    }
+    return null;
+  },
+
+  /**
+   * Posts a write and reports whether Apps Script accepted it. The body is sent
+   * as text/plain so the request stays "simple" (no CORS preflight) while the
+   * response remains readable, unlike the previous no-cors fire-and-forget.
+   */
   saveData: async (action: string, payload: any): Promise<boolean> => {
     const url = getSheetUrl();
     if (!url) return false;
 
     try {
-      await fetch(url, {
+      const response = await fetch(url, {
         method: 'POST',
-        mode: 'no-cors', 
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'text/plain;charset=utf-8' },
         body: JSON.stringify({ action, data: payload, timestamp: Date.now() })
       });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const text = await response.text();
+      try {
+        const result = JSON.parse(text);
+        if (result && (result.status === 'error' || result.success === false)) {
+          throw new Error(result.message || 'Rejected by Apps Script');
+        }
+      } catch (parseError) {
+        // Older scripts answer with plain text; a 2xx is still a successful write
+        if (!(parseError instanceof SyntaxError)) throw parseError;
+      }
       return true;
     } catch (error) {
       console.error(`Sheets save error (${action}):`, error);
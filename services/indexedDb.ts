@@ -0,0 +1,74 @@
+import { BackendCollection } from '../types';
+
+/**
+ * INDEXEDDB CONNECTION
+ *
+ * One database for everything kept in IndexedDB: the production working store
+ * and the IndexedDB storage backend share its object stores, and local
+ * snapshots are kept next to them.
+ *
+ * Versions:
+ * 1 - one object store per backend collection
+ * 2 - production gains indexes on date, category, process and productName
+ * 3 - snapshot summaries and snapshot contents in two stores
+ */
+const DB_NAME = 'halagel';
+const DB_VERSION = 3;
+
+export const STORES: BackendCollection[] = ['users', 'production', 'offDays', 'logs', 'sessions'];
+
+export type SnapshotStoreName = 'snapshots' | 'snapshotData';
+
+export const SNAPSHOT_STORES: SnapshotStoreName[] = ['snapshots', 'snapshotData'];
+
+export type StoreName = BackendCollection | SnapshotStoreName;
+
+export const PRODUCTION_INDEXES = ['date', 'category', 'process', 'productName'] as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [...STORES, ...SNAPSHOT_STORES].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: name === 'sessions' ? 'token' : 'id' });
+          }
+        });
+        const production = request.transaction!.objectStore('production');
+        PRODUCTION_INDEXES.forEach(field => {
+          if (!production.indexNames.contains(field)) production.createIndex(field, field);
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgrading the schema needs this connection out of the way
+        db.onversionchange = () => { db.close(); dbPromise = null; };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs work inside one transaction and resolves once it has committed
+export const transact = async <T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  work: (objectStore: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = work(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,119 @@
+import { LoginAttemptState, LoginResult, User } from '../types';
+import { LOGIN_POLICY } from '../constants';
+import { StorageService } from './storageService';
+
+/**
+ * LOGIN BRUTE-FORCE PROTECTION
+ *
+ * Failed attempts are counted per username (existing or not, so lockouts do not
+ * reveal which accounts exist). Each failure doubles the wait before the next
+ * attempt; reaching LOGIN_POLICY.maxAttempts locks the username for a while.
+ *
+ * Counts and delays stay on the device, but the lockout of an existing account
+ * is kept on its user record so it syncs: switching devices does not dodge it,
+ * and an admin unlock reaches every device with the next sync.
+ */
+const KEY = 'halagel_login_attempts';
+
+const EMPTY_STATE: LoginAttemptState = { failures: 0, lastFailureAt: 0, lockedUntil: 0 };
+
+const readAll = (): Record<string, LoginAttemptState> => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEY) || '{}');
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+  } catch { return {}; }
+};
+
+const writeAll = (all: Record<string, LoginAttemptState>) => {
+  localStorage.setItem(KEY, JSON.stringify(all));
+};
+
+const keyFor = (username: string) => username.trim().toLowerCase();
+
+const findAccount = (username: string): User | undefined =>
+  StorageService.getUsers().find(u => keyFor(u.username) === keyFor(username));
+
+const updateAccount = (account: User, change: (user: User) => User) => {
+  StorageService.saveUsers(StorageService.getUsers().map(u => (u.id === account.id ? change(u) : u)));
+};
+
+const delayAfter = (failures: number) =>
+  failures <= 0 ? 0 : Math.min(LOGIN_POLICY.baseDelayMs * 2 ** (failures - 1), LOGIN_POLICY.maxDelayMs);
+
+export const LoginGuardService = {
+  getState: (username: string): LoginAttemptState => {
+    const local = readAll()[keyFor(username)] || EMPTY_STATE;
+    const account = findAccount(username);
+    if (!account) return local;
+    // Failures from before an unlock on any device no longer count
+    const counted = account.unlockedAt && local.lastFailureAt <= account.unlockedAt ? EMPTY_STATE : local;
+    return { ...counted, lockedUntil: account.lockedUntil || 0 };
+  },
+
+  /**
+   * Returns how long the caller must wait before trying this username again,
+   * and whether that wait is a full lockout or only a progressive delay.
+   */
+  check: (username: string): { locked: boolean; retryAfterMs: number } => {
+    const state = LoginGuardService.getState(username);
+    const now = Date.now();
+    if (state.lockedUntil > now) {
+      return { locked: true, retryAfterMs: state.lockedUntil - now };
+    }
+    const nextAllowed = state.lastFailureAt + delayAfter(state.failures);
+    return { locked: false, retryAfterMs: Math.max(0, nextAllowed - now) };
+  },
+
+  recordFailure: (username: string): LoginAttemptState => {
+    const all = readAll();
+    const key = keyFor(username);
+    const previous = LoginGuardService.getState(username);
+    const now = Date.now();
+    // An expired lockout starts a fresh count
+    const failures = previous.lockedUntil && previous.lockedUntil <= now ? 1 : previous.failures + 1;
+    const next: LoginAttemptState = {
+      failures,
+      lastFailureAt: now,
+      lockedUntil: failures >= LOGIN_POLICY.maxAttempts ? now + LOGIN_POLICY.lockoutMinutes * 60 * 1000 : 0
+    };
+    all[key] = next;
+    writeAll(all);
+    const account = findAccount(username);
+    if (account && next.lockedUntil) {
+      updateAccount(account, u => ({ ...u, lockedUntil: next.lockedUntil }));
+    }
+    return next;
+  },
+
+  // Clears this device's count after a successful login
+  reset: (username: string) => {
+    const all = readAll();
+    delete all[keyFor(username)];
+    writeAll(all);
+  },
+
+  // Admin unlock: lifts the lockout and voids earlier failures on every device
+  unlock: (username: string) => {
+    LoginGuardService.reset(username);
+    const account = findAccount(username);
+    if (account) {
+      updateAccount(account, ({ lockedUntil: _lock, ...u }) => ({ ...u, unlockedAt: Date.now() }));
+    }
+  },
+
+  isLocked: (username: string): boolean => LoginGuardService.getState(username).lockedUntil > Date.now(),
+
+  // User-facing explanation of a failed login, shared by the login page and modal
+  describeFailure: (result: Exclude<LoginResult, { ok: true }>): string => {
+    if (result.reason === 'invalid') {
+      return result.attemptsLeft <= 2
+        ? `Invalid username or password. ${result.attemptsLeft} attempt${result.attemptsLeft === 1 ? '' : 's'} left before lockout.`
+        : 'Invalid username or password';
+    }
+    const seconds = Math.ceil(result.retryAfterMs / 1000);
+    if (result.reason === 'locked') {
+      return `Account locked after too many failed attempts. Try again in ${Math.ceil(seconds / 60)} min or ask an administrator to unlock it.`;
+    }
+    return `Too many attempts. Please wait ${seconds}s before trying again.`;
+  }
+};
@@ -0,0 +1,87 @@
+import { MasterData, MasterDataItem, MasterDataKind } from '../types';
+import { DEFAULT_MASTER_DATA } from '../constants';
+
+/**
+ * MASTER DATA
+ *
+ * The categories, processes and units production entries may use. Items are
+ * archived rather than deleted, and a rename keeps the old name as an alias,
+ * so every existing entry stays valid. Saving and syncing go through
+ * StorageService; this module only reads and cleans the stored tables.
+ */
+const KEY = 'halagel_master_data';
+
+const KINDS = Object.keys(DEFAULT_MASTER_DATA) as MasterDataKind[];
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const normalizeItem = (data: any): MasterDataItem | null => {
+  if (!data || typeof data !== 'object') return null;
+  const id = String(data.id ?? '').trim();
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!id || !name) return null;
+  const aliases = Array.isArray(data.aliases)
+    ? data.aliases.filter((a: any) => typeof a === 'string' && a.trim() && !sameName(a, name)).map((a: string) => a.trim())
+    : [];
+  return {
+    id,
+    name,
+    ...(aliases.length > 0 ? { aliases } : {}),
+    ...(data.archived === true ? { archived: true } : {})
+  };
+};
+
+// Fills missing tables from the defaults and drops unusable items and repeated ids
+export const normalizeMasterData = (data: any): MasterData => {
+  const result = {} as MasterData;
+  KINDS.forEach(kind => {
+    const list = data && Array.isArray(data[kind]) ? data[kind] : null;
+    if (!list) {
+      result[kind] = DEFAULT_MASTER_DATA[kind].map(item => ({ ...item }));
+      return;
+    }
+    const seen = new Set<string>();
+    result[kind] = list.map(normalizeItem).filter((item: MasterDataItem | null): item is MasterDataItem => {
+      if (!item || seen.has(item.id)) return false;
+      seen.add(item.id);
+      return true;
+    });
+  });
+  return result;
+};
+
+// Names are unique regardless of case, so "Litre", "LITRE" and "litre" are the same item
+const findByName = (kind: MasterDataKind, value: any): MasterDataItem | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const items = MasterDataService.getAll()[kind];
+  return items.find(i => sameName(i.name, value)) || items.find(i => (i.aliases || []).some(a => sameName(a, value)));
+};
+
+export const MasterDataService = {
+  getAll: (): MasterData => {
+    try {
+      return normalizeMasterData(JSON.parse(localStorage.getItem(KEY) || 'null'));
+    } catch { return normalizeMasterData(null); }
+  },
+
+  write: (data: MasterData) => {
+    localStorage.setItem(KEY, JSON.stringify(normalizeMasterData(data)));
+  },
+
+  // Names offered for new entries; `current` keeps an archived value selectable while editing
+  options: (kind: MasterDataKind, current?: string): string[] => {
+    const names = MasterDataService.getAll()[kind].filter(i => !i.archived).map(i => i.name);
+    return current && !names.includes(current) ? [...names, current] : names;
+  },
+
+  // Known names include archived items and former names
+  isKnown: (kind: MasterDataKind, value: any): boolean => !!findByName(kind, value),
+
+  // The current name for a value that may be a former name; unknown values are returned as is
+  canonical: (kind: MasterDataKind, value: any): any => findByName(kind, value)?.name ?? value,
+
+  // Case-insensitive clash with another item's name or former name
+  nameTaken: (kind: MasterDataKind, name: string, exceptId?: string): boolean =>
+    MasterDataService.getAll()[kind].some(i =>
+      i.id !== exceptId && (sameName(i.name, name) || (i.aliases || []).some(a => sameName(a, name))))
+};
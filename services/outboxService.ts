@@ -0,0 +1,73 @@
+import { OutboxMutation } from '../types';
+
+/**
+ * OFFLINE OUTBOX
+ *
+ * Every write bound for Google Sheets is recorded here before it is sent and
+ * only removed once the sheet confirms it, so a dropped connection or a closed
+ * tab never loses a change. Failed sends are retried with exponential backoff.
+ */
+const KEY = 'halagel_outbox';
+const BASE_DELAY_MS = 5 * 1000;
+const MAX_DELAY_MS = 10 * 60 * 1000;
+
+const read = (): OutboxMutation[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEY) || '[]');
+    return Array.isArray(data) ? data : [];
+  } catch { return []; }
+};
+
+const write = (items: OutboxMutation[]) => {
+  localStorage.setItem(KEY, JSON.stringify(items));
+  window.dispatchEvent(new CustomEvent('outbox-change', { detail: { pending: OutboxService.pendingChanges() } }));
+};
+
+export const OutboxService = {
+  getAll: (): OutboxMutation[] => read(),
+
+  // Number of local writes not yet confirmed by the sheet
+  pendingChanges: (): number => read().reduce((sum, m) => sum + (m.changes || 1), 0),
+
+  hasPending: (key: string): boolean => read().some(m => m.key === key),
+
+  enqueue: (mutation: Pick<OutboxMutation, 'key' | 'kind' | 'entity' | 'action' | 'payload'>) => {
+    const items = read();
+    const now = Date.now();
+    const existing = items.find(m => m.key === mutation.key);
+    if (existing) {
+      // Full-table payloads supersede each other; keep the latest and retry it right away
+      Object.assign(existing, mutation, { changes: existing.changes + 1, nextAttemptAt: now });
+    } else {
+      items.push({ ...mutation, changes: 1, createdAt: now, attempts: 0, nextAttemptAt: now });
+    }
+    write(items);
+  },
+
+  due: (now = Date.now()): OutboxMutation[] => read().filter(m => m.nextAttemptAt <= now),
+
+  // Earliest time a failed mutation may be retried, or null when nothing waits
+  nextRetryAt: (): number | null => {
+    const items = read();
+    return items.length ? Math.min(...items.map(m => m.nextAttemptAt)) : null;
+  },
+
+  complete: (mutation: OutboxMutation) => {
+    // A newer write may have been folded in while this one was in flight; keep that
+    const items = read().filter(m => !(m.key === mutation.key && m.changes === mutation.changes && m.nextAttemptAt === mutation.nextAttemptAt));
+    write(items);
+  },
+
+  fail: (mutation: OutboxMutation, error: string) => {
+    const items = read();
+    const target = items.find(m => m.key === mutation.key);
+    if (!target) return;
+    target.attempts += 1;
+    target.lastError = error;
+    // A newer payload arriving meanwhile is already due; otherwise back off
+    if (target.nextAttemptAt === mutation.nextAttemptAt) {
+      target.nextAttemptAt = Date.now() + Math.min(BASE_DELAY_MS * 2 ** (target.attempts - 1), MAX_DELAY_MS);
+    }
+    write(items);
+  }
+};
@@ -0,0 +1,86 @@
+import { User } from '../types';
+
+/**
+ * PASSWORD HASHING
+ *
+ * Credentials are stored as salted PBKDF2-SHA-256 records using the browser's
+ * Web Crypto API. A record looks like: pbkdf2$<iterations>$<salt b64>$<hash b64>
+ */
+const ALGORITHM = 'pbkdf2';
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 256;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const derive = async (password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+// Constant-time comparison so verification time does not leak matching prefixes
+const safeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+export const PasswordService = {
+  isHashed: (value?: string): boolean => !!value && value.startsWith(`${ALGORITHM}$`),
+
+  hash: async (password: string): Promise<string> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const hash = await derive(password, salt, ITERATIONS);
+    return `${ALGORITHM}$${ITERATIONS}$${toBase64(salt)}$${toBase64(hash)}`;
+  },
+
+  verify: async (password: string, record: string): Promise<boolean> => {
+    const [algorithm, iterations, salt, hash] = record.split('$');
+    if (algorithm !== ALGORITHM || !iterations || !salt || !hash) return false;
+    try {
+      const candidate = await derive(password, fromBase64(salt), Number(iterations));
+      return safeEqual(candidate, fromBase64(hash));
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Checks a password against a user, accepting legacy plain-text records.
+   * Returns whether the password matched and, for legacy records, the
+   * migrated user carrying a fresh hash instead of the plain text.
+   */
+  verifyUser: async (user: User, password: string): Promise<{ valid: boolean; migrated: User | null }> => {
+    if (user.passwordHash) {
+      return { valid: await PasswordService.verify(password, user.passwordHash), migrated: null };
+    }
+    if (user.password === undefined || user.password !== password) {
+      return { valid: false, migrated: null };
+    }
+    const { password: _legacy, ...rest } = user;
+    return { valid: true, migrated: { ...rest, passwordHash: await PasswordService.hash(password) } };
+  }
+};
@@ -0,0 +1,107 @@
+import { Product } from '../types';
+
+/**
+ * PRODUCT CATALOGUE
+ *
+ * The products production entries are planned for: SKU, name, category,
+ * default unit, pack size and the ordered process route. Entries link to a
+ * product by productId and carry its name. Saving and syncing go through
+ * StorageService; this module only reads, cleans and matches.
+ */
+const KEY = 'halagel_products';
+
+// Lower case letters and digits only, so "Pain Relief Gel 50g" and "pain-relief gel 50 G" compare equal
+const matchKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+const text = (value: any) => (typeof value === 'string' ? value.trim() : '');
+
+const normalizeProduct = (data: any): Product | null => {
+  if (!data || typeof data !== 'object') return null;
+  const id = text(String(data.id ?? ''));
+  const name = text(data.name);
+  if (!id || !name) return null;
+  let route: any = data.route;
+  if (typeof route === 'string') {
+    try { route = JSON.parse(route); } catch { route = route.split(/\s*(?:,|→|>)\s*/); }
+  }
+  const packSize = text(data.packSize);
+  return {
+    id,
+    sku: text(data.sku),
+    name,
+    category: text(data.category),
+    defaultUnit: text(data.defaultUnit),
+    ...(packSize ? { packSize } : {}),
+    route: Array.isArray(route) ? route.map(text).filter(Boolean) : [],
+    ...(data.archived === true ? { archived: true } : {}),
+    updatedAt: text(data.updatedAt)
+  };
+};
+
+// Drops unusable rows and repeated ids
+export const normalizeProducts = (data: any): Product[] => {
+  if (!Array.isArray(data)) return [];
+  const seen = new Set<string>();
+  return data.map(normalizeProduct).filter((p): p is Product => {
+    if (!p || seen.has(p.id)) return false;
+    seen.add(p.id);
+    return true;
+  });
+};
+
+export const ProductCatalogService = {
+  getAll: (): Product[] => {
+    try {
+      return normalizeProducts(JSON.parse(localStorage.getItem(KEY) || '[]'));
+    } catch { return []; }
+  },
+
+  write: (products: Product[]) => {
+    localStorage.setItem(KEY, JSON.stringify(normalizeProducts(products)));
+  },
+
+  // The product a typed name or SKU stands for, ignoring case, spacing and punctuation
+  find: (value: string): Product | undefined => {
+    const key = matchKey(value || '');
+    if (!key) return undefined;
+    const products = ProductCatalogService.getAll();
+    return products.find(p => matchKey(p.name) === key) || products.find(p => p.sku && matchKey(p.sku) === key);
+  },
+
+  /**
+   * Closest active product for a free-text name: an equal name, then a
+   * product whose name contains it or is contained in it, then a near miss
+   * (a few typos, scaled to the name's length).
+   */
+  suggest: (name: string): Product | undefined => {
+    const exact = ProductCatalogService.find(name);
+    if (exact) return exact;
+    const key = matchKey(name || '');
+    if (key.length < 3) return undefined;
+    const active = ProductCatalogService.getAll().filter(p => !p.archived);
+    const containing = active.filter(p => {
+      const candidate = matchKey(p.name);
+      return candidate.includes(key) || key.includes(candidate);
+    });
+    if (containing.length === 1) return containing[0];
+    const scored = active
+      .map(p => ({ product: p, distance: editDistance(key, matchKey(p.name)) }))
+      .filter(s => s.distance <= Math.max(1, Math.floor(key.length / 6)))
+      .sort((a, b) => a.distance - b.distance);
+    return scored[0]?.product;
+  }
+};
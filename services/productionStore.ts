@@ -0,0 +1,77 @@
+import { ProductionEntry, ProductionQuery } from '../types';
+import { transact } from './indexedDb';
+
+/**
+ * PRODUCTION STORE
+ *
+ * Production entries live in IndexedDB instead of one localStorage JSON blob,
+ * so reads no longer parse the whole history and the table is not bound by the
+ * ~5 MB localStorage quota. Lookups go through the date, category, process and
+ * productName indexes. Writes are announced to other tabs on a BroadcastChannel.
+ */
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('halagel_production') : null;
+
+const announce = () => channel?.postMessage('changed');
+
+const matches = (entry: ProductionEntry, q: ProductionQuery) =>
+  (!q.from || entry.date >= q.from) &&
+  (!q.to || entry.date <= q.to) &&
+  (!q.category || entry.category === q.category) &&
+  (!q.process || entry.process === q.process) &&
+  (!q.productName || entry.productName === q.productName);
+
+export const ProductionStore = {
+  getAll: async (): Promise<ProductionEntry[]> =>
+    (await transact<ProductionEntry[]>('production', 'readonly', store => store.getAll())) || [],
+
+  get: async (id: string): Promise<ProductionEntry | null> =>
+    (await transact<ProductionEntry>('production', 'readonly', store => store.get(String(id)))) || null,
+
+  /**
+   * Reads through the most selective index the query allows (a date range
+   * first, then exact product, process or category) and filters the rest.
+   */
+  query: async (q: ProductionQuery): Promise<ProductionEntry[]> => {
+    const rows = await transact<ProductionEntry[]>('production', 'readonly', store => {
+      if (q.from || q.to) {
+        const range = q.from && q.to
+          ? IDBKeyRange.bound(q.from, q.to)
+          : q.from ? IDBKeyRange.lowerBound(q.from) : IDBKeyRange.upperBound(q.to!);
+        return store.index('date').getAll(range);
+      }
+      if (q.productName) return store.index('productName').getAll(q.productName);
+      if (q.process) return store.index('process').getAll(q.process);
+      if (q.category) return store.index('category').getAll(q.category);
+      return store.getAll();
+    });
+    return (rows || []).filter(e => matches(e, q));
+  },
+
+  put: async (entries: ProductionEntry[]) => {
+    if (entries.length === 0) return;
+    await transact('production', 'readwrite', store => { entries.forEach(e => store.put(e)); });
+    announce();
+  },
+
+  remove: async (ids: string[]) => {
+    if (ids.length === 0) return;
+    await transact('production', 'readwrite', store => { ids.forEach(id => store.delete(String(id))); });
+    announce();
+  },
+
+  replaceAll: async (entries: ProductionEntry[]) => {
+    await transact('production', 'readwrite', store => {
+      store.clear();
+      entries.forEach(e => store.put(e));
+    });
+    announce();
+  },
+
+  // Notifies when another tab changed production data; returns the unsubscribe function
+  subscribe: (listener: () => void) => {
+    if (!channel) return () => {};
+    const handler = () => listener();
+    channel.addEventListener('message', handler);
+    return () => channel.removeEventListener('message', handler);
+  }
+};
@@ -0,0 +1,93 @@
+import { DataCollection, QuarantineSource, QuarantinedRecord } from '../types';
+import { getDbTimestamp } from '../utils/dateUtils';
+
+/**
+ * QUARANTINE
+ *
+ * Records that fail validation are set aside here instead of entering the
+ * working data. The same bad row arriving again (every sync pulls it from the
+ * sheet) is recognised by its fingerprint and only refreshed. Fixed or
+ * discarded rows leave their fingerprint behind so they are not quarantined
+ * a second time.
+ */
+const KEY = 'halagel_quarantine';
+const DISMISSED_KEY = 'halagel_quarantine_dismissed';
+const DISMISSED_LIMIT = 1000;
+
+const readList = <T>(key: string): T[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(data) ? data : [];
+  } catch { return []; }
+};
+
+const write = (items: QuarantinedRecord[]) => {
+  localStorage.setItem(KEY, JSON.stringify(items));
+  window.dispatchEvent(new CustomEvent('quarantine-change', { detail: { count: items.length } }));
+};
+
+// Stable across syncs: the collection plus the record's content with keys in a fixed order
+const fingerprintOf = (collection: DataCollection, record: any): string => {
+  const canonical = (value: any): any => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().reduce((acc, k) => ({ ...acc, [k]: canonical(value[k]) }), {} as Record<string, any>);
+    }
+    return value;
+  };
+  return `${collection}:${JSON.stringify(canonical(record))}`;
+};
+
+export const QuarantineService = {
+  getAll: (): QuarantinedRecord[] => readList<QuarantinedRecord>(KEY),
+
+  count: (): number => readList<QuarantinedRecord>(KEY).length,
+
+  get: (id: string): QuarantinedRecord | undefined => readList<QuarantinedRecord>(KEY).find(q => q.id === id),
+
+  // Returns the number of records that were not already quarantined or discarded
+  add: (collection: DataCollection, source: QuarantineSource, rejected: { record: any; reasons: string[] }[]): number => {
+    if (rejected.length === 0) return 0;
+    const items = readList<QuarantinedRecord>(KEY);
+    const dismissed = new Set(readList<string>(DISMISSED_KEY));
+    const now = getDbTimestamp();
+    let added = 0;
+
+    rejected.forEach(({ record, reasons }) => {
+      const fingerprint = fingerprintOf(collection, record);
+      if (dismissed.has(fingerprint)) return;
+      const existing = items.find(q => q.fingerprint === fingerprint);
+      if (existing) {
+        existing.reasons = reasons;
+        existing.lastSeenAt = now;
+        return;
+      }
+      items.push({
+        id: crypto.randomUUID(),
+        collection,
+        source,
+        record,
+        reasons,
+        fingerprint,
+        detectedAt: now,
+        lastSeenAt: now
+      });
+      added++;
+    });
+
+    write(items);
+    return added;
+  },
+
+  // Takes a record out once it was fixed or discarded; the same row coming back
+  // unchanged from its source is ignored from then on
+  resolve: (id: string): QuarantinedRecord | undefined => {
+    const items = readList<QuarantinedRecord>(KEY);
+    const target = items.find(q => q.id === id);
+    if (!target) return undefined;
+    const dismissed = [...readList<string>(DISMISSED_KEY).filter(f => f !== target.fingerprint), target.fingerprint];
+    localStorage.setItem(DISMISSED_KEY, JSON.stringify(dismissed.slice(-DISMISSED_LIMIT)));
+    write(items.filter(q => q.id !== id));
+    return target;
+  }
+};
@@ -0,0 +1,111 @@
+import { User } from '../types';
+import { PasswordService } from './passwordService';
+import { StorageService } from './storageService';
+import { LoginGuardService } from './loginGuardService';
+import { getDbTimestamp } from '../utils/dateUtils';
+
+/**
+ * ADMIN RECOVERY
+ *
+ * When the first administrator is created (and whenever an admin regenerates it)
+ * a one-time recovery code is issued and offered as a download. Only its hash is
+ * kept on the device. Redeeming the code resets that admin's password and
+ * immediately issues a new code, so an old export file can never be reused.
+ */
+const KEY = 'halagel_recovery';
+const ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+interface RecoveryRecord {
+  userId: string;
+  codeHash: string;
+  createdAt: string;
+}
+
+export interface RecoveryFile {
+  type: 'halagel-recovery';
+  version: 1;
+  username: string;
+  code: string;
+  createdAt: string;
+}
+
+const generateCode = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  const chars = Array.from(bytes, b => ALPHABET[b % ALPHABET.length]).join('');
+  return chars.match(/.{5}/g)!.join('-');
+};
+
+const normalizeCode = (code: string) => code.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const getRecord = (): RecoveryRecord | null => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEY) || 'null');
+    return data && data.userId && data.codeHash ? data : null;
+  } catch { return null; }
+};
+
+export const RecoveryService = {
+  hasCode: (): boolean => !!getRecord(),
+
+  // Issues a new code for the given admin, replacing any previous one
+  issue: async (admin: User): Promise<RecoveryFile> => {
+    const code = generateCode();
+    const createdAt = getDbTimestamp();
+    const record: RecoveryRecord = {
+      userId: String(admin.id),
+      codeHash: await PasswordService.hash(normalizeCode(code)),
+      createdAt
+    };
+    localStorage.setItem(KEY, JSON.stringify(record));
+    return { type: 'halagel-recovery', version: 1, username: admin.username, code, createdAt };
+  },
+
+  download: (file: RecoveryFile) => {
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `halagel-recovery-${file.username}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(link.href);
+  },
+
+  // Accepts either the raw JSON of a recovery file or a typed code
+  parseCode: (input: string): string => {
+    try {
+      const data = JSON.parse(input);
+      if (data && data.type === 'halagel-recovery' && typeof data.code === 'string') return data.code;
+    } catch { /* not a file, treat as a typed code */ }
+    return input;
+  },
+
+  /**
+   * Resets the password of the admin the code was issued to. Returns the
+   * recovered user and a fresh recovery file, or null if the code is wrong.
+   */
+  redeem: async (code: string, newPassword: string): Promise<{ user: User; file: RecoveryFile } | null> => {
+    const record = getRecord();
+    if (!record) return null;
+    if (!(await PasswordService.verify(normalizeCode(code), record.codeHash))) return null;
+
+    // Only accounts still allowed to manage users can be recovered this way
+    const users = StorageService.getUsers();
+    const managers = StorageService.getPermissions()['users.manage'];
+    const target = users.find(u => String(u.id) === record.userId && managers.includes(u.role));
+    if (!target) return null;
+
+    const { password: _legacy, ...rest } = target;
+    const recovered: User = { ...rest, passwordHash: await PasswordService.hash(newPassword) };
+    StorageService.saveUsers(users.map(u => u.id === target.id ? recovered : u));
+    LoginGuardService.unlock(target.username);
+    StorageService.addLog({
+      userId: target.id,
+      userName: target.name,
+      action: 'ACCOUNT_RECOVERED',
+      details: `Password for @${target.username} reset with a recovery code`
+    });
+
+    return { user: recovered, file: await RecoveryService.issue(recovered) };
+  }
+};
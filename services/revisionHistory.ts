@@ -0,0 +1,94 @@
+import { ProductionEntry, ProductionRevision, FieldChange } from '../types';
+import { same } from './syncEngine';
+import { generateId } from '../utils/idUtils';
+
+/**
+ * PRODUCTION REVISION HISTORY
+ *
+ * Every save of a production entry appends a revision listing the fields it
+ * changed with their old and new values. Walking the list backwards from the
+ * current entry gives its state after any earlier revision, which is what a
+ * revert saves as a new revision. The actual reports grow with every shift, so
+ * a revision keeps only the reports that save added, changed or removed.
+ */
+
+// Bookkeeping and trash fields are not part of an entry's content history
+const UNTRACKED = ['id', 'updatedAt', 'lastUpdatedBy', 'revisions', 'deletedAt', 'deletedBy'];
+
+const REVISION_LIMIT = 100;
+
+const trackedFields = (...entries: (Partial<ProductionEntry> | null | undefined)[]) => {
+  const keys = new Set<string>();
+  entries.forEach(e => e && Object.keys(e).forEach(k => { if (!UNTRACKED.includes(k)) keys.add(k); }));
+  return Array.from(keys);
+};
+
+// Lists of records with ids whose changes are kept item by item
+const LIST_FIELDS = ['actuals'];
+
+const diffList = (field: string, from: { id: string }[], to: { id: string }[]): FieldChange => {
+  const before = new Map(from.map(r => [String(r.id), r]));
+  const after = new Map(to.map(r => [String(r.id), r]));
+  return {
+    field,
+    from: from.filter(r => !same(r, after.get(String(r.id)))),
+    to: to.filter(r => !same(r, before.get(String(r.id)))),
+    byId: true
+  };
+};
+
+// The list as it was before the change: added items dropped, changed ones put back, removed
+// ones appended (reports are voided rather than removed, so only reverts remove them)
+const undoList = (current: { id: string }[], change: FieldChange): { id: string }[] => {
+  const previous = new Map<string, { id: string }>(change.from.map((r: { id: string }) => [String(r.id), r]));
+  const added = new Set(change.to.map((r: { id: string }) => String(r.id)));
+  const present = new Set(current.map(r => String(r.id)));
+  return [
+    ...current.filter(r => previous.has(String(r.id)) || !added.has(String(r.id))).map(r => previous.get(String(r.id)) || r),
+    ...change.from.filter((r: { id: string }) => !present.has(String(r.id)))
+  ];
+};
+
+export const diffEntries = (previous: ProductionEntry | null, next: ProductionEntry): FieldChange[] =>
+  trackedFields(previous, next)
+    .filter(f => !same((previous as any)?.[f], (next as any)[f]))
+    .map(f => {
+      const from = (previous as any)?.[f];
+      const to = (next as any)[f];
+      return LIST_FIELDS.includes(f) && Array.isArray(from) && Array.isArray(to) ? diffList(f, from, to) : { field: f, from, to };
+    });
+
+/**
+ * Returns next with the stored history of previous plus a revision for this
+ * save. History sent along with next is ignored so a stale copy cannot
+ * rewrite it. Saves that change nothing add no revision.
+ */
+export const withRevision = (previous: ProductionEntry | null, next: ProductionEntry, revertOf?: string): ProductionEntry => {
+  const history = previous?.revisions || [];
+  const changes = diffEntries(previous, next);
+  if (changes.length === 0) return { ...next, revisions: history };
+  const revision: ProductionRevision = {
+    id: generateId(),
+    at: next.updatedAt,
+    by: next.lastUpdatedBy,
+    changes,
+    ...(revertOf ? { revertOf } : {})
+  };
+  return { ...next, revisions: [...history, revision].slice(-REVISION_LIMIT) };
+};
+
+// The entry's content as it was right after the given revision
+export const stateAt = (entry: ProductionEntry, revisionId: string): ProductionEntry => {
+  const revisions = entry.revisions || [];
+  const index = revisions.findIndex(r => r.id === revisionId);
+  if (index < 0) throw new Error('Revision not found in this entry\'s history');
+  const state: any = { ...entry };
+  for (let i = revisions.length - 1; i > index; i--) {
+    revisions[i].changes.forEach(c => {
+      if (c.byId) state[c.field] = undoList(state[c.field] || [], c);
+      else if (c.from === undefined) delete state[c.field];
+      else state[c.field] = c.from;
+    });
+  }
+  return state;
+};
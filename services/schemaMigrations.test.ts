@@ -0,0 +1,137 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ActivityLog, OffDay, ProductionEntry, User } from '../types';
+import { migrateRecord, migrateRecords, migrateTables, SCHEMA_VERSION } from './schemaMigrations';
+
+// One production entry as it was stored at each schema version, all describing the same plan
+const CURRENT: ProductionEntry = {
+  id: '1714550400000',
+  date: '2024-05-01',
+  category: 'Liquid',
+  process: 'Mixing',
+  productName: 'Soy Sauce',
+  planQuantity: 100,
+  actualQuantity: 80,
+  unit: 'KG',
+  batchNo: 'B-0501',
+  manpower: 3,
+  lastUpdatedBy: 'Aina',
+  updatedAt: '2024-05-01 08:30:00',
+  revisions: [],
+  actuals: [{
+    id: '1714550400000-actual',
+    quantity: 80,
+    batchNo: 'B-0501',
+    manpower: 3,
+    reportedBy: 'Aina',
+    reportedAt: '2024-05-01 08:30:00',
+    updatedAt: '2024-05-01 08:30:00'
+  }]
+};
+
+const { revisions: _revisions, actuals: _actuals, ...V3 } = CURRENT;
+
+const PRODUCTION_FIXTURES: [number, any][] = [
+  // Unversioned: a positional row from the sheet, dates as ISO instants
+  [0, ['1714550400000', '2024-04-30T16:00:00.000Z', 'Liquid', 'Mixing', 'Soy Sauce', '100', '80', 'KG', 'B-0501', '3', 'Aina', '2024-05-01T00:30:00.000Z']],
+  // Objects with numbers as text, a numeric id and no unit
+  [1, {
+    id: 1714550400000, date: '2024-04-30T16:00:00.000Z', category: 'Liquid', process: 'Mixing', productName: ' Soy Sauce ',
+    planQuantity: '100', actualQuantity: '80', batchNo: 'B-0501', manpower: '3', lastUpdatedBy: 'Aina', updatedAt: '2024-05-01T00:30:00.000Z'
+  }],
+  // Typed fields, dates and revisions still as the sheet returned them
+  [2, { ...V3, date: '2024-04-30T16:00:00.000Z', updatedAt: '2024-05-01T00:30:00.000Z', revisions: '[]' }],
+  [3, V3],
+  [4, V3],
+  [5, { ...V3, revisions: [] }],
+  [6, { ...V3, revisions: [] }],
+  [7, CURRENT]
+];
+
+describe('schema migrations', () => {
+  it('has a fixture for every version', () => {
+    expect(PRODUCTION_FIXTURES.map(([version]) => version)).toEqual(Array.from({ length: SCHEMA_VERSION + 1 }, (_, v) => v));
+  });
+
+  it.each(PRODUCTION_FIXTURES)('upgrades a production entry stored at v%i', (version, stored) => {
+    expect(migrateRecord('production', stored, version)).toEqual(CURRENT);
+  });
+
+  it.each(PRODUCTION_FIXTURES)('upgrades a production table stored at v%i', (version, stored) => {
+    expect(migrateTables({ production: [stored] }, version)).toEqual({ production: [CURRENT] });
+  });
+
+  it('leaves current records alone when they run the whole chain again', () => {
+    expect(migrateRecord('production', CURRENT)).toEqual(CURRENT);
+    expect(migrateRecords('production', [CURRENT], SCHEMA_VERSION)).toEqual([CURRENT]);
+  });
+
+  it('keeps the case of units for master data to resolve', () => {
+    expect(migrateRecord('production', { ...V3, unit: 'Litre' }, 1).unit).toBe('Litre');
+  });
+
+  it('keeps a plan without output free of actual records', () => {
+    const planned = { ...V3, actualQuantity: 0, manpower: 0 };
+    expect(migrateRecord('production', planned, 3)).toEqual({ ...planned, revisions: [] });
+  });
+
+  it('upgrades logs and off days from positional rows', () => {
+    const log: ActivityLog = {
+      id: 'L1', timestamp: '2024-05-01 08:30:00', userId: '7', userName: 'Aina', action: 'CREATE_PLAN', details: 'Soy Sauce'
+    };
+    const offDay: OffDay = { id: 'D1', date: '2024-05-01', description: 'Labour Day', createdBy: 'System' };
+    expect(migrateRecord('logs', ['L1', '2024-05-01T00:30:00.000Z', 7, 'Aina', 'CREATE_PLAN', 'Soy Sauce'])).toEqual(log);
+    expect(migrateRecord('offDays', ['D1', '2024-04-30T16:00:00.000Z', 'Labour Day'])).toEqual(offDay);
+  });
+
+  describe('duplicate ids', () => {
+    const user = (name: string): User => ({ id: '1714550400000', name, username: name.toLowerCase(), email: '', role: 'operator' });
+    const log = (id: string, userName: string): ActivityLog => ({
+      id, timestamp: '2024-05-01 08:30:00', userId: '1714550400000', userName, action: 'LOGIN', details: ''
+    });
+
+    it('re-keys every record after the first one sharing an id', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const tables = migrateTables({ production: [V3, { ...V3, productName: 'Chilli Sauce', batchNo: 'B-0502' }] }, 3);
+      const [first, second] = tables.production!;
+      expect(first).toEqual(CURRENT);
+      expect(second.id).not.toBe(CURRENT.id);
+      expect(second.productName).toBe('Chilli Sauce');
+    });
+
+    it('moves the log lines of a re-keyed user to the new id', () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const tables = migrateTables({
+        users: [user('Aina'), user('Badrul')],
+        logs: [log('L1', 'Aina'), log('L2', 'Badrul')]
+      }, 3);
+      const [aina, badrul] = tables.users!;
+      expect(aina.id).toBe('1714550400000');
+      expect(badrul.id).not.toBe('1714550400000');
+      expect(tables.logs!.map(l => l.userId)).toEqual(['1714550400000', badrul.id]);
+    });
+
+    it('is skipped for data already past v4', () => {
+      const duplicates = [CURRENT, { ...CURRENT, batchNo: 'B-0502' }];
+      expect(migrateTables({ production: duplicates }, 4).production).toEqual(duplicates);
+    });
+  });
+
+  describe('grouping batches into work orders', () => {
+    const stages = [
+      { ...V3, revisions: [] },
+      { ...V3, id: '1714636800000', date: '2024-05-02', process: 'Filling', updatedAt: '2024-05-02 09:00:00', revisions: [] }
+    ];
+
+    it('creates the same order on every device', () => {
+      vi.spyOn(console, 'info').mockImplementation(() => undefined);
+      const first = migrateTables({ production: stages, workOrders: [] }, 5);
+      const second = migrateTables({ production: [...stages].reverse(), workOrders: [] }, 5);
+      expect(second.workOrders).toEqual(first.workOrders);
+      expect(first.workOrders).toMatchObject([{
+        id: '1714550400000-order', batchNo: 'B-0501', route: ['Mixing', 'Filling'],
+        createdAt: '2024-05-01 08:30:00', updatedAt: '2024-05-01 08:30:00'
+      }]);
+      expect(first.production!.map(e => e.workOrderId)).toEqual(['1714550400000-order', '1714550400000-order']);
+    });
+  });
+});
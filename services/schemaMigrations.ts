@@ -0,0 +1,330 @@
+import { formatFullTimestamp, getDbTimestamp } from '../utils/dateUtils';
+import { generateId } from '../utils/idUtils';
+
+/**
+ * SCHEMA MIGRATIONS
+ *
+ * Every change to the shape of persisted records is one numbered step below,
+ * applied in order. Local data remembers the version it was last upgraded to
+ * and only runs the newer steps. Rows from the sheet carry no version and run
+ * the whole chain, so each step must leave an already-current record unchanged.
+ * Steps that need to see a whole table at once (e.g. to find duplicates) use
+ * upTables; they run for local data only, never for single sheet rows.
+ *
+ * Versions:
+ * 0 - unversioned: objects with missing fields, or positional rows from the sheet
+ * 1 - positional rows converted to objects
+ * 2 - optional fields present with their defaults, ids and text as strings,
+ *     quantities as numbers (invalid values are left for validation to reject)
+ * 3 - dates as YYYY-MM-DD and timestamps as "YYYY-MM-DD HH:mm:ss" (Malaysia time)
+ * 4 - duplicate ids (from Date.now() ids created in the same millisecond) re-keyed
+ * 5 - production entries carry a revision list (the sheet may hand it back as JSON text)
+ * 6 - entries sharing a batch number are grouped into a work order
+ * 7 - actual output is a list of reports; a single stored actual becomes the first report
+ */
+export type MigratedCollection = 'production' | 'offDays' | 'logs' | 'users' | 'workOrders' | 'downtime';
+
+export type MigratedTables = Partial<Record<MigratedCollection, any[]>>;
+
+interface Migration {
+  version: number;
+  description: string;
+  up: Partial<Record<MigratedCollection, (record: any) => any>>;
+  upTables?: (tables: MigratedTables) => MigratedTables;
+}
+
+const VERSION_KEY = 'halagel_schema_version';
+
+// Column order of the sheet tabs before the bridge returned objects
+const SHEET_COLUMNS: Record<Exclude<MigratedCollection, 'users' | 'workOrders' | 'downtime'>, string[]> = {
+  production: ['id', 'date', 'category', 'process', 'productName', 'planQuantity', 'actualQuantity', 'unit', 'batchNo', 'manpower', 'lastUpdatedBy', 'updatedAt'],
+  logs: ['id', 'timestamp', 'userId', 'userName', 'action', 'details'],
+  offDays: ['id', 'date', 'description', 'createdBy']
+};
+
+const fromRow = (columns: string[]) => (record: any) => {
+  if (!Array.isArray(record)) return record;
+  const obj: Record<string, any> = {};
+  columns.forEach((column, i) => {
+    if (record[i] !== undefined && record[i] !== '') obj[column] = record[i];
+  });
+  return obj;
+};
+
+const text = (value: any): string => String(value ?? '').trim();
+
+// Blank means zero; anything else that is not a number stays NaN so validation rejects it
+const quantity = (value: any): number => (value === undefined || value === null || value === '' ? 0 : Number(value));
+
+// Sheets hands dates back as ISO instants (midnight Malaysia time = 16:00Z the day before)
+const toDateOnly = (value: any): string => {
+  const text = String(value ?? '').trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return text;
+  if (text.includes('T')) return formatFullTimestamp(text).split(' ')[0];
+  return text.split(' ')[0];
+};
+
+const toTimestamp = (value: any): string => formatFullTimestamp(String(value ?? ''));
+
+const toList = (value: any): any[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' && value.trim().startsWith('[')) {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch { return []; }
+  }
+  return [];
+};
+
+/**
+ * Gives every record after the first one sharing an id a fresh id. Activity
+ * log lines point at users by id, so lines written by a re-keyed user (told
+ * apart by the name on the line) follow the user to the new id.
+ */
+const rekeyDuplicates = (tables: MigratedTables): MigratedTables => {
+  const result: MigratedTables = { ...tables };
+  const movedUsers: { from: string; to: string; name: string }[] = [];
+
+  (Object.keys(tables) as MigratedCollection[]).forEach(collection => {
+    const seen = new Set<string>();
+    let rekeyed = 0;
+    result[collection] = tables[collection]!.map(record => {
+      const id = String(record?.id ?? '');
+      if (!id || !seen.has(id)) {
+        seen.add(id);
+        return record;
+      }
+      const fresh = generateId();
+      seen.add(fresh);
+      rekeyed++;
+      if (collection === 'users') movedUsers.push({ from: id, to: fresh, name: String(record.name ?? '') });
+      return { ...record, id: fresh };
+    });
+    if (rekeyed > 0) console.warn(`Re-keyed ${rekeyed} duplicate ${collection} id(s)`);
+  });
+
+  if (movedUsers.length > 0 && result.logs) {
+    result.logs = result.logs.map(log => {
+      const moved = movedUsers.find(u => u.from === String(log.userId) && u.name === log.userName);
+      return moved ? { ...log, userId: moved.to } : log;
+    });
+  }
+  return result;
+};
+
+/**
+ * Entries that share a batch number but belong to no work order become the
+ * stages of one: an existing order for the batch, or a new one whose route
+ * follows the order in which the batch's processes were first planned. A
+ * batch number used by a single entry is not a multi-stage batch and is
+ * left alone.
+ */
+const groupBatches = (tables: MigratedTables): MigratedTables => {
+  if (!tables.production) return tables;
+  const orders = [...(tables.workOrders || [])];
+  const orderByBatch = new Map(orders.filter(o => !o.closedAt).map(o => [text(o.batchNo), o]));
+
+  const batches = new Map<string, any[]>();
+  tables.production.forEach(entry => {
+    const batchNo = text(entry?.batchNo);
+    if (!batchNo || entry.workOrderId || entry.deletedAt) return;
+    batches.set(batchNo, [...(batches.get(batchNo) || []), entry]);
+  });
+
+  const linked = new Map<string, string>();
+  let created = 0;
+  batches.forEach((entries, batchNo) => {
+    let order = orderByBatch.get(batchNo);
+    if (!order) {
+      if (entries.length < 2) return;
+      // Every device upgrades its own copy, so the order is derived from the
+      // entries alone and comes out the same everywhere
+      const sorted = [...entries].sort((a, b) => text(a.date).localeCompare(text(b.date)) || text(a.id).localeCompare(text(b.id)));
+      const route = Array.from(new Set(sorted.map(e => text(e.process))));
+      const first = sorted.filter(e => text(e.process) === route[0]);
+      const since = text(sorted[0].updatedAt) || text(sorted[0].date);
+      order = {
+        id: `${text(sorted[0].id)}-order`,
+        batchNo,
+        ...(sorted.find(e => e.productId) ? { productId: sorted.find(e => e.productId).productId } : {}),
+        productName: text(sorted[0].productName),
+        category: text(sorted[0].category),
+        quantity: first.reduce((total, e) => total + (Number(e.planQuantity) || 0), 0),
+        unit: text(sorted[0].unit),
+        route,
+        createdBy: 'System',
+        createdAt: since,
+        updatedAt: since
+      };
+      orders.push(order);
+      created++;
+    } else if (entries.some(e => !order!.route.includes(text(e.process)))) {
+      const route = Array.from(new Set([...order.route, ...entries.map(e => text(e.process))]));
+      const updatedAt = [order.updatedAt, ...entries.map(e => text(e.updatedAt))].reduce((a, b) => (b > a ? b : a));
+      order = { ...order, route, updatedAt };
+      orders[orders.findIndex(o => o.id === order!.id)] = order;
+    }
+    entries.forEach(e => linked.set(String(e.id), order!.id));
+  });
+  if (linked.size === 0) return tables;
+  if (created > 0) console.info(`Grouped batches into ${created} work order(s)`);
+
+  return {
+    ...tables,
+    production: tables.production.map(e => (linked.has(String(e?.id)) ? { ...e, workOrderId: linked.get(String(e.id)) } : e)),
+    workOrders: orders
+  };
+};
+
+/**
+ * Gives an entry its list of actual records. An actual recorded before
+ * reports existed becomes one report, keyed by the entry id so every device
+ * and every pass over the same sheet row produces the same record.
+ */
+const toActuals = (r: any) => {
+  if (Array.isArray(r.actuals) || (typeof r.actuals === 'string' && r.actuals.trim())) return { ...r, actuals: toList(r.actuals) };
+  if (!(quantity(r.actualQuantity) > 0)) return r;
+  return {
+    ...r,
+    actuals: [{
+      id: `${text(r.id)}-actual`,
+      quantity: quantity(r.actualQuantity),
+      batchNo: text(r.batchNo),
+      manpower: quantity(r.manpower),
+      ...(text(r.shift) ? { shift: text(r.shift) } : {}),
+      reportedBy: text(r.lastUpdatedBy),
+      reportedAt: text(r.updatedAt),
+      updatedAt: text(r.updatedAt)
+    }]
+  };
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Positional sheet rows become objects',
+    up: {
+      production: fromRow(SHEET_COLUMNS.production),
+      logs: fromRow(SHEET_COLUMNS.logs),
+      offDays: fromRow(SHEET_COLUMNS.offDays)
+    }
+  },
+  {
+    version: 2,
+    description: 'Optional fields get their defaults; ids and text are strings, quantities numbers',
+    up: {
+      production: r => ({
+        ...r,
+        id: text(r.id),
+        date: text(r.date),
+        category: text(r.category),
+        process: text(r.process),
+        productName: text(r.productName),
+        planQuantity: quantity(r.planQuantity),
+        actualQuantity: quantity(r.actualQuantity),
+        unit: text(r.unit || 'KG'),
+        batchNo: text(r.batchNo),
+        manpower: quantity(r.manpower),
+        lastUpdatedBy: text(r.lastUpdatedBy),
+        updatedAt: text(r.updatedAt) || getDbTimestamp()
+      }),
+      logs: r => ({
+        ...r,
+        id: text(r.id),
+        timestamp: text(r.timestamp),
+        userId: text(r.userId),
+        userName: text(r.userName) || 'System',
+        action: text(r.action),
+        details: text(r.details)
+      }),
+      offDays: r => ({
+        ...r,
+        id: text(r.id),
+        date: text(r.date),
+        description: text(r.description),
+        createdBy: text(r.createdBy) || 'System'
+      }),
+      users: r => ({ ...r, id: text(r.id) })
+    }
+  },
+  {
+    version: 3,
+    description: 'Dates are YYYY-MM-DD and timestamps "YYYY-MM-DD HH:mm:ss" in Malaysia time',
+    up: {
+      production: r => ({ ...r, date: toDateOnly(r.date), updatedAt: toTimestamp(r.updatedAt) }),
+      logs: r => ({ ...r, timestamp: toTimestamp(r.timestamp) }),
+      offDays: r => ({ ...r, date: toDateOnly(r.date) })
+    }
+  },
+  {
+    version: 4,
+    description: 'Duplicate ids are re-keyed',
+    up: {},
+    upTables: rekeyDuplicates
+  },
+  {
+    version: 5,
+    description: 'Production entries carry a revision list',
+    up: {
+      production: r => ({ ...r, revisions: toList(r.revisions) })
+    }
+  },
+  {
+    version: 6,
+    description: 'Entries sharing a batch number are grouped into work orders',
+    up: {},
+    upTables: groupBatches
+  },
+  {
+    version: 7,
+    description: 'Actual output is a list of reports',
+    up: {
+      production: toActuals
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const migrateRecord = <T = any>(collection: MigratedCollection, record: any, fromVersion = 0): T =>
+  MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .reduce((current, m) => (m.up[collection] ? m.up[collection]!(current) : current), record);
+
+export const migrateRecords = <T = any>(collection: MigratedCollection, records: any[], fromVersion = 0): T[] =>
+  fromVersion >= SCHEMA_VERSION ? records : records.map(r => migrateRecord<T>(collection, r, fromVersion));
+
+// Upgrades related tables together, running whole-table steps as well as per-record ones
+export const migrateTables = (tables: MigratedTables, fromVersion = 0): MigratedTables =>
+  MIGRATIONS
+    .filter(m => m.version > fromVersion)
+    .reduce((current, m) => {
+      const upgraded: MigratedTables = {};
+      (Object.keys(current) as MigratedCollection[]).forEach(c => {
+        const step = m.up[c];
+        upgraded[c] = step ? current[c]!.map(step) : current[c];
+      });
+      return m.upTables ? m.upTables(upgraded) : upgraded;
+    }, tables);
+
+/**
+ * Version each storage area was last upgraded to. localStorage tables and the
+ * IndexedDB production store upgrade separately because the latter is async.
+ * Data written before versioning existed counts as version 0.
+ */
+export type SchemaArea = 'local' | 'production';
+
+export const getSchemaVersion = (area: SchemaArea): number => {
+  try {
+    const all = JSON.parse(localStorage.getItem(VERSION_KEY) || '{}');
+    return typeof all[area] === 'number' ? all[area] : 0;
+  } catch { return 0; }
+};
+
+export const setSchemaVersion = (area: SchemaArea, version: number) => {
+  let all: Record<string, number> = {};
+  try { all = JSON.parse(localStorage.getItem(VERSION_KEY) || '{}') || {}; } catch { /* start fresh */ }
+  all[area] = version;
+  localStorage.setItem(VERSION_KEY, JSON.stringify(all));
+};
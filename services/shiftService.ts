@@ -0,0 +1,113 @@
+import { ShiftDefinition, ShiftBreakdownRow, ProductionEntry } from '../types';
+import { DEFAULT_SHIFTS } from '../constants';
+import { activeActuals } from './actualRecords';
+import { addDaysISO, getDbTimestamp } from '../utils/dateUtils';
+
+/**
+ * SHIFTS
+ *
+ * The shifts plans and actuals can be booked against, with start and end
+ * times in Malaysia time. Entries store the shift id, so renaming a shift
+ * needs no rewrite. An overnight shift counts toward the day it started on:
+ * output booked at 02:00 in a 23:00-07:00 shift belongs to the previous
+ * date. Saving and syncing go through StorageService; this module only
+ * reads, cleans and works out times.
+ */
+const KEY = 'halagel_shifts';
+
+const TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const isShiftTime = (value: any): boolean => typeof value === 'string' && TIME.test(value);
+
+const normalizeShift = (data: any): ShiftDefinition | null => {
+  if (!data || typeof data !== 'object') return null;
+  const id = String(data.id ?? '').trim();
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  if (!id || !name || !isShiftTime(data.start) || !isShiftTime(data.end)) return null;
+  return {
+    id,
+    name,
+    start: data.start,
+    end: data.end,
+    ...(data.archived === true ? { archived: true } : {})
+  };
+};
+
+// Falls back to the default shifts when nothing usable is stored; drops repeated ids
+export const normalizeShifts = (data: any): ShiftDefinition[] => {
+  if (!Array.isArray(data)) return DEFAULT_SHIFTS.map(s => ({ ...s }));
+  const seen = new Set<string>();
+  return data.map(normalizeShift).filter((s): s is ShiftDefinition => {
+    if (!s || seen.has(s.id)) return false;
+    seen.add(s.id);
+    return true;
+  });
+};
+
+export const crossesMidnight = (shift: ShiftDefinition) => shift.end <= shift.start;
+
+export const ShiftService = {
+  getAll: (): ShiftDefinition[] => {
+    try {
+      return normalizeShifts(JSON.parse(localStorage.getItem(KEY) || 'null'));
+    } catch { return normalizeShifts(null); }
+  },
+
+  write: (shifts: ShiftDefinition[]) => {
+    localStorage.setItem(KEY, JSON.stringify(normalizeShifts(shifts)));
+  },
+
+  // Shifts offered for new entries; `current` keeps an archived shift selectable while editing
+  options: (current?: string): ShiftDefinition[] =>
+    ShiftService.getAll().filter(s => !s.archived || s.id === current),
+
+  isKnown: (id: any): boolean => typeof id === 'string' && ShiftService.getAll().some(s => s.id === id),
+
+  // Display name; entries without a shift cover the whole day
+  label: (id?: string): string => {
+    if (!id) return 'Whole Day';
+    return ShiftService.getAll().find(s => s.id === id)?.name ?? id;
+  },
+
+  /**
+   * The active shift running at a "YYYY-MM-DD HH:mm:ss" Malaysia timestamp
+   * (default: now) and the production day it counts toward.
+   */
+  at: (timestamp = getDbTimestamp()): { shift: ShiftDefinition; productionDate: string } | null => {
+    const [date, clock] = timestamp.split(' ');
+    const time = (clock || '').slice(0, 5);
+    for (const shift of ShiftService.getAll().filter(s => !s.archived)) {
+      if (!crossesMidnight(shift)) {
+        if (time >= shift.start && time < shift.end) return { shift, productionDate: date };
+      } else if (time >= shift.start) {
+        return { shift, productionDate: date };
+      } else if (time < shift.end) {
+        return { shift, productionDate: addDaysISO(date, -1) };
+      }
+    }
+    return null;
+  },
+
+  /**
+   * Plan and actual per shift: every active shift, archived ones with entries,
+   * then entries without a shift. Each actual record counts toward the shift
+   * it was reported in, which may differ from the shift of its plan.
+   */
+  breakdown: (entries: ProductionEntry[]): ShiftBreakdownRow[] => {
+    const rows = new Map<string, ShiftBreakdownRow>();
+    ShiftService.getAll().forEach(s => {
+      if (!s.archived) rows.set(s.id, { shiftId: s.id, name: s.name, plan: 0, actual: 0 });
+    });
+    const row = (id = '') => {
+      if (!rows.has(id)) rows.set(id, { shiftId: id, name: ShiftService.label(id), plan: 0, actual: 0 });
+      return rows.get(id)!;
+    };
+    entries.forEach(e => {
+      row(e.shift).plan += e.planQuantity || 0;
+      if (Array.isArray(e.actuals)) activeActuals(e).forEach(a => { row(a.shift || e.shift).actual += a.quantity; });
+      else row(e.shift).actual += e.actualQuantity || 0;
+    });
+    // The whole-day row goes last
+    return Array.from(rows.values()).sort((a, b) => Number(!a.shiftId) - Number(!b.shiftId));
+  }
+};
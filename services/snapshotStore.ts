@@ -0,0 +1,35 @@
+import { LocalSnapshot, SnapshotSummary } from '../types';
+import { transact } from './indexedDb';
+
+/**
+ * SNAPSHOT STORE
+ *
+ * Local snapshots in IndexedDB. Summaries and contents sit in separate stores
+ * so listing snapshots never loads their data. A summary is written after its
+ * contents and removed before them, so every listed snapshot is complete.
+ */
+export const SnapshotStore = {
+  list: async (): Promise<SnapshotSummary[]> => {
+    const rows = (await transact<SnapshotSummary[]>('snapshots', 'readonly', store => store.getAll())) || [];
+    return rows.sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+  },
+
+  get: async (id: string): Promise<LocalSnapshot | null> => {
+    const summary = await transact<SnapshotSummary>('snapshots', 'readonly', store => store.get(id));
+    if (!summary) return null;
+    const contents = await transact<{ id: string; data: LocalSnapshot['data'] }>('snapshotData', 'readonly', store => store.get(id));
+    return contents ? { ...summary, data: contents.data } : null;
+  },
+
+  put: async (snapshot: LocalSnapshot) => {
+    const { data, ...summary } = snapshot;
+    await transact('snapshotData', 'readwrite', store => { store.put({ id: snapshot.id, data }); });
+    await transact('snapshots', 'readwrite', store => { store.put(summary); });
+  },
+
+  remove: async (ids: string[]) => {
+    if (ids.length === 0) return;
+    await transact('snapshots', 'readwrite', store => { ids.forEach(id => store.delete(id)); });
+    await transact('snapshotData', 'readwrite', store => { ids.forEach(id => store.delete(id)); });
+  }
+};
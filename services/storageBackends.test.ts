@@ -0,0 +1,133 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BackendCollection, OffDay, Session, StorageBackend } from '../types';
+import { STORES } from './indexedDb';
+import {
+  createGoogleSheetsBackend, createIndexedDbBackend, createLocalStorageBackend, createMemoryBackend, createRestBackend,
+  isLocalStoreEmpty
+} from './storageBackends';
+
+// A REST server that follows the documented contract, kept in a memory backend
+const restServer = createMemoryBackend();
+const serveRest = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+  const [collection, action] = new URL(String(input)).pathname.split('/').slice(2) as [BackendCollection, string?];
+  const body = init.body ? JSON.parse(String(init.body)) : undefined;
+  if (init.method === 'GET') return Response.json(await restServer.list(collection));
+  if (init.method === 'PUT') await restServer.replaceAll(collection, body);
+  else if (action === 'delete') await restServer.remove(collection, body.ids);
+  else await restServer.upsert(collection, body);
+  return new Response(null, { status: 204 });
+};
+
+// An Apps Script bridge answering the storage backend actions, also kept in memory
+const SHEET_URL = 'https://script.google.com/macros/s/test/exec';
+const sheet = createMemoryBackend();
+const serveSheet = async (input: RequestInfo | URL, init: RequestInit = {}) => {
+  if (init.method !== 'POST') {
+    const action = new URL(String(input)).searchParams.get('action')!;
+    const collection = action.replace(/^get/, '').replace(/^./, c => c.toLowerCase()) as BackendCollection;
+    return Response.json(await sheet.list(collection));
+  }
+  const { action, data } = JSON.parse(String(init.body));
+  const [, verb, name] = /^(upsert|delete)(.+)$/.exec(action)!;
+  const collection = name.replace(/^./, (c: string) => c.toLowerCase()) as BackendCollection;
+  if (verb === 'delete') await sheet.remove(collection, data);
+  else await sheet.upsert(collection, data);
+  return Response.json({ status: 'success' });
+};
+
+const serve = (input: RequestInfo | URL, init?: RequestInit) =>
+  (String(input).startsWith(SHEET_URL) ? serveSheet : serveRest)(input, init);
+
+const backends: [string, () => StorageBackend][] = [
+  ['memory', () => createMemoryBackend()],
+  ['localStorage', createLocalStorageBackend],
+  ['indexedDB', createIndexedDbBackend],
+  ['rest', () => createRestBackend('https://erp.example.com/api/', 'secret')],
+  ['googleSheets', () => {
+    localStorage.setItem('halagel_sheets_api_url', SHEET_URL);
+    return createGoogleSheetsBackend();
+  }]
+];
+
+const offDay = (id: string, description = 'Public holiday'): OffDay =>
+  ({ id, date: '2024-05-01', description, createdBy: 'admin' });
+
+const session = (token: string): Session =>
+  ({ token, userId: '1', issuedAt: 1, expiresAt: 2, lastActivity: 1, remember: false });
+
+describe.each(backends)('%s backend', (_name, create) => {
+  let backend: StorageBackend;
+
+  beforeAll(() => { vi.stubGlobal('fetch', vi.fn(serve)); });
+  afterAll(() => { vi.unstubAllGlobals(); });
+
+  beforeEach(async () => {
+    backend = create();
+    for (const collection of STORES) await backend.replaceAll(collection, []);
+  });
+
+  it('starts with empty collections', async () => {
+    for (const collection of STORES) expect(await backend.list(collection)).toEqual([]);
+  });
+
+  it('inserts new records and replaces existing ones by id', async () => {
+    await backend.upsert('offDays', [offDay('a'), offDay('b')]);
+    await backend.upsert('offDays', [offDay('b', 'Factory shutdown'), offDay('c')]);
+    const stored = await backend.list('offDays');
+    expect(stored.map(d => d.id).sort()).toEqual(['a', 'b', 'c']);
+    expect(stored.find(d => d.id === 'b')?.description).toBe('Factory shutdown');
+  });
+
+  it('keys sessions by token', async () => {
+    await backend.upsert('sessions', [session('t1'), session('t2')]);
+    await backend.upsert('sessions', [{ ...session('t1'), lastActivity: 5 }]);
+    await backend.remove('sessions', ['t2']);
+    expect(await backend.list('sessions')).toEqual([{ ...session('t1'), lastActivity: 5 }]);
+  });
+
+  it('returns copies the caller cannot use to change the store', async () => {
+    await backend.upsert('offDays', [offDay('a')]);
+    (await backend.list('offDays'))[0].description = 'Changed';
+    expect((await backend.list('offDays'))[0].description).toBe('Public holiday');
+  });
+
+  it('removes the given ids and ignores unknown ones', async () => {
+    await backend.upsert('offDays', [offDay('a'), offDay('b')]);
+    await backend.remove('offDays', ['a', 'missing']);
+    expect((await backend.list('offDays')).map(d => d.id)).toEqual(['b']);
+  });
+
+  it('replaces a whole collection', async () => {
+    await backend.upsert('offDays', [offDay('a'), offDay('b')]);
+    await backend.replaceAll('offDays', [offDay('c')]);
+    expect(await backend.list('offDays')).toEqual([offDay('c')]);
+  });
+
+  it('keeps collections apart', async () => {
+    await backend.upsert('offDays', [offDay('a')]);
+    await backend.replaceAll('sessions', [session('t1')]);
+    expect(await backend.list('users')).toEqual([]);
+    expect(await backend.list('offDays')).toEqual([offDay('a')]);
+  });
+});
+
+describe('localStorage backend', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('does not touch the working copy keys', async () => {
+    localStorage.setItem('halagel_production', '{"legacy":true}');
+    localStorage.setItem('halagel_users', '[]');
+    await createLocalStorageBackend().replaceAll('production', []);
+    await createLocalStorageBackend().upsert('users', []);
+    expect(localStorage.getItem('halagel_production')).toBe('{"legacy":true}');
+    expect(localStorage.getItem('halagel_users')).toBe('[]');
+  });
+
+  it('reports an empty store until it is first written', async () => {
+    expect(isLocalStoreEmpty()).toBe(true);
+    await createLocalStorageBackend().replaceAll('offDays', []);
+    expect(isLocalStoreEmpty()).toBe(false);
+  });
+});
@@ -0,0 +1,208 @@
+import { BackendCollection, BackendCollections, StorageBackend, StorageBackendConfig, StorageBackendKind } from '../types';
+import { STORES, transact } from './indexedDb';
+import { GoogleSheetsService } from './googleSheetsService';
+
+/**
+ * STORAGE BACKENDS
+ *
+ * Interchangeable implementations of the StorageBackend contract. StorageService
+ * keeps its synchronous working copy in localStorage and writes through to the
+ * backend selected in settings, so moving to a real database later means adding
+ * an implementation here rather than touching the pages.
+ *
+ * The backends hold users, production, off days, logs and sessions. Downtime,
+ * work orders, products, master data and shifts are kept on the device and
+ * shared through the Google Sheets sync only.
+ *
+ * StorageService does not write through to Google Sheets: several devices edit
+ * the sheet at once, so its working copy is kept in step by the merge-based
+ * sync instead. The Sheets backend serves reads of the shared tables.
+ *
+ * REST API contract (relative to the configured base URL):
+ * - GET  /{collection}          -> record[]
+ * - POST /{collection}          body: record[]        inserts or replaces by key
+ * - POST /{collection}/delete   body: { ids: string[] }
+ * - PUT  /{collection}          body: record[]        replaces the whole collection
+ */
+type Records<C extends BackendCollection> = BackendCollections[C][];
+
+const keyOf = (collection: BackendCollection, record: Record<string, any>) =>
+  String(collection === 'sessions' ? record.token : record.id);
+
+// Records cross the backend boundary as copies so callers never share mutable state with a store
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const upsertInto = <C extends BackendCollection>(existing: Records<C>, collection: C, records: Records<C>): Records<C> => {
+  const byKey = new Map(existing.map(r => [keyOf(collection, r), r]));
+  records.forEach(r => byKey.set(keyOf(collection, r), clone(r)));
+  return Array.from(byKey.values());
+};
+
+const removeFrom = <C extends BackendCollection>(existing: Records<C>, collection: C, ids: string[]): Records<C> => {
+  const drop = new Set(ids.map(String));
+  return existing.filter(r => !drop.has(keyOf(collection, r)));
+};
+
+/* ---------------------------------- Memory --------------------------------- */
+
+export const createMemoryBackend = (seed: { [C in BackendCollection]?: Records<C> } = {}): StorageBackend => {
+  const store = new Map<BackendCollection, unknown[]>(STORES.map(c => [c, clone(seed[c] || [])]));
+  const read = <C extends BackendCollection>(collection: C) => store.get(collection) as Records<C>;
+  const write = <C extends BackendCollection>(collection: C, records: Records<C>) => { store.set(collection, records); };
+
+  return {
+    kind: 'memory',
+    list: async <C extends BackendCollection>(collection: C) => clone(read(collection)),
+    upsert: async <C extends BackendCollection>(collection: C, records: Records<C>) =>
+      write(collection, upsertInto(read(collection), collection, records)),
+    remove: async (collection, ids) => write(collection, removeFrom(read(collection), collection, ids)),
+    replaceAll: async <C extends BackendCollection>(collection: C, records: Records<C>) => write(collection, clone(records))
+  };
+};
+
+/* ------------------------------- localStorage ------------------------------ */
+
+// A store of its own, apart from the working copy StorageService caches in localStorage
+const LOCAL_KEYS: Record<BackendCollection, string> = {
+  users: 'halagel_store_users',
+  production: 'halagel_store_production',
+  offDays: 'halagel_store_off_days',
+  logs: 'halagel_store_logs',
+  sessions: 'halagel_store_sessions'
+};
+
+// True until the localStorage backend has been written to on this device
+export const isLocalStoreEmpty = (): boolean => STORES.every(c => localStorage.getItem(LOCAL_KEYS[c]) === null);
+
+export const createLocalStorageBackend = (): StorageBackend => {
+  const read = <C extends BackendCollection>(collection: C): Records<C> => {
+    try {
+      const data = JSON.parse(localStorage.getItem(LOCAL_KEYS[collection]) || '[]');
+      return Array.isArray(data) ? data : [];
+    } catch { return []; }
+  };
+  const write = <C extends BackendCollection>(collection: C, records: Records<C>) =>
+    localStorage.setItem(LOCAL_KEYS[collection], JSON.stringify(records));
+
+  return {
+    kind: 'localStorage',
+    list: async <C extends BackendCollection>(collection: C) => read(collection),
+    upsert: async <C extends BackendCollection>(collection: C, records: Records<C>) =>
+      write(collection, upsertInto(read(collection), collection, records)),
+    remove: async (collection, ids) => write(collection, removeFrom(read(collection), collection, ids)),
+    replaceAll: async <C extends BackendCollection>(collection: C, records: Records<C>) => write(collection, records)
+  };
+};
+
+/* -------------------------------- IndexedDB -------------------------------- */
+
+export const createIndexedDbBackend = (): StorageBackend => ({
+  kind: 'indexedDB',
+  list: async <C extends BackendCollection>(collection: C) =>
+    (await transact<Records<C>>(collection, 'readonly', store => store.getAll())) || [],
+  upsert: async (collection, records) => {
+    await transact(collection, 'readwrite', store => { records.forEach(r => store.put(clone(r))); });
+  },
+  remove: async (collection, ids) => {
+    await transact(collection, 'readwrite', store => { ids.forEach(id => store.delete(String(id))); });
+  },
+  replaceAll: async (collection, records) => {
+    await transact(collection, 'readwrite', store => {
+      store.clear();
+      records.forEach(r => store.put(clone(r)));
+    });
+  }
+});
+
+/* ------------------------------ Google Sheets ------------------------------ */
+
+type SheetCollection = Exclude<BackendCollection, 'sessions'>;
+
+// Apps Script actions of each shared table (see the contract in googleSheetsService)
+const SHEET_ACTIONS: Record<SheetCollection, { fetch: string; upsert: string; remove: string }> = {
+  users: { fetch: 'getUsers', upsert: 'upsertUsers', remove: 'deleteUsers' },
+  production: { fetch: 'getProduction', upsert: 'upsertProduction', remove: 'deleteProduction' },
+  offDays: { fetch: 'getOffDays', upsert: 'upsertOffDays', remove: 'deleteOffDays' },
+  logs: { fetch: 'getLogs', upsert: 'upsertLogs', remove: 'deleteLogs' }
+};
+
+const sheetWrite = async (action: string, payload: unknown) => {
+  if (!(await GoogleSheetsService.saveData(action, payload))) throw new Error(`Google Sheets rejected ${action}`);
+};
+
+// Sessions belong to the device and never go to the shared sheet
+export const createGoogleSheetsBackend = (): StorageBackend => {
+  const device = createLocalStorageBackend();
+
+  const list = async <C extends BackendCollection>(collection: C): Promise<Records<C>> => {
+    if (collection === 'sessions') return device.list(collection);
+    const changes = await GoogleSheetsService.fetchChanges(SHEET_ACTIONS[collection as SheetCollection].fetch, null);
+    if (!changes) throw new Error('Google Sheets unreachable');
+    return changes.records;
+  };
+
+  const backend: StorageBackend = {
+    kind: 'googleSheets',
+    list,
+    upsert: async (collection, records) => {
+      if (collection === 'sessions') return device.upsert(collection, records);
+      if (records.length > 0) await sheetWrite(SHEET_ACTIONS[collection as SheetCollection].upsert, records);
+    },
+    remove: async (collection, ids) => {
+      if (collection === 'sessions') return device.remove(collection, ids);
+      if (ids.length > 0) await sheetWrite(SHEET_ACTIONS[collection].remove, ids.map(String));
+    },
+    // The sheet has no bulk replace, so stale rows are deleted and the rest upserted
+    replaceAll: async (collection, records) => {
+      if (collection === 'sessions') return device.replaceAll(collection, records);
+      const keep = new Set(records.map(r => keyOf(collection, r)));
+      const stale = (await list(collection)).map(r => keyOf(collection, r)).filter(id => !keep.has(id));
+      await backend.remove(collection, stale);
+      await backend.upsert(collection, records);
+    }
+  };
+  return backend;
+};
+
+/* ---------------------------------- REST ----------------------------------- */
+
+export const createRestBackend = (baseUrl: string, token?: string): StorageBackend => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${root}/${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    if (!response.ok) throw new Error(`REST ${method} /${path} failed: HTTP ${response.status}`);
+    return response.status === 204 ? null : response.json().catch(() => null);
+  };
+
+  return {
+    kind: 'rest',
+    list: async <C extends BackendCollection>(collection: C): Promise<Records<C>> => {
+      const data = await request('GET', collection);
+      if (!Array.isArray(data)) throw new Error(`REST GET /${collection} did not return a list`);
+      return data;
+    },
+    upsert: async (collection, records) => { await request('POST', collection, records); },
+    remove: async (collection, ids) => { await request('POST', `${collection}/delete`, { ids: ids.map(String) }); },
+    replaceAll: async (collection, records) => { await request('PUT', collection, records); }
+  };
+};
+
+export const createBackend = (config: StorageBackendConfig): StorageBackend => {
+  switch (config.kind) {
+    case 'indexedDB': return createIndexedDbBackend();
+    case 'googleSheets': return createGoogleSheetsBackend();
+    case 'rest':
+      if (!config.restUrl) throw new Error('REST backend needs a base URL');
+      return createRestBackend(config.restUrl, config.restToken);
+    case 'memory': return createMemoryBackend();
+    default: return createLocalStorageBackend();
+  }
+};
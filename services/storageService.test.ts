@@ -0,0 +1,108 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BackupData, MasterData, ProductionEntry } from '../types';
+import { DEFAULT_MASTER_DATA, DEFAULT_SHIFTS } from '../constants';
+import { StorageService } from './storageService';
+
+// The shared sheet as another device left it
+const sheet = vi.hoisted(() => ({ tables: {} as Record<string, any> }));
+
+vi.mock('./googleSheetsService', () => ({
+  GoogleSheetsService: {
+    isEnabled: () => true,
+    getActiveUrl: () => 'https://script.google.com/macros/s/test/exec',
+    fetchData: async (action: string) => sheet.tables[action] ?? null,
+    fetchChanges: async (action: string) =>
+      ({ records: sheet.tables[action] ?? [], deleted: [], serverTime: '2024-05-02 08:00:00', full: true }),
+    saveData: async () => true
+  }
+}));
+
+const entry: ProductionEntry = {
+  id: 'P1',
+  date: '2024-05-01',
+  category: 'Healthcare',
+  process: 'Mixing',
+  productName: 'Soy Sauce',
+  planQuantity: 100,
+  actualQuantity: 0,
+  unit: 'KG',
+  lastUpdatedBy: 'Aina',
+  updatedAt: '2024-05-01 08:30:00',
+  revisions: []
+};
+
+describe('syncing with Google Sheets', () => {
+  beforeEach(async () => {
+    sheet.tables = {};
+    localStorage.clear();
+    await StorageService.saveProductionData([]);
+  });
+
+  it('takes master data another device added before screening its records', async () => {
+    const masterData: MasterData = {
+      ...DEFAULT_MASTER_DATA,
+      categories: [...DEFAULT_MASTER_DATA.categories, { id: 'cat-frozen', name: 'Frozen' }]
+    };
+    sheet.tables = { getMasterData: masterData, getProduction: [{ ...entry, category: 'Frozen' }] };
+
+    await StorageService.syncWithSheets();
+
+    expect((await StorageService.getProductionData()).map(e => e.category)).toEqual(['Frozen']);
+    expect(StorageService.getQuarantined()).toEqual([]);
+  });
+
+  it('takes shifts another device added before screening its records', async () => {
+    const night = { id: 'shift-night', name: 'Night', start: '23:00', end: '07:00' };
+    sheet.tables = { getShifts: [...DEFAULT_SHIFTS, night], getProduction: [{ ...entry, shift: night.id }] };
+
+    await StorageService.syncWithSheets();
+
+    expect((await StorageService.getProductionData()).map(e => e.shift)).toEqual([night.id]);
+    expect(StorageService.getQuarantined()).toEqual([]);
+  });
+});
+
+describe('restoring a backup', () => {
+  const archive = (production: any[]): BackupData => ({
+    users: [],
+    production,
+    offDays: [],
+    logs: [],
+    settings: {} as BackupData['settings'],
+    workOrders: [{
+      id: 'W1', batchNo: 'B-0501', productName: 'Soy Sauce', category: 'Healthcare', quantity: 100, unit: 'KG',
+      route: ['Mixing'], createdBy: 'Aina', createdAt: '2024-05-01 08:00:00', updatedAt: '2024-05-01 08:00:00'
+    }],
+    downtime: []
+  });
+
+  beforeEach(async () => {
+    sheet.tables = {};
+    localStorage.clear();
+    await StorageService.saveProductionData([]);
+  });
+
+  it('previews every collection the archive restores', async () => {
+    const rows = await StorageService.previewImport(archive([]), 'merge');
+    expect(rows.map(r => r.collection)).toEqual(['users', 'production', 'offDays', 'logs', 'workOrders', 'downtime']);
+    expect(rows.find(r => r.collection === 'workOrders')).toMatchObject({ inArchive: 1, added: 1 });
+  });
+
+  it('stores records the way a sync would and quarantines invalid ones', async () => {
+    const reported = {
+      ...entry,
+      productId: '',
+      actualQuantity: 0,
+      actuals: [{ id: 'A1', quantity: 40, batchNo: '', manpower: 2, reportedBy: 'Aina', reportedAt: entry.updatedAt, updatedAt: entry.updatedAt }]
+    };
+    await StorageService.importData(archive([reported, { ...entry, id: 'P2', category: 'Frozen' }]), 'merge');
+
+    const [stored] = await StorageService.getProductionData();
+    expect(stored).toMatchObject({ id: 'P1', actualQuantity: 40, manpower: 2 });
+    expect(stored).not.toHaveProperty('productId');
+    expect((await StorageService.getProductionData()).map(e => e.id)).toEqual(['P1']);
+    expect(StorageService.getQuarantined()).toMatchObject([{ collection: 'production', source: 'backup', record: { id: 'P2' } }]);
+  });
+});
@@ -1,198 +1,1299 @@
 
-import { User, ProductionEntry, OffDay, ActivityLog } from '../types';
-import { INITIAL_USERS, INITIAL_OFF_DAYS, generateSeedProductionData } from '../constants';
+import {
+  User, ProductionEntry, OffDay, ActivityLog, Session, SessionSettings, Permission, PermissionMatrix,
+  ProductionQuery, SyncEntity, SyncPolicy, SyncConflict, SyncReport, StorageBackend, StorageBackendConfig, StorageBackendKind, BackendCollection, BackendCollections,
+  DataCollection, QuarantineSource, QuarantinedRecord, SoftDeletable, TrashCollection, TrashItem,
+  BackupData, RestoredCollection, RestoreMode, RestorePreviewRow, SnapshotReason, SnapshotSummary,
+  MasterData, MasterDataItem, MasterDataKind, Product, UnmappedProductName, WorkOrder, WorkOrderProgress,
+  ShiftDefinition, ShiftBreakdownRow, ActualRecord, LossRecord, LossKind, YieldSummary, LossReasonRow, DowntimeEntry, DowntimeSummaryRow
+} from '../types';
+import { LEGACY_SEED_USERS, INITIAL_OFF_DAYS, DEFAULT_SESSION_SETTINGS, DEFAULT_PERMISSIONS, ROLES, TRASH_RETENTION_DAYS, SNAPSHOT_RETENTION, MASTER_DATA_KINDS, DOWNTIME_REASONS, generateSeedProductionData } from '../constants';
 import { GoogleSheetsService } from './googleSheetsService';
-import { getDbTimestamp } from '../utils/dateUtils';
+import { mergeRecords, same } from './syncEngine';
+import { OutboxService } from './outboxService';
+import { createBackend, isLocalStoreEmpty } from './storageBackends';
+import { ProductionStore } from './productionStore';
+import { SnapshotStore } from './snapshotStore';
+import { SCHEMA_VERSION, getSchemaVersion, setSchemaVersion, migrateRecord, migrateRecords, migrateTables } from './schemaMigrations';
+import { ValidationService } from './validationService';
+import { withRevision, stateAt } from './revisionHistory';
+import { QuarantineService } from './quarantineService';
+import { MasterDataService, normalizeMasterData } from './masterDataService';
+import { ProductCatalogService, normalizeProducts } from './productCatalogService';
+import { WorkOrderService, normalizeWorkOrders } from './workOrderService';
+import { ShiftService, normalizeShifts, isShiftTime } from './shiftService';
+import { normalizeActuals, withActualTotals, yieldSummary, lossPareto } from './actualRecords';
+import { DowntimeService, normalizeDowntime } from './downtimeService';
+import { PasswordService } from './passwordService';
+import { getDbTimestamp, getTodayISO, addDaysISO, formatFullTimestamp } from '../utils/dateUtils';
+import { generateId } from '../utils/idUtils';
 
 const KEYS = {
   USERS: 'halagel_users',
-  PRODUCTION: 'halagel_production',
+  PRODUCTION: 'halagel_production', // legacy blob, moved to IndexedDB on first start
+  PRODUCTION_MIGRATED: 'halagel_production_migrated',
   OFF_DAYS: 'halagel_off_days',
   LOGS: 'halagel_activity_logs',
   CURRENT_USER: 'halagel_current_user_session',
+  SESSION_SETTINGS: 'halagel_session_settings',
+  PERMISSIONS: 'halagel_permissions',
+  SYNC_BASE: 'halagel_sync_base',
+  SYNC_CONFLICTS: 'halagel_sync_conflicts',
+  SYNC_POLICY: 'halagel_sync_policy',
+  SYNC_CURSOR: 'halagel_sync_cursor',
+  BACKEND: 'halagel_storage_backend',
+  BACKEND_DIRTY: 'halagel_backend_dirty',
 };
 
-// Normalizer for Production Entries - Ensures NO property is ever undefined/null
+const LOG_LIMIT = 500;
+
+// Credentials never leave the device in plain text: sync payloads and sessions carry
+// at most the salted hash
+const stripPassword = (user: User): User => {
+  const { password: _plain, ...rest } = user;
+  return rest;
+};
+
+const stripSecrets = (user: User): User => {
+  const { password: _plain, passwordHash: _hash, ...rest } = user;
+  return rest;
+};
+
+// Keeps the local credential when the sheet returns a user without a hash (rows
+// written before hashing existed, or pushed before this account was migrated), so a
+// pull can never downgrade a migrated credential or lock out an unmigrated one
+const mergeRemoteUsers = (remote: User[], local: User[]): User[] => {
+  const localById = new Map(local.map(u => [String(u.id), u]));
+  return remote.map(u => {
+    const existing = localById.get(String(u.id));
+    if (u.passwordHash || !existing) return u;
+    if (existing.passwordHash) return { ...stripPassword(u), passwordHash: existing.passwordHash };
+    if (existing.password !== undefined) return { ...stripPassword(u), password: existing.password };
+    return u;
+  });
+};
+
+const canonicalLossReasons = (record: ActualRecord): ActualRecord =>
+  record.losses
+    ? { ...record, losses: record.losses.map(l => ({ ...l, reason: MasterDataService.canonical('lossReasons', l.reason) })) }
+    : record;
+
+// Records from the sheet or from before versioning are upgraded through every
+// schema migration; current records pass through unchanged
+// Former master data names are read as the item's current name
 const normalizeProduction = (data: any): ProductionEntry => {
   if (!data) return {} as ProductionEntry;
-  
-  let entry: Partial<ProductionEntry> = {};
-  
-  if (Array.isArray(data)) {
-    entry = {
-      id: String(data[0] || Date.now()),
-      date: String(data[1] || '').split(' ')[0],
-      category: String(data[2] || 'Healthcare') as any,
-      process: String(data[3] || 'Mixing') as any,
-      productName: String(data[4] || 'Unknown'),
-      planQuantity: Number(data[5] || 0),
-      actualQuantity: Number(data[6] || 0),
-      unit: (String(data[7] || 'KG') as any).toUpperCase() === 'PCS' ? 'PCS' : 'KG',
-      batchNo: String(data[8] || ''),
-      manpower: Number(data[9] || 0),
-      lastUpdatedBy: String(data[10] || ''),
-      updatedAt: String(data[11] || getDbTimestamp())
-    };
-  } else {
-    entry = {
-      ...data,
-      id: String(data.id || Date.now()),
-      date: String(data.date || '').split(' ')[0],
-      productName: String(data.productName || 'Unknown'),
-      planQuantity: Number(data.planQuantity || 0),
-      actualQuantity: Number(data.actualQuantity || 0),
-      unit: (String(data.unit || 'KG') as any).toUpperCase() === 'PCS' ? 'PCS' : 'KG',
-      manpower: Number(data.manpower || 0),
-      batchNo: String(data.batchNo || ''),
-      process: String(data.process || 'Mixing') as any,
-      category: String(data.category || 'Healthcare') as any,
-      updatedAt: String(data.updatedAt || getDbTimestamp())
-    };
+  const entry = { ...migrateRecord<ProductionEntry>('production', data) };
+  MASTER_DATA_KINDS.forEach(({ kind, field }) => {
+    if (field && field in entry) entry[field] = MasterDataService.canonical(kind, entry[field]);
+  });
+  // Sheet rows of unlinked or whole-day entries carry empty productId / workOrderId / shift cells
+  if (!entry.productId) delete entry.productId;
+  if (!entry.workOrderId) delete entry.workOrderId;
+  if (!entry.shift) delete entry.shift;
+  if (entry.actuals !== undefined) entry.actuals = normalizeActuals(entry.actuals).map(canonicalLossReasons);
+  return withActualTotals(entry);
+};
+
+const normalizeLog = (data: any): ActivityLog =>
+  data ? migrateRecord<ActivityLog>('logs', data) : {} as ActivityLog;
+
+const normalizeOffDay = (data: any): OffDay =>
+  data ? migrateRecord<OffDay>('offDays', data) : {} as OffDay;
+
+// Former master data names are read as the item's current name
+const normalizeDowntimeEntry = (data: any): DowntimeEntry => {
+  if (!data) return {} as DowntimeEntry;
+  const entry = normalizeDowntime(migrateRecord('downtime', data));
+  return {
+    ...entry,
+    category: MasterDataService.canonical('categories', entry.category),
+    process: MasterDataService.canonical('processes', entry.process)
+  };
+};
+
+const normalizeUser = (data: any): User =>
+  data ? migrateRecord<User>('users', data) : {} as User;
+
+const NORMALIZERS: Record<DataCollection, (data: any) => any> = {
+  production: normalizeProduction,
+  offDays: normalizeOffDay,
+  downtime: normalizeDowntimeEntry,
+  logs: normalizeLog,
+  users: normalizeUser
+};
+
+// Keeps the records that pass validation; the rest go to quarantine for an admin to review
+const screen = <T>(collection: DataCollection, records: any[], source: QuarantineSource): T[] => {
+  const { valid, rejected } = ValidationService.partition<T>(collection, records);
+  const added = QuarantineService.add(collection, source, rejected);
+  if (added > 0) {
+    window.dispatchEvent(new CustomEvent('app-notification', {
+      detail: { message: `${added} INVALID RECORD${added === 1 ? '' : 'S'} QUARANTINED - SEE DATA HEALTH`, type: 'info' }
+    }));
   }
-  return entry as ProductionEntry;
+  return valid;
 };
 
-// Normalizer for Activity Logs
-const normalizeLog = (data: any): ActivityLog => {
-  if (!data) return {} as ActivityLog;
+// A record that arrives in an invalid state is not a deletion: the last good copy
+// of it is kept until the quarantined version is fixed
+const keepLastGood = <T extends { id: string }>(accepted: T[], received: any[], previous: T[]): T[] => {
+  const acceptedIds = new Set(accepted.map(r => String(r.id)));
+  const heldBack = new Set(received.map(r => String(r?.id ?? '')).filter(id => id && !acceptedIds.has(id)));
+  return [...accepted, ...previous.filter(r => heldBack.has(String(r.id)))];
+};
 
-  if (Array.isArray(data)) {
-    return {
-      id: String(data[0] || Date.now()),
-      timestamp: String(data[1] || getDbTimestamp()),
-      userId: String(data[2] || ''),
-      userName: String(data[3] || 'System'),
-      action: String(data[4] || 'LOG'),
-      details: String(data[5] || '')
-    };
+// Normalizer for the permission matrix - fills missing permissions from the defaults,
+// drops unknown roles and never lets admins lose user management (no lock-out)
+const normalizePermissions = (data: any): PermissionMatrix => {
+  const matrix = { ...DEFAULT_PERMISSIONS };
+  if (!data || typeof data !== 'object') return matrix;
+  (Object.keys(DEFAULT_PERMISSIONS) as Permission[]).forEach(key => {
+    if (Array.isArray(data[key])) {
+      matrix[key] = ROLES.filter(r => data[key].includes(r));
+    }
+  });
+  if (!matrix['users.manage'].includes('admin')) {
+    matrix['users.manage'] = ['admin', ...matrix['users.manage']];
   }
-  return {
-    ...data,
-    id: String(data.id || Date.now()),
-    timestamp: String(data.timestamp || getDbTimestamp()),
-    userName: String(data.userName || 'Unknown'),
-    details: String(data.details || '')
+  return matrix;
+};
+
+// Seeded demo accounts that still carry the shipped plain-text password lose it, so
+// the public default credentials stop working. Changed or migrated accounts are untouched.
+const disableSeedCredentials = (users: User[]): User[] =>
+  users.map(u => {
+    const seed = LEGACY_SEED_USERS.find(s => s.id === u.id && s.username === u.username);
+    return seed && !u.passwordHash && u.password === seed.password ? stripPassword(u) : u;
+  });
+
+const readLocalList = (key: string): any[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(key) || '[]');
+    return Array.isArray(data) ? data : [];
+  } catch { return []; }
+};
+
+/*
+ * Trash. Deleting a production entry, holiday or user only stamps deletedAt and
+ * deletedBy; the record keeps syncing like any other edit and is hidden from
+ * the normal reads until it is restored or, after the retention period, purged.
+ */
+const isTrashed = (record: SoftDeletable) => !!record.deletedAt;
+
+const clearDeleted = <T extends SoftDeletable>(record: T): T => {
+  const { deletedAt: _at, deletedBy: _by, ...rest } = record;
+  return rest as T;
+};
+
+// Callers save the list of live records; whatever is already in the trash stays there
+const withTrash = <T extends SoftDeletable & { id: string }>(live: T[], stored: T[]): T[] => {
+  const ids = new Set(live.map(r => String(r.id)));
+  return [...live, ...stored.filter(r => isTrashed(r) && !ids.has(String(r.id)))];
+};
+
+const purgeableFrom = (record: SoftDeletable) =>
+  addDaysISO(String(record.deletedAt).slice(0, 10), TRASH_RETENTION_DAYS);
+
+const readUsers = (): User[] => readLocalList(KEYS.USERS);
+
+const readOffDays = (): OffDay[] =>
+  readLocalList(KEYS.OFF_DAYS).map(normalizeOffDay).filter(od => od.date && od.date.length > 0);
+
+/*
+ * Backup restore. Merging adds records this device does not have and takes
+ * production entries the archive holds a newer version of; replacing makes
+ * the archive the whole data set. Users keep the password hashes stored here.
+ */
+const combine = <T extends { id: string }>(
+  device: T[], incoming: T[], mode: RestoreMode, takeIncoming: (current: T, archived: T) => boolean = () => false
+): T[] => {
+  if (mode === 'replace') return incoming;
+  const byId = new Map(device.map(r => [String(r.id), r]));
+  incoming.forEach(r => {
+    const current = byId.get(String(r.id));
+    if (!current || takeIncoming(current, r)) byId.set(String(r.id), r);
+  });
+  return Array.from(byId.values());
+};
+
+// Merging keeps this device's items and adds the archive's unknown ones, so
+// restored entries using them stay valid
+const mergeMasterData = (incoming: MasterData, mode: RestoreMode): MasterData => {
+  if (mode === 'replace') return incoming;
+  const device = MasterDataService.getAll();
+  const merged = { ...device };
+  MASTER_DATA_KINDS.forEach(({ kind }) => {
+    const known = new Set(device[kind].map(i => i.id));
+    merged[kind] = [...device[kind], ...(incoming[kind] || []).filter(i => !known.has(i.id) && !MasterDataService.nameTaken(kind, i.name))];
+  });
+  return merged;
+};
+
+const archiveIsNewer = (current: ProductionEntry, archived: ProductionEntry) =>
+  formatFullTimestamp(String(archived.updatedAt || '')) > formatFullTimestamp(String(current.updatedAt || ''));
+
+// The archive's records in the shape a sync would store them; collections the archive lacks are left out
+const fromArchive = (data: BackupData): Partial<Record<RestoredCollection, { id: string }[]>> => ({
+  users: data.users.map(normalizeUser),
+  production: data.production.map(normalizeProduction),
+  offDays: data.offDays.map(normalizeOffDay),
+  logs: data.logs.map(normalizeLog),
+  ...(data.workOrders ? { workOrders: normalizeWorkOrders(data.workOrders) } : {}),
+  ...(data.downtime ? { downtime: data.downtime.map(normalizeDowntimeEntry) } : {}),
+  ...(data.settings.products ? { products: normalizeProducts(data.settings.products) } : {}),
+  ...(data.settings.shifts ? { shifts: normalizeShifts(data.settings.shifts) } : {})
+});
+
+/*
+ * Local snapshots. One is taken each day and one before a sync pull changes
+ * or removes local records, so a bad pull can be rolled back. Each reason
+ * keeps its own number of snapshots.
+ */
+const takeSnapshot = async (reason: SnapshotReason): Promise<SnapshotSummary> => {
+  const data = await StorageService.exportData();
+  const summary: SnapshotSummary = {
+    id: generateId(),
+    reason,
+    createdAt: getDbTimestamp(),
+    schemaVersion: SCHEMA_VERSION,
+    counts: { users: data.users.length, production: data.production.length, offDays: data.offDays.length, logs: data.logs.length }
   };
+  await SnapshotStore.put({ ...summary, data });
+  const expired = (await SnapshotStore.list())
+    .filter(s => s.reason === reason)
+    .slice(SNAPSHOT_RETENTION[reason]);
+  await SnapshotStore.remove(expired.map(s => s.id));
+  return summary;
 };
 
-// Normalizer for Off Days
-const normalizeOffDay = (data: any): OffDay => {
-  if (!data) return {} as OffDay;
+const takeDailySnapshot = async () => {
+  const today = getTodayISO();
+  const snapshots = await SnapshotStore.list();
+  if (snapshots.some(s => s.reason === 'daily' && s.createdAt.startsWith(today))) return;
+  await takeSnapshot('daily');
+};
 
-  if (Array.isArray(data)) {
-    return {
-      id: String(data[0] || Date.now()),
-      date: String(data[1] || '').split(' ')[0],
-      description: String(data[2] || 'Holiday'),
-      createdBy: String(data[3] || 'System')
-    };
+// True when writing next in place of current would change or drop a record
+const overwrites = (current: { id: string }[], next: { id: string }[]) => {
+  const byId = new Map(next.map(r => [String(r.id), r]));
+  return current.some(r => !same(r, byId.get(String(r.id))));
+};
+
+// A failed snapshot is logged rather than holding back the sync
+const snapshotBeforeOverwrite = () =>
+  takeSnapshot('pre-sync').catch(err => console.error('Pre-sync snapshot failed:', err));
+
+// Work orders a migration created for existing batches
+const saveMigratedWorkOrders = (orders: WorkOrder[]) => {
+  if (same(orders, WorkOrderService.getAll())) return;
+  writeWorkOrders(orders);
+  // Their stage entries were re-linked in place, so send them as well
+  republish('production');
+};
+
+/**
+ * One-time move of production data from the localStorage blob into the
+ * IndexedDB store, followed by any pending schema migrations of the store.
+ * Fresh installs get the demo data there instead. The blob is only removed
+ * after IndexedDB has committed the copy.
+ */
+let productionReady: Promise<void> | null = null;
+const ensureProductionStore = (): Promise<void> => {
+  if (!productionReady) {
+    productionReady = (async () => {
+      if (!localStorage.getItem(KEYS.PRODUCTION_MIGRATED)) {
+        const raw = localStorage.getItem(KEYS.PRODUCTION);
+        // Duplicate ids are re-keyed before the store, keyed by id, would collapse them
+        const tables = raw === null ? null : migrateTables({ production: readLocalList(KEYS.PRODUCTION), workOrders: WorkOrderService.getAll() });
+        const legacy = tables === null
+          ? generateSeedProductionData()
+          : screen<ProductionEntry>('production', tables.production!, 'local');
+        await ProductionStore.put(legacy);
+        if (tables) saveMigratedWorkOrders(tables.workOrders!);
+        if (raw !== null && gainedIds(readLocalList(KEYS.PRODUCTION), legacy)) republish('production');
+        localStorage.setItem(KEYS.PRODUCTION_MIGRATED, new Date().toISOString());
+        localStorage.removeItem(KEYS.PRODUCTION);
+        // The blob went through the full migration chain on the way in
+        setSchemaVersion('production', SCHEMA_VERSION);
+      }
+      const from = getSchemaVersion('production');
+      if (from < SCHEMA_VERSION) {
+        const upgraded = migrateTables({ production: await ProductionStore.getAll(), workOrders: WorkOrderService.getAll() }, from);
+        await ProductionStore.replaceAll(screen('production', upgraded.production!, 'local'));
+        saveMigratedWorkOrders(upgraded.workOrders!);
+        setSchemaVersion('production', SCHEMA_VERSION);
+      }
+    })();
+    // Retry on the next call if IndexedDB was unavailable
+    productionReady.catch(() => { productionReady = null; });
   }
-  return {
-    ...data,
-    id: String(data.id || Date.now()),
-    date: String(data.date || '').split(' ')[0],
-    description: String(data.description || 'Holiday')
+  return productionReady;
+};
+
+const readProduction = async (): Promise<ProductionEntry[]> => {
+  await ensureProductionStore();
+  return ProductionStore.getAll();
+};
+
+const writeProduction = async (records: ProductionEntry[]) => {
+  await ensureProductionStore();
+  await ProductionStore.replaceAll(records);
+};
+
+/*
+ * Storage backend. localStorage always holds the working copy the pages read
+ * synchronously; the chosen backend is the system of record behind it, loaded at
+ * start-up and written through on every change. Google Sheets keeps using the
+ * merge-based sync below.
+ */
+const WRITE_THROUGH: StorageBackendKind[] = ['localStorage', 'indexedDB', 'rest'];
+const isWriteThrough = (config: StorageBackendConfig) => WRITE_THROUGH.includes(config.kind);
+
+const readBackendConfig = (): StorageBackendConfig => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEYS.BACKEND) || 'null');
+    if (data && typeof data.kind === 'string') return data;
+  } catch { /* fall through to the default */ }
+  // Installations from before backends were selectable keep syncing with their sheet
+  return { kind: GoogleSheetsService.isEnabled() ? 'googleSheets' : 'localStorage' };
+};
+
+let activeBackend: StorageBackend | null = null;
+const getActiveBackend = (): StorageBackend => {
+  const config = readBackendConfig();
+  if (!isWriteThrough(config)) throw new Error(`${config.kind} is not a write-through backend`);
+  if (!activeBackend) activeBackend = createBackend(config);
+  return activeBackend;
+};
+
+// Only a backend chosen in settings is written through, so default installs keep a single copy
+const writesThrough = () => localStorage.getItem(KEYS.BACKEND) !== null && isWriteThrough(readBackendConfig());
+// The IndexedDB backend's production store is the working store itself
+const sharesWorkingStore = (collection: BackendCollection) =>
+  collection === 'production' && readBackendConfig().kind === 'indexedDB';
+const sheetsActive = () => GoogleSheetsService.isEnabled() && readBackendConfig().kind === 'googleSheets';
+
+// Takes the shared user table as received, keeping local credentials the remote copy lacks
+const applySharedUsers = async (users: any[], source: QuarantineSource) => {
+  const local = readUsers();
+  const received = users.map(normalizeUser);
+  const accepted = keepLastGood(screen<User>('users', received, source), received, local);
+  const merged = disableSeedCredentials(mergeRemoteUsers(accepted, local));
+  if (overwrites(local, merged)) await snapshotBeforeOverwrite();
+  localStorage.setItem(KEYS.USERS, JSON.stringify(merged));
+};
+
+// Accounts kept beyond this device: the sheet or a REST backend
+const hasSharedUsers = () => sheetsActive() || (writesThrough() && readBackendConfig().kind === 'rest');
+
+const fetchSharedUsers = async (): Promise<any[]> => {
+  const shared = sheetsActive() ? createBackend({ kind: 'googleSheets' }) : getActiveBackend();
+  try {
+    return await shared.list('users');
+  } catch {
+    throw new Error('Could not reach the database to check for existing accounts');
+  }
+};
+
+// Collections whose last write-through failed; they are re-sent in full instead of reloaded
+const readDirty = (): BackendCollection[] => {
+  try {
+    const data = JSON.parse(localStorage.getItem(KEYS.BACKEND_DIRTY) || '[]');
+    return Array.isArray(data) ? data : [];
+  } catch { return []; }
+};
+
+const markDirty = (collection: BackendCollection) => {
+  const dirty = readDirty();
+  if (!dirty.includes(collection)) localStorage.setItem(KEYS.BACKEND_DIRTY, JSON.stringify([...dirty, collection]));
+};
+
+// Backend writes run in order, after start-up loading has finished
+let backendChain: Promise<unknown> = Promise.resolve();
+const writeThrough = (collection: BackendCollection, write: (backend: StorageBackend) => Promise<void>) => {
+  if (!writesThrough() || sharesWorkingStore(collection)) return;
+  backendChain = backendChain
+    .then(() => write(getActiveBackend()))
+    .catch(err => {
+      console.error(`Storage backend write failed (${collection}):`, err);
+      markDirty(collection);
+      window.dispatchEvent(new CustomEvent('app-notification', {
+        detail: { message: 'STORAGE BACKEND UNREACHABLE - CHANGE KEPT ON THIS DEVICE', type: 'info' }
+      }));
+    });
+};
+
+/**
+ * Writes through only the records a save changed, so devices sharing a backend
+ * never overwrite each other's records with their own copy of the collection.
+ */
+const writeThroughChanges = <C extends Exclude<BackendCollection, 'sessions'>>(
+  collection: C, before: BackendCollections[C][], after: BackendCollections[C][]
+) => {
+  const previous = new Map(before.map(r => [String(r.id), r]));
+  const kept = new Set(after.map(r => String(r.id)));
+  const upserts = after.filter(r => !same(r, previous.get(String(r.id))));
+  const removed = before.map(r => String(r.id)).filter(id => !kept.has(id));
+  if (upserts.length === 0 && removed.length === 0) return;
+  writeThrough(collection, async backend => {
+    if (upserts.length > 0) await backend.upsert(collection, upserts);
+    if (removed.length > 0) await backend.remove(collection, removed);
+  });
+};
+
+// How each two-way synced table maps onto its working copy and the Apps Script actions
+const SYNC_TABLES: Record<SyncEntity, {
+  read: () => Promise<any[]>;
+  write: (records: any[]) => Promise<void>;
+  fetchAction: string;
+  upsertAction: string;
+  deleteAction: string;
+  normalize: (data: any) => any;
+  label: (record: any) => string;
+  derived?: { fields: string[]; compute: (record: any) => any };
+}> = {
+  production: {
+    read: readProduction,
+    write: writeProduction,
+    fetchAction: 'getProduction',
+    upsertAction: 'upsertProduction',
+    deleteAction: 'deleteProduction',
+    normalize: normalizeProduction,
+    label: (p: ProductionEntry) => `${p.productName} · ${p.process} · ${p.date}`,
+    derived: { fields: ['actualQuantity', 'manpower'], compute: withActualTotals }
+  },
+  offDays: {
+    read: async () => readLocalList(KEYS.OFF_DAYS),
+    write: async records => localStorage.setItem(KEYS.OFF_DAYS, JSON.stringify(records)),
+    fetchAction: 'getOffDays',
+    upsertAction: 'upsertOffDays',
+    deleteAction: 'deleteOffDays',
+    normalize: normalizeOffDay,
+    label: (od: OffDay) => `${od.description} (${od.date})`
+  },
+  downtime: {
+    read: async () => DowntimeService.getAll(),
+    write: async records => DowntimeService.write(records),
+    fetchAction: 'getDowntime',
+    upsertAction: 'upsertDowntime',
+    deleteAction: 'deleteDowntime',
+    normalize: normalizeDowntimeEntry,
+    label: (d: DowntimeEntry) => `${d.process} · ${DOWNTIME_REASONS.find(r => r.reason === d.reason)?.label ?? d.reason} · ${d.date} ${d.start}-${d.end}`
+  }
+};
+
+const readTable = async (entity: SyncEntity): Promise<any[]> => {
+  const table = SYNC_TABLES[entity];
+  return (await table.read()).map(table.normalize).filter(r => r.date && r.date.length > 0);
+};
+
+// The version of each table both sides agreed on at the last successful sync.
+// null means this device has never completed a sync for the table.
+const getSyncBase = (entity: SyncEntity): any[] | null => {
+  try {
+    const all = JSON.parse(localStorage.getItem(KEYS.SYNC_BASE) || '{}');
+    return Array.isArray(all[entity]) ? all[entity] : null;
+  } catch { return null; }
+};
+
+const setSyncBase = (entity: SyncEntity, records: any[]) => {
+  let all: Record<string, any[]> = {};
+  try { all = JSON.parse(localStorage.getItem(KEYS.SYNC_BASE) || '{}') || {}; } catch { /* start fresh */ }
+  all[entity] = records;
+  localStorage.setItem(KEYS.SYNC_BASE, JSON.stringify(all));
+};
+
+// Server time of the last pull per table; the next pull only asks for rows changed after it
+type CursorTable = SyncEntity | 'logs';
+
+const getSyncCursor = (table: CursorTable): string | null => {
+  try {
+    const all = JSON.parse(localStorage.getItem(KEYS.SYNC_CURSOR) || '{}');
+    return typeof all[table] === 'string' ? all[table] : null;
+  } catch { return null; }
+};
+
+const setSyncCursor = (table: CursorTable, cursor: string | null) => {
+  let all: Record<string, string> = {};
+  try { all = JSON.parse(localStorage.getItem(KEYS.SYNC_CURSOR) || '{}') || {}; } catch { /* start fresh */ }
+  if (cursor) all[table] = cursor;
+  else delete all[table];
+  localStorage.setItem(KEYS.SYNC_CURSOR, JSON.stringify(all));
+};
+
+const saveConflicts = (conflicts: SyncConflict[]) => {
+  localStorage.setItem(KEYS.SYNC_CONFLICTS, JSON.stringify(conflicts));
+};
+
+// Sync runs one at a time so a background push never interleaves with a manual sync
+let syncChain: Promise<unknown> = Promise.resolve();
+const runExclusive = <T>(task: () => Promise<T>): Promise<T> => {
+  const next = syncChain.then(task, task);
+  syncChain = next.catch(() => undefined);
+  return next;
+};
+
+const emptyReport = (): SyncReport => ({ outcomes: [], conflicts: [], pushFailed: [] });
+
+/**
+ * Pulls the rows changed since the last sync, three-way merges them with local
+ * data and sends back only the records that differ from the sheet. The base
+ * only advances to what the sheet has confirmed, so unsent local edits are
+ * never mistaken for remote reverts.
+ */
+const syncTable = async (entity: SyncEntity): Promise<SyncReport | null> => {
+  const table = SYNC_TABLES[entity];
+  const base = getSyncBase(entity);
+  // Without a base there is nothing to apply a delta to, so ask for the whole table
+  const changes = await GoogleSheetsService.fetchChanges(table.fetchAction, base === null ? null : getSyncCursor(entity));
+  // Sheet unreachable: nothing merged, local data untouched
+  if (!changes) return null;
+
+  const received = changes.records.map(table.normalize);
+  const incoming = screen<any>(entity, received, 'sheet');
+  let remote: any[];
+  if (changes.full) {
+    remote = keepLastGood(incoming, received, base || []);
+  } else {
+    // Rebuild the sheet's current state from the agreed base plus the delta
+    const byId = new Map((base || []).map(r => [String(r.id), r]));
+    changes.deleted.forEach(id => byId.delete(id));
+    incoming.forEach(r => byId.set(String(r.id), r));
+    remote = Array.from(byId.values());
+  }
+  // Records we edited but the sheet deleted stay here, unsent, until the user settles the conflict
+  const awaiting = new Set(StorageService.getSyncConflicts().filter(c => c.entity === entity && c.remote === null).map(c => String(c.id)));
+  const stored = await readTable(entity);
+  const local = stored.filter(r => !awaiting.has(String(r.id)));
+
+  // First sync on this device adopts the sheet's copy of every record it holds (unless
+  // the sheet is still empty); records only this device has were never sent, so they
+  // go out as additions instead of being dropped
+  const remoteIds = new Set(remote.map(r => String(r.id)));
+  const result = base === null && remote.length > 0
+    ? mergeRecords(
+        [...remote, ...local.filter(r => !remoteIds.has(String(r.id)))], remote, remote,
+        { entity, policy: 'last-writer-wins', label: table.label, derived: table.derived }
+      )
+    : mergeRecords(local, remote, base || [], { entity, policy: StorageService.getSyncPolicy(), label: table.label, derived: table.derived });
+
+  result.conflicts.filter(c => c.remote === null).forEach(c => awaiting.add(String(c.id)));
+  const settled = result.merged.filter(r => !awaiting.has(String(r.id)));
+  const settledIds = new Set(settled.map(r => String(r.id)));
+  const kept = [...settled, ...stored.filter(r => awaiting.has(String(r.id)) && !settledIds.has(String(r.id)))];
+
+  if (overwrites(stored, kept)) await snapshotBeforeOverwrite();
+  await table.write(kept);
+
+  // Earlier unresolved conflicts stay until the user settles them
+  const newIds = new Set(result.conflicts.map(c => c.id));
+  saveConflicts([
+    ...StorageService.getSyncConflicts().filter(c => !(c.entity === entity && newIds.has(c.id))),
+    ...result.conflicts
+  ]);
+
+  const report: SyncReport = { outcomes: result.outcomes, conflicts: result.conflicts, pushFailed: [] };
+  let agreed = settled;
+  if (result.needsPush) {
+    const remoteById = new Map(remote.map(r => [String(r.id), r]));
+    const upserts = settled.filter(r => !same(r, remoteById.get(String(r.id))));
+    const deletes = remote.map(r => String(r.id)).filter(id => !settledIds.has(id));
+
+    const ok = (upserts.length === 0 || await GoogleSheetsService.saveData(table.upsertAction, upserts))
+      && (deletes.length === 0 || await GoogleSheetsService.saveData(table.deleteAction, deletes));
+    if (!ok) {
+      // The sheet still holds its own copy; our changes stay pending against it
+      agreed = remote;
+      report.pushFailed.push(entity);
+    }
+  }
+  setSyncBase(entity, agreed);
+  setSyncCursor(entity, changes.serverTime);
+  return report;
+};
+
+// Logs are append-only: pulled rows are added to ours, never replace them
+const pullLogs = async () => {
+  const changes = await GoogleSheetsService.fetchChanges('getLogs', getSyncCursor('logs'));
+  if (!changes) return;
+  const logs = StorageService.getLogs();
+  const known = new Set(logs.map(l => l.id));
+  const incoming = screen<ActivityLog>('logs', changes.records.map(normalizeLog), 'sheet').filter(l => !known.has(l.id));
+  const merged = [...logs, ...incoming]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, LOG_LIMIT);
+  localStorage.setItem(KEYS.LOGS, JSON.stringify(merged));
+  setSyncCursor('logs', changes.serverTime);
+};
+
+// Collections loaded from the backend into the working copy (sessions stay per device)
+const localCache = (key: string) => ({
+  read: async () => readLocalList(key),
+  write: async (records: any[]) => localStorage.setItem(key, JSON.stringify(records))
+});
+
+const CACHED: Record<Exclude<BackendCollection, 'sessions'>, {
+  read: () => Promise<any[]>;
+  write: (records: any[]) => Promise<void>;
+  normalize: (data: any) => any;
+}> = {
+  users: { ...localCache(KEYS.USERS), normalize: normalizeUser },
+  production: { read: readProduction, write: writeProduction, normalize: normalizeProduction },
+  offDays: { ...localCache(KEYS.OFF_DAYS), normalize: normalizeOffDay },
+  logs: { ...localCache(KEYS.LOGS), normalize: normalizeLog }
+};
+
+/**
+ * Refreshes the working copy from a write-through backend. Collections with
+ * unsent changes have all their records upserted first, so a failed write is
+ * never overwritten by the backend's older copy and other devices' records
+ * stay. A removal that failed is not repeated.
+ */
+const loadFromBackend = (): Promise<void> => {
+  if (!writesThrough()) return Promise.resolve();
+  const run = async () => {
+    const backend = getActiveBackend();
+    const dirty = readDirty();
+    for (const collection of Object.keys(CACHED) as (keyof typeof CACHED)[]) {
+      if (sharesWorkingStore(collection)) continue;
+      if (dirty.includes(collection)) {
+        await backend.upsert(collection, await CACHED[collection].read());
+        localStorage.setItem(KEYS.BACKEND_DIRTY, JSON.stringify(readDirty().filter(c => c !== collection)));
+      } else {
+        const received = (await backend.list(collection)).map(CACHED[collection].normalize);
+        const records = keepLastGood(screen<any>(collection, received, 'backend'), received, await CACHED[collection].read());
+        const cleaned = collection === 'users' ? disableSeedCredentials(records) : records;
+        await CACHED[collection].write(collection === 'logs' ? cleaned.slice(0, LOG_LIMIT) : cleaned);
+      }
+    }
+    announceSync(emptyReport());
   };
+  const next = backendChain.then(run);
+  backendChain = next.catch(() => undefined);
+  return next;
+};
+
+const announceSync = (report: SyncReport) => {
+  window.dispatchEvent(new CustomEvent('sync-complete', { detail: report }));
+};
+
+let retryTimer: number | null = null;
+
+const scheduleRetry = () => {
+  if (retryTimer) window.clearTimeout(retryTimer);
+  retryTimer = null;
+  const next = OutboxService.nextRetryAt();
+  if (next === null) return;
+  retryTimer = window.setTimeout(() => { processOutbox(); }, Math.max(0, next - Date.now()));
+};
+
+/**
+ * Sends every due outbox entry. Two-way tables go out through a merge rather
+ * than a blind overwrite; other tables post their latest payload. Entries only
+ * leave the outbox once the sheet has confirmed them.
+ */
+const processOutbox = (): Promise<void> => {
+  if (!sheetsActive()) return Promise.resolve();
+  return runExclusive(async () => {
+    for (const mutation of OutboxService.due()) {
+      let ok = false;
+      let error = 'Sheet unreachable';
+      if (mutation.kind === 'sync' && mutation.entity) {
+        const report = await syncTable(mutation.entity);
+        if (report) {
+          announceSync(report);
+          ok = report.pushFailed.length === 0;
+          if (!ok) error = 'Upload rejected';
+        }
+      } else if (mutation.action) {
+        ok = await GoogleSheetsService.saveData(mutation.action, mutation.payload);
+      }
+      if (ok) OutboxService.complete(mutation);
+      else OutboxService.fail(mutation, error);
+    }
+  }).finally(scheduleRetry);
+};
+
+const queueWrite = (mutation: Parameters<typeof OutboxService.enqueue>[0]) => {
+  if (!sheetsActive()) return;
+  OutboxService.enqueue(mutation);
+  processOutbox().catch(err => console.error('Outbox processing failed:', err));
+};
+
+const pushTable = (entity: SyncEntity) => queueWrite({ key: `sync:${entity}`, kind: 'sync', entity });
+
+const gainedIds = (before: any[], after: any[]) => {
+  const known = new Set(before.map(r => String(r?.id ?? '')));
+  return after.some(r => !known.has(String(r.id)));
+};
+
+const writeProducts = (products: Product[]) => {
+  const cleaned = normalizeProducts(products);
+  ProductCatalogService.write(cleaned);
+  // Explicit action 'saveProducts' targets the Products sheet
+  queueWrite({ key: 'saveProducts', kind: 'save', action: 'saveProducts', payload: cleaned });
+};
+
+const writeWorkOrders = (orders: WorkOrder[]) => {
+  const cleaned = normalizeWorkOrders(orders);
+  WorkOrderService.write(cleaned);
+  // Explicit action 'saveWorkOrders' targets the Work Orders sheet
+  queueWrite({ key: 'saveWorkOrders', kind: 'save', action: 'saveWorkOrders', payload: cleaned });
+};
+
+const writeShifts = (shifts: ShiftDefinition[]) => {
+  const cleaned = normalizeShifts(shifts);
+  ShiftService.write(cleaned);
+  // Explicit action 'saveShifts' targets the Shifts sheet
+  queueWrite({ key: 'saveShifts', kind: 'save', action: 'saveShifts', payload: cleaned });
+};
+
+const writeUsers = (users: User[]) => {
+  const before = readUsers();
+  localStorage.setItem(KEYS.USERS, JSON.stringify(users));
+  writeThroughChanges('users', before.map(stripPassword), users.map(stripPassword));
+  queueWrite({ key: 'saveUsers', kind: 'save', action: 'saveUsers', payload: users.map(stripPassword) });
+};
+
+const readDowntime = (): DowntimeEntry[] => DowntimeService.getAll().map(normalizeDowntimeEntry);
+
+const writeDowntime = (entries: DowntimeEntry[]) => {
+  DowntimeService.write(entries);
+  // Only changed stoppages go out, via 'upsertDowntime' / 'deleteDowntime'
+  pushTable('downtime');
+};
+
+const writeOffDays = (days: OffDay[]) => {
+  const before = readOffDays();
+  localStorage.setItem(KEYS.OFF_DAYS, JSON.stringify(days));
+  writeThroughChanges('offDays', before, days);
+  // Only changed holidays go out, via 'upsertOffDays' / 'deleteOffDays'
+  pushTable('offDays');
+};
+
+// Records re-keyed by a migration reach the backend and the sheet under their new id
+const republish = (collection: Exclude<DataCollection, 'downtime'>) => {
+  markDirty(collection);
+  if (collection === 'production' || collection === 'offDays') pushTable(collection);
+  if (collection === 'users') {
+    queueWrite({ key: 'saveUsers', kind: 'save', action: 'saveUsers', payload: readLocalList(KEYS.USERS).map(stripPassword) });
+  }
+};
+
+/**
+ * Upgrades everything kept in localStorage to the current schema version,
+ * including the sync bases and open conflicts so later merges compare like
+ * with like. Runs once per version bump.
+ */
+const migrateLocalData = () => {
+  const from = getSchemaVersion('local');
+  if (from >= SCHEMA_VERSION) return;
+
+  // Upgraded together so whole-table steps can keep log lines pointing at the right user
+  const stored = ([['offDays', KEYS.OFF_DAYS], ['logs', KEYS.LOGS], ['users', KEYS.USERS]] as const)
+    .filter(([, key]) => localStorage.getItem(key) !== null);
+  const upgraded = migrateTables(Object.fromEntries(stored.map(([c, key]) => [c, readLocalList(key)])), from);
+  stored.forEach(([collection, key]) => {
+    const before = readLocalList(key);
+    localStorage.setItem(key, JSON.stringify(screen(collection, upgraded[collection]!, 'local')));
+    // The activity log sheet is append-only, so re-keyed lines stay on this device
+    if (collection !== 'logs' && gainedIds(before, readLocalList(key))) republish(collection);
+  });
+
+  (Object.keys(SYNC_TABLES) as SyncEntity[]).forEach(entity => {
+    const base = getSyncBase(entity);
+    if (base) setSyncBase(entity, migrateRecords(entity, base, from));
+  });
+  saveConflicts(readLocalList(KEYS.SYNC_CONFLICTS).map((c: SyncConflict) => ({
+    ...c,
+    local: c.local ? migrateRecords(c.entity, [c.local], from)[0] : null,
+    remote: c.remote ? migrateRecords(c.entity, [c.remote], from)[0] : null
+  })));
+
+  setSchemaVersion('local', SCHEMA_VERSION);
+  console.info(`Local data upgraded from schema v${from} to v${SCHEMA_VERSION}`);
+};
+
+// Accounts still holding a legacy plain-text password are hashed once at start-up and
+// pushed, so every device receives the credential instead of a user without one
+const hashLegacyPasswords = async () => {
+  const legacy = readUsers().filter(u => !u.passwordHash && u.password);
+  if (legacy.length === 0) return;
+  const hashed = new Map<string, { plain: string; hash: string }>();
+  for (const u of legacy) {
+    hashed.set(String(u.id), { plain: u.password!, hash: await PasswordService.hash(u.password!) });
+  }
+  // Re-read so users changed while hashing keep their change
+  writeUsers(readUsers().map(u => {
+    const entry = hashed.get(String(u.id));
+    if (!entry || u.passwordHash || u.password !== entry.plain) return u;
+    return { ...stripPassword(u), passwordHash: entry.hash };
+  }));
 };
 
 const init = () => {
+  migrateLocalData();
+
+  // Users are no longer seeded: an empty store triggers the first-run admin setup
   if (!localStorage.getItem(KEYS.USERS)) {
-    localStorage.setItem(KEYS.USERS, JSON.stringify(INITIAL_USERS));
+    localStorage.setItem(KEYS.USERS, JSON.stringify([]));
+  } else {
+    try {
+      const stored = JSON.parse(localStorage.getItem(KEYS.USERS) || '[]');
+      if (Array.isArray(stored)) {
+        localStorage.setItem(KEYS.USERS, JSON.stringify(disableSeedCredentials(stored)));
+      }
+    } catch { /* leave unreadable data for getUsers() to handle */ }
+    hashLegacyPasswords().catch(err => console.error('Password migration failed:', err));
   }
   if (!localStorage.getItem(KEYS.OFF_DAYS)) {
     localStorage.setItem(KEYS.OFF_DAYS, JSON.stringify(INITIAL_OFF_DAYS));
   }
-  if (!localStorage.getItem(KEYS.PRODUCTION)) {
-    localStorage.setItem(KEYS.PRODUCTION, JSON.stringify(generateSeedProductionData()));
-  }
+  ensureProductionStore().catch(err => console.error('Production store migration failed:', err));
   if (!localStorage.getItem(KEYS.LOGS)) {
     localStorage.setItem(KEYS.LOGS, JSON.stringify([]));
   }
+  // "This Browser" chosen before it had a store of its own: fill the store instead of loading it empty
+  if (writesThrough() && readBackendConfig().kind === 'localStorage' && isLocalStoreEmpty()) {
+    (Object.keys(CACHED) as BackendCollection[]).forEach(markDirty);
+  }
+
+  // Resume sending writes left over from a previous session, and retry as soon as we are back online
+  window.addEventListener('online', () => {
+    processOutbox();
+    if (readDirty().length > 0) loadFromBackend().catch(err => console.error('Storage backend reload failed:', err));
+  });
+  window.setTimeout(() => {
+    processOutbox();
+    takeDailySnapshot().catch(err => console.error('Daily snapshot failed:', err));
+  }, 0);
+
+  loadFromBackend().catch(err => {
+    console.error('Storage backend load failed:', err);
+    window.dispatchEvent(new CustomEvent('app-notification', {
+      detail: { message: 'STORAGE BACKEND UNREACHABLE - USING LOCAL COPY', type: 'info' }
+    }));
+  });
 };
 
 init();
 
+// Applies a change to one actual record of a plan and saves the plan with its new totals
+const changeActual = async (
+  planId: string, recordId: string, change: (record: ActualRecord, now: string) => ActualRecord, changedBy: string
+): Promise<ActualRecord> => {
+  const plan = await StorageService.getProductionEntry(planId);
+  if (!plan) throw new Error('Production entry not found');
+  const current = normalizeProduction(plan);
+  const record = (current.actuals || []).find(r => r.id === recordId);
+  if (!record) throw new Error('Actual record not found');
+  const now = getDbTimestamp();
+  const changed = change(record, now);
+  await StorageService.upsertProduction([{
+    ...current,
+    actuals: current.actuals!.map(r => (r.id === recordId ? changed : r)),
+    lastUpdatedBy: String(changedBy),
+    updatedAt: now
+  }]);
+  return changed;
+};
+
 export const StorageService = {
-  getUsers: (): User[] => {
-    try {
-      const data = JSON.parse(localStorage.getItem(KEYS.USERS) || '[]');
-      return Array.isArray(data) ? data : [];
-    } catch { return []; }
+  getUsers: (): User[] => readUsers().filter(u => !isTrashed(u)),
+  // True when no administrator can sign in, i.e. the system has not been set up yet
+  needsBootstrap: (): boolean =>
+    !StorageService.getUsers().some(u => u.role === 'admin' && (u.passwordHash || u.password)),
+  // Whether first-run setup must wait for the shared user table before it may be offered
+  hasSharedUsers: (): boolean => hasSharedUsers(),
+  /**
+   * Whether first-run setup may run. A device that shares its accounts asks the
+   * shared table first: any account there means the system is set up, and the
+   * accounts are taken over so they can sign in. Rejects when it cannot tell.
+   */
+  checkBootstrap: async (): Promise<boolean> => {
+    if (!StorageService.needsBootstrap()) return false;
+    if (!hasSharedUsers()) return true;
+    const users = await fetchSharedUsers();
+    if (users.length === 0) return true;
+    await applySharedUsers(users, sheetsActive() ? 'sheet' : 'backend');
+    return false;
   },
   saveUsers: (users: User[]) => {
-    localStorage.setItem(KEYS.USERS, JSON.stringify(users));
-    GoogleSheetsService.saveData('saveUsers', users);
+    ValidationService.assertValid('users', users);
+    writeUsers(withTrash(users, readUsers()));
+  },
+  // Moves the account to the trash; it can no longer sign in
+  deleteUser: (id: string, deletedBy: string): User | null => {
+    const target = StorageService.getUsers().find(u => String(u.id) === String(id));
+    if (!target) return null;
+    const trashed = { ...target, deletedAt: getDbTimestamp(), deletedBy: String(deletedBy) };
+    writeUsers(readUsers().map(u => (String(u.id) === String(id) ? trashed : u)));
+    return trashed;
   },
   
-  getProductionData: (): ProductionEntry[] => {
+  getPermissions: (): PermissionMatrix => {
     try {
-      const data = JSON.parse(localStorage.getItem(KEYS.PRODUCTION) || '[]');
-      return Array.isArray(data) ? data.map(normalizeProduction).filter(p => p.date && p.date.length > 0) : [];
-    } catch { return []; }
+      return normalizePermissions(JSON.parse(localStorage.getItem(KEYS.PERMISSIONS) || 'null'));
+    } catch { return DEFAULT_PERMISSIONS; }
+  },
+  savePermissions: (matrix: PermissionMatrix) => {
+    const cleaned = normalizePermissions(matrix);
+    localStorage.setItem(KEYS.PERMISSIONS, JSON.stringify(cleaned));
+    // Explicit action 'savePermissions' targets the Permissions sheet
+    queueWrite({ key: 'savePermissions', kind: 'save', action: 'savePermissions', payload: cleaned });
+  },
+  
+  getProductionData: async (): Promise<ProductionEntry[]> =>
+    (await readProduction()).filter(p => p.date && p.date.length > 0 && !isTrashed(p)),
+  // Indexed lookup by date range, category, process and/or product name
+  queryProduction: async (query: ProductionQuery): Promise<ProductionEntry[]> => {
+    await ensureProductionStore();
+    return (await ProductionStore.query(query)).filter(p => !isTrashed(p));
+  },
+  getProductionEntry: async (id: string): Promise<ProductionEntry | null> => {
+    await ensureProductionStore();
+    const entry = await ProductionStore.get(id);
+    return entry && !isTrashed(entry) ? entry : null;
   },
-  saveProductionData: (data: ProductionEntry[]) => {
-    const cleaned = data.map(normalizeProduction).filter(p => p.date && p.date.length > 0);
-    localStorage.setItem(KEYS.PRODUCTION, JSON.stringify(cleaned));
-    // Explicit action 'saveProduction' targets the Production Report sheet
-    GoogleSheetsService.saveData('saveProduction', cleaned);
+  saveProductionData: async (data: ProductionEntry[]) => {
+    const validated = data.map(normalizeProduction);
+    ValidationService.assertValid('production', validated);
+    const before = await readProduction();
+    const cleaned = withTrash(validated, before);
+    await writeProduction(cleaned);
+    writeThroughChanges('production', before, cleaned);
+    // Only the rows that differ from the sheet go out, via 'upsertProduction' / 'deleteProduction'
+    pushTable('production');
   },
+  // Inserts or replaces the given entries by id, leaving the rest of the table as is.
+  // Each changed entry gains a revision in its history.
+  upsertProduction: async (entries: ProductionEntry[], revertOf?: string) => {
+    const validated = entries.map(normalizeProduction);
+    ValidationService.assertValid('production', validated);
+    await ensureProductionStore();
+    const cleaned = await Promise.all(validated.map(async e => withRevision(await ProductionStore.get(e.id), e, revertOf)));
+    await ProductionStore.put(cleaned);
+    writeThrough('production', backend => backend.upsert('production', cleaned));
+    pushTable('production');
+  },
+
+  // Saves the entry's content as it was after the given revision, as a new revision
+  revertProductionEntry: async (id: string, revisionId: string, revertedBy: string): Promise<ProductionEntry> => {
+    const current = await StorageService.getProductionEntry(id);
+    if (!current) throw new Error('Production entry not found');
+    const reverted = { ...stateAt(current, revisionId), lastUpdatedBy: String(revertedBy), updatedAt: getDbTimestamp() };
+    await StorageService.upsertProduction([reverted], revisionId);
+    return (await StorageService.getProductionEntry(id))!;
+  },
+
+  /**
+   * Adds a report of output to a plan. Earlier reports, from other operators
+   * or shifts, are kept and the plan's actual becomes the total of all of them.
+   */
+  recordActual: async (
+    planId: string,
+    report: Pick<ActualRecord, 'quantity' | 'batchNo' | 'manpower' | 'shift' | 'losses'>,
+    reportedBy: string
+  ): Promise<ActualRecord> => {
+    const plan = await StorageService.getProductionEntry(planId);
+    if (!plan) throw new Error('Selected plan no longer exists');
+    const current = normalizeProduction(plan);
+    const now = getDbTimestamp();
+    const record: ActualRecord = {
+      id: generateId(),
+      quantity: report.quantity,
+      batchNo: report.batchNo.trim(),
+      manpower: report.manpower,
+      ...(report.shift ? { shift: report.shift } : {}),
+      reportedBy: String(reportedBy),
+      reportedAt: now,
+      updatedAt: now,
+      ...(report.losses?.length ? { losses: report.losses } : {})
+    };
+    // Entry validation covers the record's quantity, manpower, shift and losses
+    await StorageService.upsertProduction([{
+      ...current,
+      actuals: [...(current.actuals || []), record],
+      batchNo: current.batchNo || record.batchNo,
+      lastUpdatedBy: String(reportedBy),
+      updatedAt: now
+    }]);
+    return record;
+  },
+
+  updateActual: (
+    planId: string,
+    recordId: string,
+    changes: Pick<ActualRecord, 'quantity' | 'batchNo' | 'manpower' | 'shift' | 'losses'>,
+    updatedBy: string
+  ): Promise<ActualRecord> =>
+    changeActual(planId, recordId, (record, now) => {
+      if (record.voidedAt) throw new Error('Restore the record before editing it');
+      const { shift: _was, losses: _lost, ...rest } = record;
+      return {
+        ...rest,
+        quantity: changes.quantity,
+        batchNo: changes.batchNo.trim(),
+        manpower: changes.manpower,
+        ...(changes.shift ? { shift: changes.shift } : {}),
+        ...(changes.losses?.length ? { losses: changes.losses } : {}),
+        updatedAt: now
+      };
+    }, updatedBy),
+
+  // Voided records stay on the plan for the audit trail but no longer count toward its actual
+  setActualVoided: (planId: string, recordId: string, voided: boolean, voidedBy: string): Promise<ActualRecord> =>
+    changeActual(planId, recordId, (record, now) => {
+      const { voidedAt: _at, voidedBy: _by, ...rest } = record;
+      return voided ? { ...rest, voidedAt: now, voidedBy: String(voidedBy), updatedAt: now } : { ...rest, updatedAt: now };
+    }, voidedBy),
+
+  // Good output, losses and first-pass yield of the given entries
+  getYieldSummary: (entries: ProductionEntry[]): YieldSummary => yieldSummary(entries),
+
+  // Losses per reason code, largest first
+  getLossPareto: (entries: ProductionEntry[], kinds?: LossKind[]): LossReasonRow[] => lossPareto(entries, kinds),
 
-  deleteProductionEntry: (id: string): { updatedData: ProductionEntry[], deletedItem: ProductionEntry | null } => {
+  // Moves the entry to the trash
+  deleteProductionEntry: async (id: string, deletedBy: string): Promise<{ deletedItem: ProductionEntry | null }> => {
     try {
-      const data = StorageService.getProductionData();
       const targetId = String(id);
-      const targetItem = data.find(p => String(p.id) === targetId) || null;
-      const updatedData = data.filter(p => String(p.id) !== targetId);
-      StorageService.saveProductionData(updatedData);
-      return { updatedData, deletedItem: targetItem };
+      const target = await StorageService.getProductionEntry(targetId);
+      if (!target) return { deletedItem: null };
+      const now = getDbTimestamp();
+      const deletedItem = { ...target, deletedAt: now, deletedBy: String(deletedBy), updatedAt: now, lastUpdatedBy: String(deletedBy) };
+      await ProductionStore.put([deletedItem]);
+      writeThrough('production', backend => backend.upsert('production', [deletedItem]));
+      pushTable('production');
+      return { deletedItem };
     } catch (err) {
       console.error("Storage delete error:", err);
-      return { updatedData: StorageService.getProductionData(), deletedItem: null };
+      return { deletedItem: null };
     }
   },
   
-  getOffDays: (): OffDay[] => {
+  getOffDays: (): OffDay[] => readOffDays().filter(od => !isTrashed(od)),
+  saveOffDays: (days: OffDay[]) => {
+    const cleaned = days.map(normalizeOffDay);
+    ValidationService.assertValid('offDays', cleaned);
+    writeOffDays(withTrash(cleaned, readOffDays()));
+  },
+  // Moves the holiday to the trash
+  deleteOffDay: (id: string, deletedBy: string): OffDay | null => {
+    const target = StorageService.getOffDays().find(od => od.id === id);
+    if (!target) return null;
+    const trashed = { ...target, deletedAt: getDbTimestamp(), deletedBy: String(deletedBy) };
+    writeOffDays(readOffDays().map(od => (od.id === id ? trashed : od)));
+    return trashed;
+  },
+
+  getTrash: async (): Promise<TrashItem[]> => {
+    const item = (collection: TrashCollection, record: SoftDeletable & { id: string }, label: string): TrashItem => ({
+      collection,
+      id: String(record.id),
+      label,
+      deletedAt: String(record.deletedAt),
+      deletedBy: String(record.deletedBy || ''),
+      purgeableFrom: purgeableFrom(record)
+    });
+    return [
+      ...(await readProduction()).filter(isTrashed).map(p => item('production', p, SYNC_TABLES.production.label(p))),
+      ...readOffDays().filter(isTrashed).map(od => item('offDays', od, SYNC_TABLES.offDays.label(od))),
+      ...readDowntime().filter(isTrashed).map(d => item('downtime', d, SYNC_TABLES.downtime.label(d))),
+      ...readUsers().filter(isTrashed).map(u => item('users', u, `${u.name} (@${u.username})`))
+    ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+  },
+
+  // Brings a trashed record back; refuses when a live record now takes its place
+  restoreFromTrash: async (collection: TrashCollection, id: string, restoredBy: string): Promise<TrashItem> => {
+    const item = (await StorageService.getTrash()).find(t => t.collection === collection && t.id === id);
+    if (!item) throw new Error('Record is no longer in the trash');
+    // Reviving an account is user management, not just trash housekeeping
+    if (collection === 'users') {
+      const restorer = StorageService.getUsers().find(u => String(u.id) === String(restoredBy));
+      if (!restorer || !StorageService.getPermissions()['users.manage'].includes(restorer.role)) {
+        throw new Error('Only user managers can restore user accounts');
+      }
+    }
+    if (collection === 'production') {
+      const entry = await ProductionStore.get(id);
+      const restored = { ...clearDeleted(entry!), updatedAt: getDbTimestamp(), lastUpdatedBy: String(restoredBy) };
+      await ProductionStore.put([restored]);
+      writeThrough('production', backend => backend.upsert('production', [restored]));
+      pushTable('production');
+    } else if (collection === 'offDays') {
+      const days = readOffDays();
+      const target = days.find(od => od.id === id)!;
+      if (StorageService.getOffDays().some(od => od.date === target.date)) {
+        throw new Error(`${target.date} is already marked as a holiday`);
+      }
+      writeOffDays(days.map(od => (od.id === id ? clearDeleted(od) : od)));
+    } else if (collection === 'downtime') {
+      writeDowntime(readDowntime().map(d => (d.id === id ? { ...clearDeleted(d), updatedAt: getDbTimestamp() } : d)));
+    } else {
+      const users = readUsers();
+      const target = users.find(u => String(u.id) === id)!;
+      if (StorageService.getUsers().some(u => u.username.toLowerCase() === target.username.toLowerCase())) {
+        throw new Error(`Username @${target.username} is taken by another account`);
+      }
+      writeUsers(users.map(u => (String(u.id) === id ? clearDeleted(u) : u)));
+    }
+    return item;
+  },
+
+  // Removes a trashed record for good once its retention period is over
+  purgeFromTrash: async (collection: TrashCollection, id: string): Promise<TrashItem> => {
+    const item = (await StorageService.getTrash()).find(t => t.collection === collection && t.id === id);
+    if (!item) throw new Error('Record is no longer in the trash');
+    if (getTodayISO() < item.purgeableFrom) {
+      throw new Error(`${item.label} can be purged from ${item.purgeableFrom}`);
+    }
+    if (collection === 'production') {
+      await ProductionStore.remove([id]);
+      writeThrough('production', backend => backend.remove('production', [id]));
+      pushTable('production');
+    } else if (collection === 'offDays') {
+      writeOffDays(readOffDays().filter(od => od.id !== id));
+    } else if (collection === 'downtime') {
+      writeDowntime(readDowntime().filter(d => d.id !== id));
+    } else {
+      writeUsers(readUsers().filter(u => String(u.id) !== id));
+    }
+    return item;
+  },
+
+  getSyncPolicy: (): SyncPolicy =>
+    localStorage.getItem(KEYS.SYNC_POLICY) === 'ask' ? 'ask' : 'last-writer-wins',
+  saveSyncPolicy: (policy: SyncPolicy) => {
+    localStorage.setItem(KEYS.SYNC_POLICY, policy);
+  },
+
+  getSyncConflicts: (): SyncConflict[] => {
     try {
-      const data = JSON.parse(localStorage.getItem(KEYS.OFF_DAYS) || '[]');
-      return Array.isArray(data) ? data.map(normalizeOffDay).filter(od => od.date && od.date.length > 0) : [];
+      const data = JSON.parse(localStorage.getItem(KEYS.SYNC_CONFLICTS) || '[]');
+      return Array.isArray(data) ? data : [];
     } catch { return []; }
   },
-  saveOffDays: (days: OffDay[]) => {
-    const cleaned = days.map(normalizeOffDay).filter(od => od.date && od.date.length > 0);
-    localStorage.setItem(KEYS.OFF_DAYS, JSON.stringify(cleaned));
-    // Explicit action 'saveOffDays' targets the Public Holidays sheet
-    GoogleSheetsService.saveData('saveOffDays', cleaned);
+
+  /**
+   * Settles a conflict the merge could not. Choosing "local" re-applies our copy
+   * on top of the remote one; choosing "remote" accepts the sheet's copy.
+   */
+  resolveSyncConflict: async (entity: SyncEntity, id: string, choice: 'local' | 'remote') => {
+    const conflict = StorageService.getSyncConflicts().find(c => c.entity === entity && c.id === id);
+    if (!conflict) return;
+    saveConflicts(StorageService.getSyncConflicts().filter(c => !(c.entity === entity && c.id === id)));
+
+    const table = SYNC_TABLES[entity];
+    const keep = choice === 'local' ? conflict.local : conflict.remote;
+    const others = (await readTable(entity)).filter(r => String(r.id) !== id);
+    await table.write(keep ? [...others, table.normalize(keep)] : others);
+
+    // Record the remote copy as agreed, so only our chosen changes count as edits
+    const base = (getSyncBase(entity) || []).filter(r => String(r.id) !== id);
+    setSyncBase(entity, conflict.remote ? [...base, conflict.remote] : base);
+
+    pushTable(entity);
   },
 
-  syncWithSheets: async () => {
-    if (!GoogleSheetsService.isEnabled()) return;
+  getBackendConfig: (): StorageBackendConfig => readBackendConfig(),
+
+  /**
+   * Makes another backend the system of record. Everything on this device is
+   * merged into it first, keeping what other devices already stored there; the
+   * setting only changes once the copy succeeded, and the working copy is then
+   * reloaded from the merged backend.
+   */
+  switchBackend: async (config: StorageBackendConfig) => {
+    if (config.kind === 'googleSheets' && !GoogleSheetsService.isEnabled()) {
+      throw new Error('Save a Google Apps Script URL first');
+    }
+    const target = isWriteThrough(config) ? createBackend(config) : null;
+    if (target) {
+      await backendChain;
+      await target.upsert('users', readUsers().map(stripPassword));
+      // Switching to IndexedDB keeps production where it already is
+      if (config.kind !== 'indexedDB') await target.upsert('production', await readProduction());
+      await target.upsert('offDays', readOffDays());
+      await target.upsert('logs', StorageService.getLogs());
+      const session = StorageService.getSession();
+      if (session) await target.upsert('sessions', [session]);
+    }
+    localStorage.setItem(KEYS.BACKEND, JSON.stringify(config));
+    localStorage.removeItem(KEYS.BACKEND_DIRTY);
+    activeBackend = target;
+    if (target) await loadFromBackend();
+    // The sheet is merged rather than overwritten
+    if (config.kind === 'googleSheets') await StorageService.syncWithSheets();
+  },
+
+  // Re-reads the working copy from the write-through backend
+  reloadFromBackend: (): Promise<void> => loadFromBackend(),
+
+  isSheetsSyncActive: (): boolean => sheetsActive(),
+
+  syncWithSheets: async (): Promise<SyncReport> => {
+    if (!sheetsActive()) return emptyReport();
     
     try {
-      const results = await Promise.all([
-        GoogleSheetsService.fetchData<any[]>('getProduction'),
-        GoogleSheetsService.fetchData<any[]>('getOffDays'),
-        GoogleSheetsService.fetchData<any[]>('getLogs'),
-        GoogleSheetsService.fetchData<User[]>('getUsers')
+      // Send queued writes first so the pull below sees them
+      await processOutbox();
+
+      // Records are screened against master data and shifts, so the categories,
+      // units, loss reasons and shifts another device added must arrive before its records
+      const [masterData, shifts] = await Promise.all([
+        GoogleSheetsService.fetchData<MasterData>('getMasterData'),
+        GoogleSheetsService.fetchData<ShiftDefinition[]>('getShifts')
+      ]);
+      if (masterData && typeof masterData === 'object' && !Array.isArray(masterData) && !OutboxService.hasPending('saveMasterData')) {
+          MasterDataService.write(normalizeMasterData(masterData));
+      }
+      if (shifts && Array.isArray(shifts) && !OutboxService.hasPending('saveShifts')) {
+          ShiftService.write(normalizeShifts(shifts));
+      }
+
+      // Two-way tables sync inside the exclusive section so a background push
+      // cannot land between our fetch and our merge
+      const reports = (await runExclusive(async () =>
+        [await syncTable('production'), await syncTable('offDays'), await syncTable('downtime')]
+      )).filter((r): r is SyncReport => r !== null);
+
+      const [, users, permissions, products, workOrders] = await Promise.all([
+        pullLogs(),
+        GoogleSheetsService.fetchData<User[]>('getUsers'),
+        GoogleSheetsService.fetchData<PermissionMatrix>('getPermissions'),
+        GoogleSheetsService.fetchData<Product[]>('getProducts'),
+        GoogleSheetsService.fetchData<WorkOrder[]>('getWorkOrders')
       ]);
 
-      if (results[0] && Array.isArray(results[0])) {
-          const cleaned = results[0].map(normalizeProduction).filter(p => p.date && p.date.length > 0);
-          localStorage.setItem(KEYS.PRODUCTION, JSON.stringify(cleaned));
+      // One-way tables are only replaced when no local write for them is still waiting
+      if (users && Array.isArray(users) && !OutboxService.hasPending('saveUsers')) {
+          await applySharedUsers(users, 'sheet');
       }
-      
-      if (results[1] && Array.isArray(results[1])) {
-          const cleaned = results[1].map(normalizeOffDay).filter(od => od.date && od.date.length > 0);
-          localStorage.setItem(KEYS.OFF_DAYS, JSON.stringify(cleaned));
+
+      if (permissions && typeof permissions === 'object' && !Array.isArray(permissions) && !OutboxService.hasPending('savePermissions')) {
+          localStorage.setItem(KEYS.PERMISSIONS, JSON.stringify(normalizePermissions(permissions)));
       }
 
-      if (results[2] && Array.isArray(results[2])) {
-          const cleanedLogs = results[2].map(normalizeLog).filter(l => l.timestamp);
-          localStorage.setItem(KEYS.LOGS, JSON.stringify(cleanedLogs));
+      if (products && Array.isArray(products) && !OutboxService.hasPending('saveProducts')) {
+          ProductCatalogService.write(normalizeProducts(products));
       }
 
-      if (results[3] && Array.isArray(results[3])) {
-          localStorage.setItem(KEYS.USERS, JSON.stringify(results[3]));
+      if (workOrders && Array.isArray(workOrders) && !OutboxService.hasPending('saveWorkOrders')) {
+          WorkOrderService.write(normalizeWorkOrders(workOrders));
       }
+
+      const pushFailed = reports.flatMap(r => r.pushFailed);
+      // Failed uploads stay queued and are retried with backoff
+      pushFailed.forEach(entity => OutboxService.enqueue({ key: `sync:${entity}`, kind: 'sync', entity }));
+      scheduleRetry();
+
+      return {
+        outcomes: reports.flatMap(r => r.outcomes),
+        conflicts: reports.flatMap(r => r.conflicts),
+        pushFailed
+      };
     } catch (err) {
       console.error("Critical Sync Failure:", err);
       throw err;
@@ -210,28 +1311,625 @@ export const StorageService = {
       const logs = StorageService.getLogs();
       const newLog: ActivityLog = {
         ...log,
-        id: Date.now().toString(),
+        id: generateId(),
         timestamp: getDbTimestamp(),
       };
       logs.unshift(newLog);
-      if (logs.length > 500) logs.pop(); 
+      if (logs.length > LOG_LIMIT) logs.pop(); 
       
       localStorage.setItem(KEYS.LOGS, JSON.stringify(logs));
-      // Explicit action 'saveLogs' targets the Activity Log sheet
-      GoogleSheetsService.saveData('saveLogs', logs);
+      writeThrough('logs', backend => backend.upsert('logs', [newLog]));
+      // Each line is appended to the Activity Log sheet on its own via 'appendLog'
+      queueWrite({ key: `appendLog:${newLog.id}`, kind: 'save', action: 'appendLog', payload: newLog });
     } catch (err) {
       console.error("Logging error:", err);
     }
   },
 
-  getSession: (): User | null => {
+  getQuarantined: (): QuarantinedRecord[] => QuarantineService.getAll(),
+
+  /**
+   * Accepts a corrected version of a quarantined record into the working data.
+   * Returns the remaining problems instead when it is still invalid.
+   */
+  restoreQuarantined: async (id: string, record: any): Promise<string[]> => {
+    const item = QuarantineService.get(id);
+    if (!item) return ['Record is no longer quarantined'];
+    const fixed = NORMALIZERS[item.collection](record);
+    const reasons = ValidationService.validate(item.collection, fixed);
+    if (reasons.length > 0) return reasons;
+
+    switch (item.collection) {
+      case 'production':
+        await StorageService.upsertProduction([fixed]);
+        break;
+      case 'offDays':
+        StorageService.saveOffDays([...StorageService.getOffDays().filter(od => od.id !== fixed.id), fixed]);
+        break;
+      case 'downtime':
+        writeDowntime([...readDowntime().filter(d => d.id !== fixed.id), fixed]);
+        break;
+      case 'users': {
+        const users = StorageService.getUsers();
+        const [merged] = mergeRemoteUsers([fixed], users);
+        StorageService.saveUsers([...users.filter(u => String(u.id) !== merged.id), merged]);
+        break;
+      }
+      case 'logs': {
+        // The activity log sheet is append-only, so a fixed line is only kept here and in the backend
+        const logs = [...StorageService.getLogs().filter(l => l.id !== fixed.id), fixed]
+          .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+          .slice(0, LOG_LIMIT);
+        localStorage.setItem(KEYS.LOGS, JSON.stringify(logs));
+        writeThrough('logs', backend => backend.upsert('logs', [fixed]));
+        break;
+      }
+    }
+    QuarantineService.resolve(id);
+    return [];
+  },
+
+  discardQuarantined: (id: string): QuarantinedRecord | undefined => QuarantineService.resolve(id),
+
+  // Every record on this device, trash included, with password material removed
+  exportData: async (): Promise<BackupData> => ({
+    users: readUsers().map(stripSecrets),
+    production: await readProduction(),
+    offDays: readOffDays(),
+    logs: StorageService.getLogs(),
+    settings: {
+      permissions: StorageService.getPermissions(),
+      sessionSettings: StorageService.getSessionSettings(),
+      syncPolicy: StorageService.getSyncPolicy(),
+      masterData: StorageService.getMasterData(),
+      products: StorageService.getProducts(),
+      shifts: StorageService.getShifts()
+    },
+    workOrders: WorkOrderService.getAll(),
+    downtime: readDowntime()
+  }),
+
+  // What importing the data would change, per collection
+  previewImport: async (data: BackupData, mode: RestoreMode): Promise<RestorePreviewRow[]> => {
+    const device: Record<RestoredCollection, { id: string }[]> = {
+      users: readUsers(),
+      production: await readProduction(),
+      offDays: readOffDays(),
+      logs: StorageService.getLogs(),
+      workOrders: WorkOrderService.getAll(),
+      downtime: readDowntime(),
+      products: ProductCatalogService.getAll(),
+      shifts: ShiftService.getAll()
+    };
+    const archived = fromArchive(data);
+    return (Object.keys(archived) as RestoredCollection[]).map(collection => {
+      const current = new Map(device[collection].map(r => [String(r.id), r]));
+      const incoming = archived[collection]!;
+      const incomingIds = new Set(incoming.map(r => String(r.id)));
+      const added = incoming.filter(r => !current.has(String(r.id))).length;
+      const updated = incoming.filter(r => {
+        const existing = current.get(String(r.id));
+        if (!existing) return false;
+        if (mode === 'replace') return !same(existing, r);
+        return collection === 'production' && archiveIsNewer(existing as ProductionEntry, r as ProductionEntry);
+      }).length;
+      return {
+        collection,
+        inArchive: incoming.length,
+        onDevice: current.size,
+        added,
+        updated,
+        removed: mode === 'replace' ? Array.from(current.keys()).filter(id => !incomingIds.has(id)).length : 0
+      };
+    });
+  },
+
+  /**
+   * Restores archived data. Master data and shifts go first, then every record
+   * is upgraded and screened like a synced one; rejected records are quarantined.
+   */
+  importData: async (data: BackupData, mode: RestoreMode) => {
+    if (data.settings.masterData) StorageService.saveMasterData(mergeMasterData(data.settings.masterData, mode));
+    if (data.settings.shifts) writeShifts(combine(ShiftService.getAll(), normalizeShifts(data.settings.shifts), mode));
+    if (data.settings.products) writeProducts(combine(ProductCatalogService.getAll(), normalizeProducts(data.settings.products), mode));
+    if (data.workOrders) writeWorkOrders(combine(WorkOrderService.getAll(), normalizeWorkOrders(data.workOrders), mode));
+
+    const archived = fromArchive(data);
+    const restore = <T>(collection: DataCollection) => screen<T>(collection, archived[collection] || [], 'backup');
+
+    if (data.downtime) writeDowntime(combine(readDowntime(), restore<DowntimeEntry>('downtime'), mode));
+
+    const users = combine(readUsers(), restore<User>('users'), mode);
+    writeUsers(disableSeedCredentials(mergeRemoteUsers(users, readUsers())));
+
+    const before = await readProduction();
+    const production = combine(before, restore<ProductionEntry>('production'), mode, archiveIsNewer);
+    await writeProduction(production);
+    writeThroughChanges('production', before, production);
+    pushTable('production');
+
+    writeOffDays(combine(readOffDays(), restore<OffDay>('offDays'), mode));
+
+    const previousLogs = StorageService.getLogs();
+    const logs = combine(previousLogs, restore<ActivityLog>('logs'), mode)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+      .slice(0, LOG_LIMIT);
+    localStorage.setItem(KEYS.LOGS, JSON.stringify(logs));
+    // The log is append-only: lines trimmed from this device's copy stay in the backend
+    const knownLogs = new Set(previousLogs.map(l => l.id));
+    const addedLogs = logs.filter(l => !knownLogs.has(l.id));
+    if (addedLogs.length > 0) writeThrough('logs', backend => backend.upsert('logs', addedLogs));
+
+    if (mode === 'replace') {
+      StorageService.savePermissions(data.settings.permissions);
+      StorageService.saveSessionSettings({ ...DEFAULT_SESSION_SETTINGS, ...data.settings.sessionSettings });
+      StorageService.saveSyncPolicy(data.settings.syncPolicy);
+    }
+    announceSync(emptyReport());
+  },
+
+  getSnapshots: (): Promise<SnapshotSummary[]> => SnapshotStore.list(),
+
+  /**
+   * Replaces all data with a snapshot. The current state is snapshotted
+   * first, so a rollback can itself be rolled back. The user rolling back
+   * keeps their account even if it was created after the snapshot.
+   */
+  rollbackToSnapshot: async (id: string, rolledBackBy: string): Promise<SnapshotSummary> => {
+    const snapshot = await SnapshotStore.get(id);
+    if (!snapshot) throw new Error('Snapshot not found');
+    const { data: stored, ...summary } = snapshot;
+    const tables = migrateTables({
+      users: stored.users,
+      production: stored.production,
+      offDays: stored.offDays,
+      logs: stored.logs,
+      workOrders: stored.workOrders || [],
+      downtime: stored.downtime || []
+    }, snapshot.schemaVersion);
+    const users: User[] = tables.users || [];
+    const actor = readUsers().find(u => String(u.id) === String(rolledBackBy));
+    if (actor && !users.some(u => String(u.id) === String(actor.id))) users.push(stripSecrets(actor));
+    await takeSnapshot('pre-rollback');
+    await StorageService.importData({
+      users,
+      production: tables.production || [],
+      offDays: tables.offDays || [],
+      logs: tables.logs || [],
+      settings: stored.settings,
+      workOrders: tables.workOrders,
+      downtime: tables.downtime
+    }, 'replace');
+    return summary;
+  },
+
+  deleteSnapshot: (id: string): Promise<void> => SnapshotStore.remove([id]),
+
+  getMasterData: (): MasterData => MasterDataService.getAll(),
+
+  // Active names for a selector, plus the value being edited if it was archived
+  getMasterDataOptions: (kind: MasterDataKind, current?: string): string[] => MasterDataService.options(kind, current),
+
+  saveMasterData: (data: MasterData) => {
+    const cleaned = normalizeMasterData(data);
+    MasterDataService.write(cleaned);
+    // Explicit action 'saveMasterData' targets the Master Data sheet
+    queueWrite({ key: 'saveMasterData', kind: 'save', action: 'saveMasterData', payload: cleaned });
+  },
+
+  addMasterDataItem: (kind: MasterDataKind, name: string): MasterDataItem => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Name is required');
+    if (MasterDataService.nameTaken(kind, trimmed)) throw new Error(`"${trimmed}" is already in use`);
+    const item: MasterDataItem = { id: generateId(), name: trimmed };
+    const data = MasterDataService.getAll();
+    StorageService.saveMasterData({ ...data, [kind]: [...data[kind], item] });
+    return item;
+  },
+
+  /**
+   * Renames an item and moves the production entries using the old name over
+   * to the new one. The old name stays as an alias, so entries still arriving
+   * with it from other devices or the sheet are read as this item.
+   */
+  renameMasterDataItem: async (kind: MasterDataKind, id: string, name: string, renamedBy: string): Promise<MasterDataItem> => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Name is required');
+    if (MasterDataService.nameTaken(kind, trimmed, id)) throw new Error(`"${trimmed}" is already in use`);
+    const data = MasterDataService.getAll();
+    const current = data[kind].find(i => i.id === id);
+    if (!current) throw new Error('Item not found');
+    if (current.name === trimmed) return current;
+
+    const renamed: MasterDataItem = {
+      ...current,
+      name: trimmed,
+      aliases: [...(current.aliases || []).filter(a => a !== trimmed), current.name]
+    };
+    StorageService.saveMasterData({ ...data, [kind]: data[kind].map(i => (i.id === id ? renamed : i)) });
+
+    const products = ProductCatalogService.getAll();
+    const moved = products.map(p => {
+      if (kind === 'categories' && p.category === current.name) return { ...p, category: trimmed };
+      if (kind === 'units' && p.defaultUnit === current.name) return { ...p, defaultUnit: trimmed };
+      if (kind === 'processes' && p.route.includes(current.name)) return { ...p, route: p.route.map(r => (r === current.name ? trimmed : r)) };
+      return p;
+    });
+    if (!same(moved, products)) writeProducts(moved);
+
+    const orders = WorkOrderService.getAll();
+    const movedOrders = orders.map(o => {
+      if (kind === 'categories' && o.category === current.name) return { ...o, category: trimmed };
+      if (kind === 'units' && o.unit === current.name) return { ...o, unit: trimmed };
+      if (kind === 'processes' && o.route.includes(current.name)) return { ...o, route: o.route.map(r => (r === current.name ? trimmed : r)) };
+      return o;
+    });
+    if (!same(movedOrders, orders)) writeWorkOrders(movedOrders);
+
+    const field = MASTER_DATA_KINDS.find(k => k.kind === kind)!.field;
+    const updatedAt = getDbTimestamp();
+    if (field === 'category' || field === 'process') {
+      // Stored names, not the canonical ones readDowntime would already report
+      const stoppages = DowntimeService.getAll();
+      if (stoppages.some(d => d[field] === current.name)) {
+        writeDowntime(stoppages.map(d => (d[field] === current.name ? { ...d, [field]: trimmed, updatedAt } : d)));
+      }
+    }
+    if (field) {
+      const affected = (await readProduction()).filter(e => e[field] === current.name);
+      if (affected.length > 0) {
+        await StorageService.upsertProduction(affected.map(e => ({ ...e, [field]: trimmed, lastUpdatedBy: String(renamedBy), updatedAt })));
+      }
+    } else {
+      // Loss reasons are named on the actual records; only the records carrying the old name change
+      const renameLoss = (l: LossRecord) => (l.reason === current.name ? { ...l, reason: trimmed } : l);
+      const affected = (await readProduction()).filter(e => (e.actuals || []).some(a => (a.losses || []).some(l => l.reason === current.name)));
+      if (affected.length > 0) {
+        await StorageService.upsertProduction(affected.map(e => ({
+          ...e,
+          actuals: e.actuals!.map(a => (a.losses?.some(l => l.reason === current.name) ? { ...a, losses: a.losses.map(renameLoss), updatedAt } : a)),
+          lastUpdatedBy: String(renamedBy),
+          updatedAt
+        })));
+      }
+    }
+    return renamed;
+  },
+
+  // Archived items leave the selectors; entries already using them stay valid
+  setMasterDataArchived: (kind: MasterDataKind, id: string, archived: boolean) => {
+    const data = MasterDataService.getAll();
+    if (!data[kind].some(i => i.id === id)) throw new Error('Item not found');
+    if (archived && data[kind].filter(i => !i.archived).length <= 1) {
+      throw new Error('At least one item must stay active');
+    }
+    StorageService.saveMasterData({
+      ...data,
+      [kind]: data[kind].map(i => {
+        if (i.id !== id) return i;
+        const { archived: _was, ...rest } = i;
+        return archived ? { ...rest, archived: true } : rest;
+      })
+    });
+  },
+
+  getProducts: (): Product[] => ProductCatalogService.getAll(),
+
+  // Products offered in entry forms
+  getProductOptions: (): Product[] => ProductCatalogService.getAll().filter(p => !p.archived),
+
+  // The catalogue product a typed name or SKU stands for
+  findProduct: (value: string): Product | undefined => ProductCatalogService.find(value),
+
+  /**
+   * Adds or updates a catalogue product. A new name is carried over to the
+   * production entries linked to the product.
+   */
+  saveProduct: async (product: Product, savedBy: string): Promise<Product> => {
+    const candidate: Product = {
+      ...product,
+      sku: product.sku.trim(),
+      name: product.name.trim(),
+      packSize: product.packSize?.trim() || undefined,
+      updatedAt: getDbTimestamp()
+    };
+    if (!candidate.sku) throw new Error('SKU is required');
+    if (!candidate.name) throw new Error('Product name is required');
+    if (!MasterDataService.isKnown('categories', candidate.category)) throw new Error(`Unknown category "${candidate.category}"`);
+    if (!MasterDataService.isKnown('units', candidate.defaultUnit)) throw new Error(`Unknown unit "${candidate.defaultUnit}"`);
+    if (candidate.route.length === 0) throw new Error('The route needs at least one process');
+    const unknownStep = candidate.route.find(step => !MasterDataService.isKnown('processes', step));
+    if (unknownStep) throw new Error(`Unknown process "${unknownStep}"`);
+    if (new Set(candidate.route).size !== candidate.route.length) throw new Error('A process can appear only once in the route');
+
+    const products = ProductCatalogService.getAll();
+    const others = products.filter(p => p.id !== candidate.id);
+    const bySku = others.find(p => p.sku.toLowerCase() === candidate.sku.toLowerCase());
+    if (bySku) throw new Error(`SKU ${candidate.sku} is already used by ${bySku.name}`);
+    const byName = ProductCatalogService.find(candidate.name);
+    if (byName && byName.id !== candidate.id) throw new Error(`"${byName.name}" is already in the catalogue`);
+
+    const previous = products.find(p => p.id === candidate.id);
+    writeProducts(previous ? products.map(p => (p.id === candidate.id ? candidate : p)) : [...products, candidate]);
+
+    if (previous && previous.name !== candidate.name) {
+      const orders = WorkOrderService.getAll();
+      if (orders.some(o => o.productId === candidate.id)) {
+        writeWorkOrders(orders.map(o => (o.productId === candidate.id ? { ...o, productName: candidate.name } : o)));
+      }
+      const linked = (await readProduction()).filter(e => e.productId === candidate.id);
+      if (linked.length > 0) {
+        const updatedAt = getDbTimestamp();
+        await StorageService.upsertProduction(linked.map(e => ({ ...e, productName: candidate.name, lastUpdatedBy: String(savedBy), updatedAt })));
+      }
+    }
+    return candidate;
+  },
+
+  // Archived products leave the entry forms; linked entries are unaffected
+  setProductArchived: (id: string, archived: boolean) => {
+    const products = ProductCatalogService.getAll();
+    if (!products.some(p => p.id === id)) throw new Error('Product not found');
+    writeProducts(products.map(p => {
+      if (p.id !== id) return p;
+      const { archived: _was, ...rest } = p;
+      return archived ? { ...rest, archived: true, updatedAt: getDbTimestamp() } : { ...rest, updatedAt: getDbTimestamp() };
+    }));
+  },
+
+  // Free-text product names of entries not linked to the catalogue, most used first
+  getUnmappedProductNames: async (): Promise<UnmappedProductName[]> => {
+    const counts = new Map<string, number>();
+    (await readProduction())
+      .filter(e => !e.productId && e.productName)
+      .forEach(e => counts.set(e.productName, (counts.get(e.productName) || 0) + 1));
+    return Array.from(counts.entries())
+      .map(([name, count]) => ({ name, count, suggestion: ProductCatalogService.suggest(name) }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+  },
+
+  /**
+   * Links every unlinked entry with one of the given names to the chosen
+   * product and gives it the product's name. Returns the number of entries.
+   */
+  mapProductNames: async (mappings: { name: string; productId: string }[], mappedBy: string): Promise<number> => {
+    const products = new Map(ProductCatalogService.getAll().map(p => [p.id, p]));
+    const target = new Map<string, Product>();
+    mappings.forEach(m => {
+      const product = products.get(m.productId);
+      if (!product) throw new Error('Product not found');
+      target.set(m.name, product);
+    });
+    const updatedAt = getDbTimestamp();
+    const linked = (await readProduction())
+      .filter(e => !e.productId && target.has(e.productName))
+      .map(e => {
+        const product = target.get(e.productName)!;
+        return { ...e, productName: product.name, productId: product.id, lastUpdatedBy: String(mappedBy), updatedAt };
+      });
+    if (linked.length > 0) await StorageService.upsertProduction(linked);
+    return linked.length;
+  },
+
+  getWorkOrders: (): WorkOrder[] => WorkOrderService.getAll(),
+
+  // Stage progress of every work order, or of one when an id is given
+  getWorkOrderProgress: async (id?: string): Promise<WorkOrderProgress[]> => {
+    const orders = WorkOrderService.getAll().filter(o => !id || o.id === id);
+    if (orders.length === 0) return [];
+    const entries = (await readProduction()).filter(e => e.workOrderId && !isTrashed(e));
+    return orders.map(o => WorkOrderService.progress(o, entries));
+  },
+
+  /**
+   * Opens a work order for a batch and plans one production entry per
+   * process in its route, all on the start date for the full batch size.
+   */
+  createWorkOrder: async (
+    details: Pick<WorkOrder, 'batchNo' | 'productId' | 'productName' | 'category' | 'quantity' | 'unit' | 'route'>,
+    startDate: string,
+    createdBy: string
+  ): Promise<WorkOrder> => {
+    const now = getDbTimestamp();
+    const order: WorkOrder = {
+      ...details,
+      id: generateId(),
+      batchNo: details.batchNo.trim(),
+      productName: details.productName.trim(),
+      createdBy: String(createdBy),
+      createdAt: now,
+      updatedAt: now
+    };
+    if (!order.batchNo) throw new Error('Batch number is required');
+    if (!(order.quantity > 0)) throw new Error('Batch size must be more than 0');
+    if (order.route.length === 0) throw new Error('The route needs at least one process');
+    if (new Set(order.route).size !== order.route.length) throw new Error('A process can appear only once in the route');
+    const orders = WorkOrderService.getAll();
+    if (orders.some(o => !o.closedAt && o.batchNo.toLowerCase() === order.batchNo.toLowerCase())) {
+      throw new Error(`Batch ${order.batchNo} already has an open work order`);
+    }
+
+    // Entry validation covers the product name, category, unit, processes and date
+    await StorageService.upsertProduction(order.route.map(process => ({
+      id: generateId(),
+      date: startDate,
+      category: order.category,
+      process,
+      productName: order.productName,
+      ...(order.productId ? { productId: order.productId } : {}),
+      workOrderId: order.id,
+      planQuantity: order.quantity,
+      actualQuantity: 0,
+      unit: order.unit,
+      batchNo: order.batchNo,
+      manpower: 0,
+      lastUpdatedBy: String(createdBy),
+      updatedAt: now
+    })));
+    writeWorkOrders([...orders, order]);
+    return order;
+  },
+
+  // Closed orders are finished or abandoned batches; reopening puts them back on the board
+  setWorkOrderClosed: (id: string, closed: boolean, closedBy: string): WorkOrder => {
+    const orders = WorkOrderService.getAll();
+    const current = orders.find(o => o.id === id);
+    if (!current) throw new Error('Work order not found');
+    const { closedAt: _at, closedBy: _by, ...open } = current;
+    if (!closed && orders.some(o => o.id !== id && !o.closedAt && o.batchNo.toLowerCase() === current.batchNo.toLowerCase())) {
+      throw new Error(`Batch ${current.batchNo} already has an open work order`);
+    }
+    const updatedAt = getDbTimestamp();
+    const updated: WorkOrder = closed ? { ...open, closedAt: updatedAt, closedBy: String(closedBy), updatedAt } : { ...open, updatedAt };
+    writeWorkOrders(orders.map(o => (o.id === id ? updated : o)));
+    return updated;
+  },
+
+  getShifts: (): ShiftDefinition[] => ShiftService.getAll(),
+
+  // Active shifts for a selector, plus the shift being edited if it was archived
+  getShiftOptions: (current?: string): ShiftDefinition[] => ShiftService.options(current),
+
+  getShiftLabel: (id?: string): string => ShiftService.label(id),
+
+  // Plan and actual per shift for the given entries
+  getShiftBreakdown: (entries: ProductionEntry[]): ShiftBreakdownRow[] => ShiftService.breakdown(entries),
+
+  // The shift running now and the production day it counts toward
+  getCurrentShift: () => ShiftService.at(),
+
+  // Adds a shift, or updates the name and times of an existing one. Entries keep pointing at it by id.
+  saveShift: (shift: Omit<ShiftDefinition, 'id'> & { id?: string }): ShiftDefinition => {
+    const name = shift.name.trim();
+    if (!name) throw new Error('Name is required');
+    if (!isShiftTime(shift.start) || !isShiftTime(shift.end)) throw new Error('Start and end must be times in HH:mm');
+    if (shift.start === shift.end) throw new Error('A shift cannot start and end at the same time');
+    const shifts = ShiftService.getAll();
+    if (shifts.some(s => s.id !== shift.id && s.name.toLowerCase() === name.toLowerCase())) throw new Error(`"${name}" is already in use`);
+    if (shift.id && !shifts.some(s => s.id === shift.id)) throw new Error('Shift not found');
+    const saved: ShiftDefinition = { ...shift, id: shift.id || generateId(), name };
+    writeShifts(shift.id ? shifts.map(s => (s.id === shift.id ? saved : s)) : [...shifts, saved]);
+    return saved;
+  },
+
+  // Archived shifts leave the selectors; entries already booked to them keep their shift
+  setShiftArchived: (id: string, archived: boolean) => {
+    const shifts = ShiftService.getAll();
+    if (!shifts.some(s => s.id === id)) throw new Error('Shift not found');
+    if (archived && shifts.filter(s => !s.archived).length <= 1) throw new Error('At least one shift must stay active');
+    writeShifts(shifts.map(s => {
+      if (s.id !== id) return s;
+      const { archived: _was, ...rest } = s;
+      return archived ? { ...rest, archived: true } : rest;
+    }));
+  },
+
+  // Stoppages outside the trash, oldest first; the query's product name does not apply
+  getDowntime: (query: ProductionQuery = {}): DowntimeEntry[] =>
+    readDowntime()
+      .filter(d => !isTrashed(d))
+      .filter(d => (!query.from || d.date >= query.from) && (!query.to || d.date <= query.to))
+      .filter(d => (!query.category || d.category === query.category) && (!query.process || d.process === query.process))
+      .sort((a, b) => `${a.date} ${a.start}`.localeCompare(`${b.date} ${b.start}`)),
+
+  logDowntime: (
+    details: Pick<DowntimeEntry, 'date' | 'category' | 'process' | 'entryId' | 'start' | 'end' | 'reason' | 'notes'>,
+    reportedBy: string
+  ): DowntimeEntry => {
+    const now = getDbTimestamp();
+    const entry = normalizeDowntimeEntry({ ...details, id: generateId(), reportedBy: String(reportedBy), reportedAt: now, updatedAt: now });
+    // Validation covers the date, category, process, times and reason
+    ValidationService.assertValid('downtime', [entry]);
+    writeDowntime([...readDowntime(), entry]);
+    return entry;
+  },
+
+  // Moves the stoppage to the trash
+  deleteDowntime: (id: string, deletedBy: string): DowntimeEntry | null => {
+    const target = StorageService.getDowntime().find(d => d.id === id);
+    if (!target) return null;
+    const now = getDbTimestamp();
+    const trashed = { ...target, deletedAt: now, deletedBy: String(deletedBy), updatedAt: now };
+    writeDowntime(readDowntime().map(d => (d.id === id ? trashed : d)));
+    return trashed;
+  },
+
+  // Minutes lost per process and the reason that cost the most
+  getDowntimeSummary: (entries: DowntimeEntry[]): DowntimeSummaryRow[] => DowntimeService.summary(entries),
+
+  getSessionSettings: (): SessionSettings => {
     try {
-      const session = localStorage.getItem(KEYS.CURRENT_USER);
-      return session ? JSON.parse(session) : null;
+      const data = JSON.parse(localStorage.getItem(KEYS.SESSION_SETTINGS) || '{}');
+      return { ...DEFAULT_SESSION_SETTINGS, ...data };
+    } catch { return DEFAULT_SESSION_SETTINGS; }
+  },
+  saveSessionSettings: (settings: SessionSettings) => {
+    localStorage.setItem(KEYS.SESSION_SETTINGS, JSON.stringify(settings));
+  },
+
+  createSession: (userId: string, remember: boolean): Session => {
+    const settings = StorageService.getSessionSettings();
+    const now = Date.now();
+    const lifetime = remember
+      ? settings.rememberDays * 24 * 60 * 60 * 1000
+      : settings.sessionHours * 60 * 60 * 1000;
+    const session: Session = {
+      token: crypto.randomUUID(),
+      userId: String(userId),
+      issuedAt: now,
+      expiresAt: now + lifetime,
+      lastActivity: now,
+      remember
+    };
+    StorageService.setSession(session);
+    return session;
+  },
+
+  // Returns the active session, or null (clearing it) once it has expired or gone idle
+  getSession: (): Session | null => {
+    try {
+      const raw = localStorage.getItem(KEYS.CURRENT_USER);
+      if (!raw) return null;
+      const session = JSON.parse(raw) as Session;
+      // Sessions from older versions stored a full user copy and carry no expiry
+      if (!session.userId || !session.expiresAt) {
+        StorageService.setSession(null);
+        return null;
+      }
+      const now = Date.now();
+      const idleLimit = StorageService.getSessionSettings().idleTimeoutMinutes * 60 * 1000;
+      const isIdle = !session.remember && now - session.lastActivity > idleLimit;
+      if (now > session.expiresAt || isIdle) {
+        StorageService.setSession(null);
+        return null;
+      }
+      return session;
     } catch { return null; }
   },
-  setSession: (user: User | null) => {
-    if (user) localStorage.setItem(KEYS.CURRENT_USER, JSON.stringify(user));
-    else localStorage.removeItem(KEYS.CURRENT_USER);
+  setSession: (session: Session | null) => {
+    if (session) {
+      localStorage.setItem(KEYS.CURRENT_USER, JSON.stringify(session));
+      writeThrough('sessions', backend => backend.upsert('sessions', [session]));
+    } else {
+      let token: string | undefined;
+      try { token = JSON.parse(localStorage.getItem(KEYS.CURRENT_USER) || 'null')?.token; } catch { /* nothing to revoke */ }
+      localStorage.removeItem(KEYS.CURRENT_USER);
+      if (token) writeThrough('sessions', backend => backend.remove('sessions', [token!]));
+    }
+  },
+  // Idle tracking stays on this device; the backend only hears of a session when
+  // it is created and when it ends
+  touchSession: () => {
+    const session = StorageService.getSession();
+    if (session) localStorage.setItem(KEYS.CURRENT_USER, JSON.stringify({ ...session, lastActivity: Date.now() }));
+  },
+
+  // Resolves the signed-in user from the live user list so role changes and
+  // deletions take effect without signing in again
+  getSessionUser: (): User | null => {
+    const session = StorageService.getSession();
+    if (!session) return null;
+    const user = StorageService.getUsers().find(u => String(u.id) === session.userId);
+    return user ? stripSecrets(user) : null;
   }
 };
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { OffDay } from '../types';
+import { mergeRecords } from './syncEngine';
+
+const day = (id: string, description: string, updatedAt: string): OffDay & { updatedAt: string } =>
+  ({ id, date: '2024-05-01', description, createdBy: 'admin', updatedAt });
+
+const options = { entity: 'offDays' as const, policy: 'ask' as const, label: (d: OffDay) => d.description };
+
+describe('mergeRecords with the ask policy', () => {
+  const base = day('D1', 'Labour Day', '2024-04-01 08:00:00');
+  const edited = day('D1', 'Labour Day (factory closed)', '2024-04-02 08:00:00');
+
+  it('keeps a local edit the remote deleted until the conflict is settled', () => {
+    const result = mergeRecords([edited], [], [base], options);
+    expect(result.merged).toEqual([edited]);
+    expect(result.needsPush).toBe(false);
+    expect(result.conflicts).toMatchObject([{ id: 'D1', local: edited, remote: null, fields: ['description'] }]);
+  });
+
+  it('keeps the remote edit of a record deleted here until the conflict is settled', () => {
+    const result = mergeRecords([], [edited], [base], options);
+    expect(result.merged).toEqual([edited]);
+    expect(result.conflicts).toMatchObject([{ id: 'D1', local: null, remote: edited }]);
+  });
+});
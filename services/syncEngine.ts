@@ -0,0 +1,186 @@
+import { SyncConflict, SyncEntity, SyncOutcome, SyncPolicy } from '../types';
+import { formatFullTimestamp, getDbTimestamp } from '../utils/dateUtils';
+
+/**
+ * THREE-WAY SYNC MERGE
+ *
+ * Compares the local and remote copy of every record against the "base" — the
+ * version both sides agreed on at the last successful sync. A field edited on
+ * only one side is taken from that side; a field edited differently on both
+ * sides is a conflict, settled by the newer updatedAt (last-writer-wins) or
+ * left for the user to decide.
+ */
+type SyncRecord = { id: string; updatedAt?: string; lastUpdatedBy?: string };
+
+// Bookkeeping fields that change on every save and are not compared as edits
+const META_FIELDS = ['id', 'updatedAt', 'lastUpdatedBy', 'revisions'];
+
+// Append-only lists with their own ids (revision history); both sides' items are kept
+const UNION_FIELDS = ['revisions'];
+
+// Lists of items carrying their own id and updatedAt (actual records). Items are
+// merged one by one, the newer edit of each winning, so reports added on
+// different devices are all kept instead of one list replacing the other
+const KEYED_FIELDS = ['actuals'];
+
+const mergeKeyed = (...lists: any[][]) => {
+  const byId = new Map<string, any>();
+  lists.forEach(list => (Array.isArray(list) ? list : []).forEach(item => {
+    const current = byId.get(String(item.id));
+    if (!current || formatFullTimestamp(String(item.updatedAt || '')) > formatFullTimestamp(String(current.updatedAt || ''))) {
+      byId.set(String(item.id), item);
+    }
+  }));
+  return Array.from(byId.values());
+};
+
+const union = (...lists: any[][]) => {
+  const byId = new Map<string, any>();
+  lists.forEach(list => (Array.isArray(list) ? list : []).forEach(item => byId.set(String(item.id), item)));
+  return Array.from(byId.values()).sort((a, b) => String(a.at ?? '').localeCompare(String(b.at ?? '')));
+};
+
+interface MergeOptions<T> {
+  entity: SyncEntity;
+  policy: SyncPolicy;
+  label: (record: T) => string;
+  // Fields worked out from keyed lists (totals of actual records) and how to recompute them after a merge
+  derived?: { fields: string[]; compute: (record: T) => T };
+}
+
+export interface MergeResult<T> {
+  merged: T[];
+  outcomes: SyncOutcome[];
+  conflicts: SyncConflict[];
+  needsPush: boolean;
+}
+
+export const same = (a: any, b: any) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const editableFields = (...records: (SyncRecord | undefined)[]) => {
+  const keys = new Set<string>();
+  records.forEach(r => r && Object.keys(r).forEach(k => { if (!META_FIELDS.includes(k)) keys.add(k); }));
+  return Array.from(keys);
+};
+
+const changedFields = (record: SyncRecord, base: SyncRecord) =>
+  editableFields(record, base).filter(f => !same((record as any)[f], (base as any)[f]));
+
+// Timestamps arrive as "YYYY-MM-DD HH:mm:ss" locally but may come back from the sheet as ISO strings
+const stamp = (record: SyncRecord) => formatFullTimestamp(String(record.updatedAt || ''));
+
+const localIsNewer = (local: SyncRecord, remote: SyncRecord) => stamp(local) > stamp(remote);
+
+export const mergeRecords = <T extends SyncRecord>(
+  local: T[],
+  remote: T[],
+  base: T[],
+  { entity, policy, label, derived }: MergeOptions<T>
+): MergeResult<T> => {
+  const localById = new Map(local.map(r => [String(r.id), r]));
+  const remoteById = new Map(remote.map(r => [String(r.id), r]));
+  const baseById = new Map(base.map(r => [String(r.id), r]));
+  const ids = Array.from(new Set([...localById.keys(), ...remoteById.keys()]));
+
+  const merged: T[] = [];
+  const outcomes: SyncOutcome[] = [];
+  const conflicts: SyncConflict[] = [];
+  let needsPush = false;
+
+  const report = (id: string, record: T, status: SyncOutcome['status'], fields?: string[]) =>
+    outcomes.push({ entity, id, label: label(record), status, fields });
+
+  const conflict = (id: string, record: T, fields: string[], l: T | null, r: T | null) =>
+    conflicts.push({ entity, id, label: label(record), fields, local: l, remote: r, detectedAt: getDbTimestamp() });
+
+  ids.forEach(id => {
+    const l = localById.get(id);
+    const r = remoteById.get(id);
+    const b = baseById.get(id);
+
+    // Present on one side only: either new there, or deleted on the other side
+    if (l && !r) {
+      if (!b) {
+        merged.push(l); needsPush = true; report(id, l, 'pushed');
+      } else if (changedFields(l, b).length === 0) {
+        report(id, l, 'deleted-remote');
+      } else if (policy === 'last-writer-wins') {
+        merged.push(l); needsPush = true; report(id, l, 'resolved', changedFields(l, b));
+      } else {
+        // Keep our copy, unsent, until the user decides whether the remote delete should stand
+        merged.push(l); conflict(id, l, changedFields(l, b), l, null); report(id, l, 'conflict');
+      }
+      return;
+    }
+    if (r && !l) {
+      if (!b) {
+        merged.push(r); report(id, r, 'pulled');
+      } else if (changedFields(r, b).length === 0) {
+        needsPush = true; report(id, r, 'deleted-local');
+      } else if (policy === 'last-writer-wins') {
+        merged.push(r); report(id, r, 'resolved', changedFields(r, b));
+      } else {
+        // Keep the remote copy until the user decides whether the local delete should stand
+        merged.push(r); conflict(id, r, changedFields(r, b), null, r); report(id, r, 'conflict');
+      }
+      return;
+    }
+    if (!l || !r) return;
+
+    if (same(l, r)) {
+      merged.push(l); report(id, l, 'unchanged');
+      return;
+    }
+
+    // Never synced together before: no base to tell who edited what, so the newer record wins
+    if (!b) {
+      const winner = localIsNewer(l, r) ? l : r;
+      merged.push(winner);
+      if (winner === l) needsPush = true;
+      report(id, winner, winner === l ? 'pushed' : 'pulled');
+      return;
+    }
+
+    const localChanges = changedFields(l, b);
+    const remoteChanges = changedFields(r, b);
+    // Keyed lists and the totals worked out from them never conflict as a whole
+    const mergeable = [...KEYED_FIELDS, ...(derived?.fields || [])];
+    const overlapping = localChanges.filter(f => remoteChanges.includes(f) && !same((l as any)[f], (r as any)[f]) && !mergeable.includes(f));
+
+    if (overlapping.length > 0 && policy === 'ask') {
+      // The sheet stays authoritative until the conflict is resolved
+      merged.push(r); conflict(id, r, overlapping, l, r); report(id, r, 'conflict', overlapping);
+      return;
+    }
+
+    const newer = localIsNewer(l, r) ? l : r;
+    const result: any = { ...b };
+    editableFields(l, r, b).forEach(f => {
+      if (overlapping.includes(f)) result[f] = (newer as any)[f];
+      else if (remoteChanges.includes(f)) result[f] = (r as any)[f];
+      else result[f] = (l as any)[f];
+    });
+    result.id = l.id;
+    result.updatedAt = newer.updatedAt;
+    result.lastUpdatedBy = newer.lastUpdatedBy;
+    UNION_FIELDS.forEach(f => {
+      if ((l as any)[f] !== undefined || (r as any)[f] !== undefined) result[f] = union((b as any)[f], (l as any)[f], (r as any)[f]);
+    });
+    KEYED_FIELDS.forEach(f => {
+      if ((l as any)[f] !== undefined || (r as any)[f] !== undefined) result[f] = mergeKeyed((b as any)[f], (l as any)[f], (r as any)[f]);
+    });
+    const final = derived ? derived.compute(result as T) : result as T;
+    merged.push(final);
+
+    if (same(final, r)) {
+      report(id, final, 'pulled');
+    } else {
+      needsPush = true;
+      if (overlapping.length > 0) report(id, final, 'resolved', overlapping);
+      else if (remoteChanges.length > 0) report(id, final, 'merged', [...localChanges, ...remoteChanges]);
+      else report(id, final, 'pushed', localChanges);
+    }
+  });
+
+  return { merged, outcomes, conflicts, needsPush };
+};
@@ -0,0 +1,122 @@
+import { DataCollection } from '../types';
+import { ROLES, LOSS_KINDS, DOWNTIME_REASONS } from '../constants';
+import { MasterDataService } from './masterDataService';
+import { ShiftService, isShiftTime } from './shiftService';
+import { isValidISODate } from '../utils/dateUtils';
+
+/**
+ * RECORD VALIDATION
+ *
+ * Checks records against the shape the app relies on. Migrations only bring
+ * records up to date; they never invent values, so anything unusable (unknown
+ * category, missing name, non-numeric quantity) is reported here and kept out
+ * of the working data instead of being shown as real production.
+ */
+type Check = (record: any) => string[];
+
+const isText = (value: any) => typeof value === 'string' && value.trim() !== '';
+
+const isRealDate = (value: any) => {
+  if (typeof value !== 'string' || !isValidISODate(value)) return false;
+  const [y, m, d] = value.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d));
+  return date.getUTCFullYear() === y && date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+};
+
+const isTimestamp = (value: any) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) && isRealDate(value.slice(0, 10));
+
+const isQuantity = (value: any) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const oneOf = (list: readonly string[], value: any) => list.includes(value);
+
+const CHECKS: Record<DataCollection, Check> = {
+  production: r => [
+    !isText(r.id) && 'Missing id',
+    !isRealDate(r.date) && `Invalid date "${r.date ?? ''}"`,
+    !MasterDataService.isKnown('categories', r.category) && `Unknown category "${r.category ?? ''}"`,
+    !MasterDataService.isKnown('processes', r.process) && `Unknown process "${r.process ?? ''}"`,
+    !isText(r.productName) && 'Missing product name',
+    !isQuantity(r.planQuantity) && `Plan quantity "${r.planQuantity}" is not a number of 0 or more`,
+    !isQuantity(r.actualQuantity) && `Actual quantity "${r.actualQuantity}" is not a number of 0 or more`,
+    !MasterDataService.isKnown('units', r.unit) && `Unknown unit "${r.unit ?? ''}"`,
+    !isQuantity(r.manpower) && `Manpower "${r.manpower}" is not a number of 0 or more`,
+    r.shift !== undefined && !ShiftService.isKnown(r.shift) && `Unknown shift "${r.shift}"`,
+    ...(Array.isArray(r.actuals) ? r.actuals : []).flatMap((a: any, i: number) => [
+      !isQuantity(a.quantity) && `Actual record ${i + 1}: quantity "${a.quantity}" is not a number of 0 or more`,
+      !isQuantity(a.manpower) && `Actual record ${i + 1}: manpower "${a.manpower}" is not a number of 0 or more`,
+      a.shift !== undefined && !ShiftService.isKnown(a.shift) && `Actual record ${i + 1}: unknown shift "${a.shift}"`,
+      ...(Array.isArray(a.losses) ? a.losses : []).flatMap((l: any) => [
+        !LOSS_KINDS.some(k => k.kind === l.kind) && `Actual record ${i + 1}: unknown loss type "${l.kind ?? ''}"`,
+        !(isQuantity(l.quantity) && l.quantity > 0) && `Actual record ${i + 1}: loss quantity "${l.quantity}" is not a number above 0`,
+        !MasterDataService.isKnown('lossReasons', l.reason) && `Actual record ${i + 1}: unknown loss reason "${l.reason ?? ''}"`
+      ])
+    ])
+  ].filter(Boolean) as string[],
+
+  downtime: r => [
+    !isText(r.id) && 'Missing id',
+    !isRealDate(r.date) && `Invalid date "${r.date ?? ''}"`,
+    !MasterDataService.isKnown('categories', r.category) && `Unknown category "${r.category ?? ''}"`,
+    !MasterDataService.isKnown('processes', r.process) && `Unknown process "${r.process ?? ''}"`,
+    !isShiftTime(r.start) && `Invalid start time "${r.start ?? ''}"`,
+    !isShiftTime(r.end) && `Invalid end time "${r.end ?? ''}"`,
+    isShiftTime(r.start) && r.start === r.end && 'Start and end time are the same',
+    !DOWNTIME_REASONS.some(d => d.reason === r.reason) && `Unknown downtime reason "${r.reason ?? ''}"`
+  ].filter(Boolean) as string[],
+
+  offDays: r => [
+    !isText(r.id) && 'Missing id',
+    !isRealDate(r.date) && `Invalid date "${r.date ?? ''}"`,
+    !isText(r.description) && 'Missing description'
+  ].filter(Boolean) as string[],
+
+  users: r => [
+    !isText(r.id) && 'Missing id',
+    !isText(r.username) && 'Missing username',
+    !isText(r.name) && 'Missing name',
+    !oneOf(ROLES, r.role) && `Unknown role "${r.role ?? ''}"`
+  ].filter(Boolean) as string[],
+
+  logs: r => [
+    !isText(r.id) && 'Missing id',
+    !isTimestamp(r.timestamp) && `Invalid timestamp "${r.timestamp ?? ''}"`,
+    !isText(r.action) && 'Missing action'
+  ].filter(Boolean) as string[]
+};
+
+export interface Rejected<T = any> {
+  record: T;
+  reasons: string[];
+}
+
+export const ValidationService = {
+  // Reasons the record is unusable; empty when it is valid
+  validate: (collection: DataCollection, record: any): string[] => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) return ['Not a record'];
+    return CHECKS[collection](record);
+  },
+
+  isValid: (collection: DataCollection, record: any): boolean =>
+    ValidationService.validate(collection, record).length === 0,
+
+  partition: <T>(collection: DataCollection, records: any[]): { valid: T[]; rejected: Rejected[] } => {
+    const valid: T[] = [];
+    const rejected: Rejected[] = [];
+    records.forEach(record => {
+      const reasons = ValidationService.validate(collection, record);
+      if (reasons.length === 0) valid.push(record);
+      else rejected.push({ record, reasons });
+    });
+    return { valid, rejected };
+  },
+
+  // Throws with a readable message when any record would be saved in an invalid state
+  assertValid: (collection: DataCollection, records: any[]) => {
+    const { rejected } = ValidationService.partition(collection, records);
+    if (rejected.length === 0) return;
+    const first = rejected[0];
+    const label = first.record?.productName || first.record?.username || first.record?.description || first.record?.id || 'record';
+    throw new Error(`Cannot save ${label}: ${first.reasons.join('; ')}`);
+  }
+};
@@ -0,0 +1,102 @@
+import { WorkOrder, WorkOrderProgress, WorkOrderStage, ProductionEntry } from '../types';
+import { yieldSummary } from './actualRecords';
+
+/**
+ * WORK ORDERS
+ *
+ * A work order owns one batch of a product and has one stage per process in
+ * its route. Stages are the production entries linked to the order by
+ * workOrderId; their progress is worked out from those entries rather than
+ * stored. What a stage has produced is the input available to the next one.
+ * Saving and syncing go through StorageService; this module only reads,
+ * cleans and computes progress.
+ */
+const KEY = 'halagel_work_orders';
+
+const text = (value: any) => (typeof value === 'string' ? value.trim() : '');
+
+const normalizeWorkOrder = (data: any): WorkOrder | null => {
+  if (!data || typeof data !== 'object') return null;
+  const id = text(String(data.id ?? ''));
+  const batchNo = text(String(data.batchNo ?? ''));
+  if (!id || !batchNo) return null;
+  let route: any = data.route;
+  if (typeof route === 'string') {
+    try { route = JSON.parse(route); } catch { route = route.split(/\s*(?:,|→|>)\s*/); }
+  }
+  const quantity = Number(data.quantity);
+  const productId = text(data.productId);
+  const closedAt = text(data.closedAt);
+  return {
+    id,
+    batchNo,
+    ...(productId ? { productId } : {}),
+    productName: text(data.productName),
+    category: text(data.category),
+    quantity: Number.isFinite(quantity) && quantity > 0 ? quantity : 0,
+    unit: text(data.unit),
+    route: Array.isArray(route) ? route.map(text).filter(Boolean) : [],
+    createdBy: text(String(data.createdBy ?? '')) || 'System',
+    createdAt: text(data.createdAt),
+    ...(closedAt ? { closedAt, closedBy: text(String(data.closedBy ?? '')) } : {}),
+    updatedAt: text(data.updatedAt)
+  };
+};
+
+// Drops unusable rows and repeated ids
+export const normalizeWorkOrders = (data: any): WorkOrder[] => {
+  if (!Array.isArray(data)) return [];
+  const seen = new Set<string>();
+  return data.map(normalizeWorkOrder).filter((o): o is WorkOrder => {
+    if (!o || seen.has(o.id)) return false;
+    seen.add(o.id);
+    return true;
+  });
+};
+
+const sum = (entries: ProductionEntry[], field: 'planQuantity' | 'actualQuantity') =>
+  entries.reduce((total, e) => total + (e[field] || 0), 0);
+
+export const WorkOrderService = {
+  getAll: (): WorkOrder[] => {
+    try {
+      return normalizeWorkOrders(JSON.parse(localStorage.getItem(KEY) || '[]'));
+    } catch { return []; }
+  },
+
+  write: (orders: WorkOrder[]) => {
+    localStorage.setItem(KEY, JSON.stringify(normalizeWorkOrders(orders)));
+  },
+
+  /**
+   * Stage by stage progress of an order. The first stage receives the batch
+   * size; every later stage receives the good output of the stage before it.
+   * A stage is done once its output and recorded losses account for all of
+   * its input and the stage before it is done too.
+   */
+  progress: (order: WorkOrder, entries: ProductionEntry[]): WorkOrderProgress => {
+    const own = entries.filter(e => e.workOrderId === order.id);
+    const stages: WorkOrderStage[] = [];
+    order.route.forEach((process, i) => {
+      const stageEntries = own.filter(e => e.process === process);
+      const previous = stages[i - 1];
+      const input = previous ? previous.output : order.quantity;
+      const output = sum(stageEntries, 'actualQuantity');
+      const { reject, rework, scrap } = yieldSummary(stageEntries);
+      const lost = reject + rework + scrap;
+      const status = input > 0 && output + lost >= input && (!previous || previous.status === 'done')
+        ? 'done'
+        : output + lost > 0 ? 'in-progress' : input > 0 ? 'ready' : 'waiting';
+      stages.push({
+        process,
+        entryIds: stageEntries.map(e => e.id),
+        planned: sum(stageEntries, 'planQuantity'),
+        output,
+        lost,
+        availableInput: Math.max(0, input - output - lost),
+        status
+      });
+    });
+    return { order, stages, current: stages.find(s => s.status !== 'done') || null };
+  }
+};
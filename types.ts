@@ -1,38 +1,250 @@
 
 export type Role = 'admin' | 'manager' | 'planner' | 'operator';
 
-export interface User {
+export type Permission =
+  | 'plan.create'
+  | 'actual.record'
+  | 'production.edit'
+  | 'production.delete'
+  | 'offday.manage'
+  | 'logs.view'
+  | 'users.manage'
+  | 'settings.sheets'
+  | 'data.manage'
+  | 'trash.view'
+  | 'trash.purge'
+  | 'data.backup'
+  | 'masterData.manage'
+  | 'products.manage'
+  | 'workOrders.manage';
+
+export type PermissionMatrix = Record<Permission, Role[]>;
+
+// Records moved to the trash keep their data until they are purged
+export interface SoftDeletable {
+  deletedAt?: string; // YYYY-MM-DD HH:mm:ss, set while the record is in the trash
+  deletedBy?: string; // user id
+}
+
+export interface User extends SoftDeletable {
   id: string;
   name: string;
   username: string;
   email: string;
   role: Role;
-  password?: string; // In a real app, never store plain text. Used here for simulation.
+  password?: string;     // Legacy plain-text credential, replaced by passwordHash on first login
+  passwordHash?: string; // Salted PBKDF2 record produced by PasswordService
   avatar?: string;   // Base64 or SVG Data URI
+  lockedUntil?: number; // epoch ms; set by too many failed logins on any device
+  unlockedAt?: number;  // epoch ms of the last admin unlock; earlier failures no longer count
 }
 
-export type Category = 'Healthcare' | 'Toothpaste' | 'Rocksalt' | 'Cosmetic';
+// Category, process and unit names come from the admin-managed master data tables
+export type Category = string;
 
-export type ProcessType = 'Mixing' | 'Encapsulation' | 'Filling' | 'Sorting' | 'Packing';
+export type ProcessType = string;
+
+export type UnitType = string;
+
+export type MasterDataKind = 'categories' | 'processes' | 'units' | 'lossReasons';
+
+export interface MasterDataItem {
+  id: string;
+  name: string;
+  aliases?: string[]; // former names; records still carrying one are read as this item
+  archived?: boolean; // hidden from selectors for new entries, still valid on existing ones
+}
 
-export type UnitType = 'KG' | 'PCS';
+export type MasterData = Record<MasterDataKind, MasterDataItem[]>;
 
-export interface ProductionEntry {
+// A production shift in Malaysia time. A shift whose end is not after its start
+// runs past midnight and belongs to the production day it started on.
+export interface ShiftDefinition {
+  id: string;
+  name: string;
+  start: string;      // HH:mm
+  end: string;        // HH:mm
+  archived?: boolean; // hidden from selectors for new entries, still valid on existing ones
+}
+
+// Plan and actual totals of one shift; shiftId is '' for entries without a shift
+export interface ShiftBreakdownRow {
+  shiftId: string;
+  name: string;
+  plan: number;
+  actual: number;
+}
+
+// A catalogue product; production entries link to it by productId
+export interface Product {
+  id: string;
+  sku: string;
+  name: string;
+  category: Category;
+  defaultUnit: UnitType;
+  packSize?: string;    // free text, e.g. "50 g" or "12 x 100 ml"
+  route: ProcessType[]; // processes in production order
+  archived?: boolean;   // no longer offered in entry forms
+  updatedAt: string;
+}
+
+// A free-text product name used by entries that are not linked to the catalogue
+export interface UnmappedProductName {
+  name: string;
+  count: number;
+  suggestion?: Product;
+}
+
+export interface ProductionEntry extends SoftDeletable {
   id: string;
   date: string; // YYYY-MM-DD
   category: Category;
   process: ProcessType;
   productName: string;
+  productId?: string; // catalogue product, when the entry is linked to one
+  workOrderId?: string; // work order this entry is a stage of
+  shift?: string;       // id of the shift the plan belongs to; none means the whole day
   planQuantity: number;
-  actualQuantity: number;
+  actualQuantity: number; // sum of the actual records that are not voided
   unit: UnitType;
   batchNo?: string;
-  manpower?: number;
+  manpower?: number;      // sum of the actual records that are not voided
+  actuals?: ActualRecord[]; // oldest first; missing on plans nobody has reported against yet
   lastUpdatedBy: string;
   updatedAt: string;
+  revisions?: ProductionRevision[]; // oldest first
 }
 
-export interface OffDay {
+// One report of output against a plan. Voided records stay in the list but no longer count.
+export interface ActualRecord {
+  id: string;
+  quantity: number;   // good output
+  batchNo: string;
+  manpower: number;
+  shift?: string;     // shift the output was made in; defaults to the plan's shift
+  reportedBy: string; // user id
+  reportedAt: string;
+  updatedAt: string;
+  voidedAt?: string;
+  voidedBy?: string;
+  losses?: LossRecord[]; // output held back in this report; missing when everything passed
+}
+
+export type LossKind = 'reject' | 'rework' | 'scrap';
+
+// Output that did not pass first time, with the reason code it was held back for
+export interface LossRecord {
+  kind: LossKind;
+  quantity: number;
+  reason: string; // loss reason name from master data
+}
+
+// Good output and losses over a set of entries. First-pass yield is the share
+// of everything made that passed without rework; null when nothing was made.
+export interface YieldSummary {
+  good: number;
+  reject: number;
+  rework: number;
+  scrap: number;
+  firstPassYield: number | null;
+}
+
+// One bar of a reject Pareto: a reason with its losses and the running share of all losses
+export interface LossReasonRow {
+  reason: string;
+  quantity: number;
+  cumulativeShare: number;
+}
+
+// One batch of a product travelling through the processes of its route
+export interface WorkOrder {
+  id: string;
+  batchNo: string;
+  productId?: string;
+  productName: string;
+  category: Category;
+  quantity: number;     // batch size entering the first stage
+  unit: UnitType;
+  route: ProcessType[]; // one stage per process, in production order
+  createdBy: string;    // user id, or 'System' for orders created by a migration
+  createdAt: string;    // YYYY-MM-DD HH:mm:ss
+  closedAt?: string;    // set once the batch is finished or abandoned
+  closedBy?: string;
+  updatedAt: string;
+}
+
+export type WorkOrderStageStatus = 'waiting' | 'ready' | 'in-progress' | 'done';
+
+// Progress of one stage, worked out from the production entries of the work order
+export interface WorkOrderStage {
+  process: ProcessType;
+  entryIds: string[];
+  planned: number;
+  output: number;         // actual quantity recorded for the stage
+  lost: number;           // rejected, reworked and scrapped output recorded for the stage
+  availableInput: number; // received from the previous stage (or the batch) and neither output nor lost yet
+  status: WorkOrderStageStatus;
+}
+
+export interface WorkOrderProgress {
+  order: WorkOrder;
+  stages: WorkOrderStage[];
+  current: WorkOrderStage | null; // first stage not done; null once every stage is done
+}
+
+export type DowntimeReason = 'breakdown' | 'changeover' | 'material' | 'manpower' | 'other';
+
+// A stoppage of one process line. A stoppage whose end is not after its start ran past midnight.
+export interface DowntimeEntry extends SoftDeletable {
+  id: string;
+  date: string;            // YYYY-MM-DD, the production day the stoppage counts toward
+  category: Category;
+  process: ProcessType;
+  entryId?: string;        // production entry the stoppage held up, when known
+  start: string;           // HH:mm
+  end: string;             // HH:mm
+  durationMinutes: number; // worked out from start and end
+  reason: DowntimeReason;
+  notes: string;
+  reportedBy: string;      // user id
+  reportedAt: string;
+  updatedAt: string;
+}
+
+// Downtime of one process over a set of stoppages, with the reason that cost the most minutes
+export interface DowntimeSummaryRow {
+  process: ProcessType;
+  minutes: number;
+  stoppages: number;
+  topReason: DowntimeReason | null;
+}
+
+export interface FieldChange {
+  field: string;
+  from: any; // undefined when the field did not exist yet
+  to: any;
+  byId?: boolean; // list field: from and to hold only the items that changed, matched by id
+}
+
+// One save of a production entry: which fields changed, by whom and when
+export interface ProductionRevision {
+  id: string;
+  at: string;        // YYYY-MM-DD HH:mm:ss
+  by: string;        // user id
+  changes: FieldChange[];
+  revertOf?: string; // revision whose state this save went back to
+}
+
+// Filter for indexed production lookups; omitted fields match everything
+export interface ProductionQuery {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+  category?: string;
+  process?: string;
+  productName?: string;
+}
+
+export interface OffDay extends SoftDeletable {
   id: string;
   date: string; // YYYY-MM-DD
   description: string;
@@ -54,3 +266,199 @@ export interface DashboardStats {
   avgEfficiency: number;
   totalManpower: number;
 }
+
+export interface Session {
+  token: string;
+  userId: string;
+  issuedAt: number;     // epoch ms
+  expiresAt: number;    // epoch ms, absolute expiry
+  lastActivity: number; // epoch ms, drives the idle timeout
+  remember: boolean;
+}
+
+export interface LoginAttemptState {
+  failures: number;
+  lastFailureAt: number; // epoch ms
+  lockedUntil: number;   // epoch ms, 0 when not locked
+}
+
+export type LoginResult =
+  | { ok: true }
+  | { ok: false; reason: 'invalid'; attemptsLeft: number }
+  | { ok: false; reason: 'throttled' | 'locked'; retryAfterMs: number };
+
+export interface SessionSettings {
+  idleTimeoutMinutes: number; // applies to sessions without "remember me"
+  sessionHours: number;
+  rememberDays: number;
+}
+
+export type SyncEntity = 'production' | 'offDays' | 'downtime';
+
+export type SyncPolicy = 'last-writer-wins' | 'ask';
+
+export type SyncOutcomeStatus =
+  | 'unchanged'
+  | 'pulled'          // remote version taken
+  | 'pushed'          // local version sent
+  | 'merged'          // non-overlapping field edits combined
+  | 'resolved'        // overlapping edits settled by last-writer-wins
+  | 'conflict'        // overlapping edits waiting for a user decision
+  | 'deleted-local'   // deleted here, deletion sent
+  | 'deleted-remote'; // deleted elsewhere, removed here
+
+export interface SyncOutcome {
+  entity: SyncEntity;
+  id: string;
+  label: string;
+  status: SyncOutcomeStatus;
+  fields?: string[];
+}
+
+export interface SyncConflict {
+  entity: SyncEntity;
+  id: string;
+  label: string;
+  fields: string[];
+  local: Record<string, any> | null;  // null when deleted locally
+  remote: Record<string, any> | null; // null when deleted remotely
+  detectedAt: string;
+}
+
+export interface SyncReport {
+  outcomes: SyncOutcome[];
+  conflicts: SyncConflict[];
+  pushFailed: SyncEntity[];
+}
+
+export interface OutboxMutation {
+  key: string;             // one entry per table or action; newer writes replace the payload
+  kind: 'sync' | 'save';   // 'sync' merges a two-way table, 'save' posts the payload as-is
+  entity?: SyncEntity;
+  action?: string;
+  payload?: any;
+  changes: number;         // local writes folded into this entry
+  createdAt: number;       // epoch ms
+  attempts: number;
+  nextAttemptAt: number;   // epoch ms
+  lastError?: string;
+}
+
+export type StorageBackendKind = 'localStorage' | 'indexedDB' | 'googleSheets' | 'rest' | 'memory';
+
+// Record type held by each collection a storage backend must provide
+export interface BackendCollections {
+  users: User;
+  production: ProductionEntry;
+  offDays: OffDay;
+  logs: ActivityLog;
+  sessions: Session;
+}
+
+export type BackendCollection = keyof BackendCollections;
+
+export interface StorageBackendConfig {
+  kind: StorageBackendKind;
+  restUrl?: string;   // base URL of the REST API, e.g. https://erp.example.com/api
+  restToken?: string; // sent as a Bearer token when set
+}
+
+/**
+ * Persistence contract every backend implements. Records are keyed by `id`,
+ * except sessions which are keyed by `token`. Failures reject the promise.
+ */
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  list<C extends BackendCollection>(collection: C): Promise<BackendCollections[C][]>;
+  upsert<C extends BackendCollection>(collection: C, records: BackendCollections[C][]): Promise<void>;
+  remove(collection: BackendCollection, ids: string[]): Promise<void>;
+  replaceAll<C extends BackendCollection>(collection: C, records: BackendCollections[C][]): Promise<void>;
+}
+
+// Tables whose records are validated before they are accepted
+export type DataCollection = 'production' | 'offDays' | 'logs' | 'users' | 'downtime';
+
+export type QuarantineSource = 'sheet' | 'local' | 'backend' | 'backup';
+
+// A record rejected by validation, kept aside until an admin fixes or discards it
+export interface QuarantinedRecord {
+  id: string;
+  collection: DataCollection;
+  source: QuarantineSource;
+  record: any;             // as received, after schema migration
+  reasons: string[];
+  fingerprint: string;     // identifies the same bad row arriving again
+  detectedAt: string;      // YYYY-MM-DD HH:mm:ss
+  lastSeenAt: string;
+}
+
+// Tables whose deletions go to the trash first
+export type TrashCollection = 'production' | 'offDays' | 'users' | 'downtime';
+
+export interface TrashItem {
+  collection: TrashCollection;
+  id: string;
+  label: string;
+  deletedAt: string;
+  deletedBy: string;
+  purgeableFrom: string; // YYYY-MM-DD, first day the record may be purged
+}
+
+// Everything a backup archive carries; users never include password material
+export interface BackupData {
+  users: User[];
+  production: ProductionEntry[];
+  offDays: OffDay[];
+  logs: ActivityLog[];
+  settings: {
+    permissions: PermissionMatrix;
+    sessionSettings: SessionSettings;
+    syncPolicy: SyncPolicy;
+    masterData?: MasterData; // missing in archives made before master data existed
+    products?: Product[];    // missing in archives made before the product catalogue existed
+    shifts?: ShiftDefinition[]; // missing in archives made before shifts existed
+  };
+  workOrders?: WorkOrder[]; // missing in archives made before work orders existed
+  downtime?: DowntimeEntry[]; // missing in archives made before the downtime log existed
+}
+
+export interface BackupArchive {
+  type: 'halagel-backup';
+  version: 1;            // archive format
+  schemaVersion: number; // record schema the data was written with
+  createdAt: string;     // YYYY-MM-DD HH:mm:ss
+  createdBy: string;
+  data: BackupData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export type BackupCollection = Exclude<keyof BackupData, 'settings' | 'workOrders' | 'downtime'>;
+
+// Everything a restore writes record by record, settings tables included
+export type RestoredCollection = BackupCollection | 'workOrders' | 'downtime' | 'products' | 'shifts';
+
+export interface RestorePreviewRow {
+  collection: RestoredCollection;
+  inArchive: number;
+  onDevice: number;
+  added: number;   // not on this device yet
+  updated: number; // on this device, replaced by the archive copy
+  removed: number; // on this device only, dropped by a replace
+}
+
+// Why a local snapshot was taken
+export type SnapshotReason = 'daily' | 'pre-sync' | 'pre-rollback';
+
+// What a snapshot list shows without loading the snapshot's data
+export interface SnapshotSummary {
+  id: string;
+  reason: SnapshotReason;
+  createdAt: string; // YYYY-MM-DD HH:mm:ss
+  schemaVersion: number;
+  counts: Record<BackupCollection, number>;
+}
+
+export interface LocalSnapshot extends SnapshotSummary {
+  data: BackupData;
+}
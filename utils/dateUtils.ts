@@ -116,3 +116,22 @@ export const formatDisplayDate = (dateStr: string): string => {
 export const isValidISODate = (dateStr: string): boolean => {
   return /^\d{4}-\d{2}-\d{2}$/.test(dateStr);
 };
+
+/**
+ * Returns the YYYY-MM-DD date the given number of days after (or before) dateStr
+ */
+export const addDaysISO = (dateStr: string, days: number): string => {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d + days));
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Formats a number of minutes as e.g. "1h 25m", "45m" or "2h"
+ */
+export const formatMinutes = (minutes: number): string => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (!h) return `${m}m`;
+  return m ? `${h}h ${m}m` : `${h}h`;
+};
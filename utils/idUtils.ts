@@ -0,0 +1,28 @@
+/**
+ * HALAGEL RECORD IDS
+ * ULIDs: 48-bit millisecond timestamp + 80 random bits in Crockford base32.
+ * Unique across devices without coordination and sortable by creation time.
+ */
+
+const ENCODING = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+const encodeTime = (time: number, length: number): string => {
+  let out = '';
+  for (let i = 0; i < length; i++) {
+    out = ENCODING[time % 32] + out;
+    time = Math.floor(time / 32);
+  }
+  return out;
+};
+
+const encodeRandom = (length: number): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, b => ENCODING[b % 32]).join('');
+};
+
+/**
+ * Returns a new 26-character ULID, e.g. "01J9ZK3V7Q8R2T4W6Y8A0C2E4G".
+ */
+export const generateId = (time: number = Date.now()): string => {
+  return encodeTime(time, 10) + encodeRandom(16);
+};